@@ -1,6 +1,19 @@
 import Database from "better-sqlite3";
 import { randomUUID } from "crypto";
-import type { DbStats } from "../../shared/types.js";
+import type { DbStats, UsageStats, UsageTotals } from "../../shared/types.js";
+
+// Aggregate columns shared by every usage breakdown (see UsageTotals)
+const USAGE_TOTALS_SQL = `
+  COUNT(*) - COALESCE(SUM(u.is_failed), 0) AS summaries,
+  COALESCE(SUM(u.is_failed), 0) AS failed,
+  COALESCE(SUM(u.input_tokens), 0) AS input_tokens,
+  COALESCE(SUM(u.output_tokens), 0) AS output_tokens,
+  COALESCE(SUM(u.audio_seconds), 0) AS audio_seconds,
+  COALESCE(SUM(u.estimated_cost), 0) AS estimated_cost,
+  COUNT(*) - COUNT(u.estimated_cost) AS unpriced
+`;
+// Days shown in the per-day usage breakdown
+const USAGE_DAYS = 30;
 
 export class DatabaseManager {
   public db: Database.Database;
@@ -11,10 +24,21 @@ export class DatabaseManager {
   public getPodcastById!: Database.Statement;
   public getPodcastByFeedUrl!: Database.Statement;
   public updatePodcastPrompt!: Database.Statement;
+  public updatePodcastAiProvider!: Database.Statement;
+  public updatePodcastPromptTemplate!: Database.Statement;
+  public updatePodcastSummaryLanguage!: Database.Statement;
+  public updatePodcastAutoSummarize!: Database.Statement;
+  public updatePodcastRefreshInterval!: Database.Statement;
+  public markPodcastSyncFailed!: Database.Statement;
+  public markPodcastNotModified!: Database.Statement;
+  public updatePodcastFeedValidators!: Database.Statement;
   public deletePodcast!: Database.Statement;
   public softDeletePodcast!: Database.Statement;
   public upsertEpisode!: Database.Statement;
   public getEpisodesByPodcast!: Database.Statement;
+  public updateEpisodeChapters!: Database.Statement;
+  public markEpisodeSeen!: Database.Statement;
+  public markPodcastEpisodesSeen!: Database.Statement;
   public getEpisodeById!: Database.Statement;
   public updateEpisodeDownloadStatus!: Database.Statement;
   public getDownloadedEpisodes!: Database.Statement;
@@ -26,6 +50,55 @@ export class DatabaseManager {
   public hasDocuments!: Database.Statement;
   public getDocumentsByPodcast!: Database.Statement;
   public getDocumentsByEpisodes!: Database.Statement;
+  public getPrimaryDocumentByEpisode!: Database.Statement;
+  public getLibraryDocuments!: Database.Statement;
+  public getLatestDocumentByEpisode!: Database.Statement;
+  public clearPrimaryDocument!: Database.Statement;
+  public markDocumentPrimary!: Database.Statement;
+  public updateDocumentPinned!: Database.Statement;
+  public insertSummaryJob!: Database.Statement;
+  public getSummaryJobById!: Database.Statement;
+  public getActiveSummaryJobByEpisode!: Database.Statement;
+  public getActiveSummaryJobs!: Database.Statement;
+  public getNextPendingSummaryJob!: Database.Statement;
+  public markSummaryJobRunning!: Database.Statement;
+  public finishSummaryJob!: Database.Statement;
+  public requeueRunningSummaryJobs!: Database.Statement;
+  public requeueSummaryJob!: Database.Statement;
+  public upsertTranscript!: Database.Statement;
+  public getTranscriptByEpisode!: Database.Statement;
+  public deleteTranscript!: Database.Statement;
+  public insertTranscriptSegment!: Database.Statement;
+  public getTranscriptSegments!: Database.Statement;
+  public deleteTranscriptSegments!: Database.Statement;
+  public insertChatMessage!: Database.Statement;
+  public getChatMessagesByEpisode!: Database.Statement;
+  public deleteChatMessagesByEpisode!: Database.Statement;
+  public searchDocuments!: Database.Statement;
+  public searchDocumentsLike!: Database.Statement;
+  public searchEpisodes!: Database.Statement;
+  public searchEpisodesLike!: Database.Statement;
+  public searchTranscripts!: Database.Statement;
+  public searchTranscriptsLike!: Database.Statement;
+  public insertEmbedding!: Database.Statement;
+  public deleteEmbeddingsBySource!: Database.Statement;
+  public hasDocumentEmbedding!: Database.Statement;
+  public hasTranscriptEmbeddings!: Database.Statement;
+  public getEpisodesNeedingEmbeddings!: Database.Statement;
+  public getSearchableEmbeddings!: Database.Statement;
+  public getSummaryEmbeddings!: Database.Statement;
+  public insertFeedFetch!: Database.Statement;
+  public pruneFeedFetchLog!: Database.Statement;
+  public getFeedFetchLog!: Database.Statement;
+  public insertSummaryUsage!: Database.Statement;
+  public getUsageSince!: Database.Statement;
+  public getPromptTemplates!: Database.Statement;
+  public getPromptTemplateById!: Database.Statement;
+  public insertPromptTemplate!: Database.Statement;
+  public updatePromptTemplate!: Database.Statement;
+  public deletePromptTemplate!: Database.Statement;
+  public getSetting!: Database.Statement;
+  public setSetting!: Database.Statement;
 
   constructor(dbPath: string) {
     this.db = new Database(dbPath);
@@ -69,10 +142,113 @@ export class DatabaseManager {
           FOREIGN KEY(episode_id) REFERENCES episodes(id) ON DELETE CASCADE
       );
 
+      CREATE TABLE IF NOT EXISTS summary_jobs (
+          id TEXT PRIMARY KEY,
+          episode_id TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          error TEXT,
+          created_at TEXT NOT NULL,
+          started_at TEXT,
+          finished_at TEXT,
+          FOREIGN KEY(episode_id) REFERENCES episodes(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS transcripts (
+          episode_id TEXT PRIMARY KEY,
+          source TEXT NOT NULL,
+          model TEXT,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY(episode_id) REFERENCES episodes(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS transcript_segments (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          episode_id TEXT NOT NULL,
+          seq INTEGER NOT NULL,
+          start_time REAL NOT NULL,
+          end_time REAL NOT NULL,
+          speaker TEXT,
+          text TEXT NOT NULL,
+          FOREIGN KEY(episode_id) REFERENCES transcripts(episode_id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS chat_messages (
+          id TEXT PRIMARY KEY,
+          episode_id TEXT NOT NULL,
+          role TEXT NOT NULL,
+          content TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY(episode_id) REFERENCES episodes(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS embeddings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          episode_id TEXT NOT NULL,
+          document_id TEXT,
+          source TEXT NOT NULL,
+          chunk_index INTEGER NOT NULL,
+          start_time REAL,
+          text TEXT NOT NULL,
+          model TEXT NOT NULL,
+          vector BLOB NOT NULL,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY(episode_id) REFERENCES episodes(id) ON DELETE CASCADE,
+          FOREIGN KEY(document_id) REFERENCES documents(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS summary_usage (
+          id TEXT PRIMARY KEY,
+          document_id TEXT,
+          episode_id TEXT NOT NULL,
+          provider TEXT NOT NULL,
+          model TEXT NOT NULL,
+          input_tokens INTEGER NOT NULL DEFAULT 0,
+          output_tokens INTEGER NOT NULL DEFAULT 0,
+          audio_seconds REAL,
+          estimated_cost REAL,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY(episode_id) REFERENCES episodes(id) ON DELETE CASCADE,
+          FOREIGN KEY(document_id) REFERENCES documents(id) ON DELETE SET NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS prompt_templates (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          content TEXT NOT NULL,
+          is_builtin INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS feed_fetch_log (
+          id TEXT PRIMARY KEY,
+          podcast_id TEXT NOT NULL,
+          fetched_at TEXT NOT NULL,
+          status INTEGER,
+          bytes INTEGER NOT NULL DEFAULT 0,
+          duration_ms INTEGER NOT NULL,
+          error TEXT,
+          FOREIGN KEY(podcast_id) REFERENCES podcasts(id) ON DELETE CASCADE
+      );
+
       CREATE INDEX IF NOT EXISTS idx_episodes_podcast_id ON episodes(podcast_id);
       CREATE INDEX IF NOT EXISTS idx_episodes_pub_date ON episodes(pub_date DESC);
       CREATE INDEX IF NOT EXISTS idx_documents_episode_id ON documents(episode_id);
       CREATE INDEX IF NOT EXISTS idx_documents_created_at ON documents(created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_summary_jobs_status ON summary_jobs(status, created_at);
+      CREATE INDEX IF NOT EXISTS idx_summary_jobs_episode_id ON summary_jobs(episode_id);
+      CREATE INDEX IF NOT EXISTS idx_transcript_segments_episode ON transcript_segments(episode_id, seq);
+      CREATE INDEX IF NOT EXISTS idx_chat_messages_episode ON chat_messages(episode_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_embeddings_model_episode ON embeddings(model, episode_id, source);
+      CREATE INDEX IF NOT EXISTS idx_embeddings_document ON embeddings(document_id);
+      CREATE INDEX IF NOT EXISTS idx_summary_usage_created_at ON summary_usage(created_at);
+      CREATE INDEX IF NOT EXISTS idx_summary_usage_document ON summary_usage(document_id);
+      CREATE INDEX IF NOT EXISTS idx_feed_fetch_log_podcast ON feed_fetch_log(podcast_id, fetched_at DESC);
     `);
 
     // Migration: soft delete support
@@ -83,6 +259,367 @@ export class DatabaseManager {
     } catch {
       // Column already exists — safe to ignore
     }
+
+    // Migration: summary version history (primary / pinned versions)
+    try {
+      this.db.exec(
+        `ALTER TABLE documents ADD COLUMN is_primary INTEGER NOT NULL DEFAULT 0`,
+      );
+      // Existing libraries: the newest summary of each episode becomes primary
+      this.db.exec(`
+        UPDATE documents SET is_primary = 1
+        WHERE id IN (
+          SELECT d.id FROM documents d
+          WHERE d.created_at = (
+            SELECT MAX(created_at) FROM documents WHERE episode_id = d.episode_id
+          )
+        )
+      `);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(
+        `ALTER TABLE documents ADD COLUMN is_pinned INTEGER NOT NULL DEFAULT 0`,
+      );
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    // Migration: per-podcast AI provider / model override
+    try {
+      this.db.exec(`ALTER TABLE podcasts ADD COLUMN ai_provider TEXT`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(`ALTER TABLE podcasts ADD COLUMN ai_model TEXT`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    // Migration: prompt templates (per podcast and per summary run)
+    try {
+      this.db.exec(
+        `ALTER TABLE podcasts ADD COLUMN prompt_template_id TEXT REFERENCES prompt_templates(id) ON DELETE SET NULL`,
+      );
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(
+        `ALTER TABLE summary_jobs ADD COLUMN prompt_template_id TEXT REFERENCES prompt_templates(id) ON DELETE SET NULL`,
+      );
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    // Migration: summary output language (per podcast) and translations
+    try {
+      this.db.exec(`ALTER TABLE podcasts ADD COLUMN summary_language TEXT`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(`ALTER TABLE documents ADD COLUMN language TEXT`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    // Migration: structured (JSON) summaries
+    try {
+      this.db.exec(`ALTER TABLE documents ADD COLUMN structured TEXT`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    // Migration: several labeled summaries ("lenses") per run
+    try {
+      this.db.exec(`ALTER TABLE documents ADD COLUMN label TEXT`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    // Several templates per run replace summary_jobs.prompt_template_id,
+    // which is no longer read; jobs queued before keep their template
+    try {
+      this.db.exec(
+        `ALTER TABLE summary_jobs ADD COLUMN prompt_template_ids TEXT`,
+      );
+      this.db.exec(`
+        UPDATE summary_jobs SET prompt_template_ids = json_array(prompt_template_id)
+        WHERE prompt_template_id IS NOT NULL
+      `);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    // Migration: auto-summarize rules for new episodes (per podcast)
+    try {
+      this.db.exec(
+        `ALTER TABLE podcasts ADD COLUMN auto_summarize INTEGER NOT NULL DEFAULT 0`,
+      );
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(
+        `ALTER TABLE podcasts ADD COLUMN auto_summarize_min_minutes INTEGER`,
+      );
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(
+        `ALTER TABLE podcasts ADD COLUMN auto_summarize_title_pattern TEXT`,
+      );
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(
+        `ALTER TABLE podcasts ADD COLUMN auto_summarize_title_regex INTEGER NOT NULL DEFAULT 0`,
+      );
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(
+        `ALTER TABLE summary_jobs ADD COLUMN is_auto INTEGER NOT NULL DEFAULT 0`,
+      );
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    // Migration: scheduled feed refresh (per podcast interval, sync status)
+    try {
+      this.db.exec(
+        `ALTER TABLE podcasts ADD COLUMN refresh_interval_minutes INTEGER`,
+      );
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(`ALTER TABLE podcasts ADD COLUMN last_sync_error TEXT`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(`ALTER TABLE podcasts ADD COLUMN last_sync_error_at TEXT`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    // Migration: HTTP validators for conditional feed requests
+    try {
+      this.db.exec(`ALTER TABLE podcasts ADD COLUMN feed_etag TEXT`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(`ALTER TABLE podcasts ADD COLUMN feed_last_modified TEXT`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    // Migration: "new since last viewed" flag for episodes found by a sync
+    try {
+      this.db.exec(
+        `ALTER TABLE episodes ADD COLUMN is_new INTEGER NOT NULL DEFAULT 0`,
+      );
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    // Migration: Podcasting 2.0 tags (transcript, chapters, persons)
+    try {
+      this.db.exec(`ALTER TABLE episodes ADD COLUMN transcript_url TEXT`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(`ALTER TABLE episodes ADD COLUMN transcript_type TEXT`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(`ALTER TABLE episodes ADD COLUMN chapters_url TEXT`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(`ALTER TABLE episodes ADD COLUMN chapters TEXT`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(`ALTER TABLE episodes ADD COLUMN persons TEXT`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    // Migration: show notes and episode metadata from the feed
+    try {
+      this.db.exec(`ALTER TABLE episodes ADD COLUMN description TEXT`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(`ALTER TABLE episodes ADD COLUMN content_html TEXT`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(`ALTER TABLE episodes ADD COLUMN season INTEGER`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(`ALTER TABLE episodes ADD COLUMN episode_number INTEGER`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(`ALTER TABLE episodes ADD COLUMN episode_type TEXT`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(`ALTER TABLE episodes ADD COLUMN is_explicit INTEGER`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(`ALTER TABLE episodes ADD COLUMN artwork_url TEXT`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(`ALTER TABLE episodes ADD COLUMN enclosure_length INTEGER`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    try {
+      this.db.exec(`ALTER TABLE episodes ADD COLUMN enclosure_type TEXT`);
+    } catch {
+      // Column already exists — safe to ignore
+    }
+
+    this.initFullTextSearch();
+  }
+
+  /**
+   * FTS5 indexes over summaries, episode titles and transcript segments,
+   * kept in sync with their source tables by triggers.
+   *
+   * The trigram tokenizer matches substrings, which works for CJK text
+   * (no spaces between words) as well as English. Indexes created for an
+   * existing library are backfilled once.
+   */
+  private initFullTextSearch() {
+    const existing = new Set(
+      (
+        this.db
+          .prepare(
+            "SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE '%_fts'",
+          )
+          .all() as { name: string }[]
+      ).map((row) => row.name),
+    );
+
+    this.db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS documents_fts USING fts5(
+          document_id UNINDEXED,
+          content,
+          tokenize = 'trigram'
+      );
+
+      CREATE VIRTUAL TABLE IF NOT EXISTS episodes_fts USING fts5(
+          episode_id UNINDEXED,
+          title,
+          tokenize = 'trigram'
+      );
+
+      -- rowid = transcript_segments.id
+      CREATE VIRTUAL TABLE IF NOT EXISTS transcripts_fts USING fts5(
+          episode_id UNINDEXED,
+          text,
+          tokenize = 'trigram'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS documents_fts_insert AFTER INSERT ON documents BEGIN
+          INSERT INTO documents_fts (document_id, content) VALUES (new.id, new.content);
+      END;
+      CREATE TRIGGER IF NOT EXISTS documents_fts_delete AFTER DELETE ON documents BEGIN
+          DELETE FROM documents_fts WHERE document_id = old.id;
+      END;
+      CREATE TRIGGER IF NOT EXISTS documents_fts_update AFTER UPDATE OF content ON documents BEGIN
+          UPDATE documents_fts SET content = new.content WHERE document_id = old.id;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS episodes_fts_insert AFTER INSERT ON episodes BEGIN
+          INSERT INTO episodes_fts (episode_id, title) VALUES (new.id, new.title);
+      END;
+      CREATE TRIGGER IF NOT EXISTS episodes_fts_delete AFTER DELETE ON episodes BEGIN
+          DELETE FROM episodes_fts WHERE episode_id = old.id;
+      END;
+      CREATE TRIGGER IF NOT EXISTS episodes_fts_update AFTER UPDATE OF title ON episodes BEGIN
+          UPDATE episodes_fts SET title = new.title WHERE episode_id = old.id;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS transcripts_fts_insert AFTER INSERT ON transcript_segments BEGIN
+          INSERT INTO transcripts_fts (rowid, episode_id, text) VALUES (new.id, new.episode_id, new.text);
+      END;
+      CREATE TRIGGER IF NOT EXISTS transcripts_fts_delete AFTER DELETE ON transcript_segments BEGIN
+          DELETE FROM transcripts_fts WHERE rowid = old.id;
+      END;
+      CREATE TRIGGER IF NOT EXISTS transcripts_fts_update AFTER UPDATE OF text ON transcript_segments BEGIN
+          UPDATE transcripts_fts SET text = new.text WHERE rowid = old.id;
+      END;
+    `);
+
+    // Backfill indexes that did not exist before this launch
+    if (!existing.has("documents_fts")) {
+      this.db.exec(`
+        INSERT INTO documents_fts (document_id, content)
+        SELECT id, content FROM documents
+      `);
+    }
+    if (!existing.has("episodes_fts")) {
+      this.db.exec(`
+        INSERT INTO episodes_fts (episode_id, title)
+        SELECT id, title FROM episodes
+      `);
+    }
+    if (!existing.has("transcripts_fts")) {
+      this.db.exec(`
+        INSERT INTO transcripts_fts (rowid, episode_id, text)
+        SELECT id, episode_id, text FROM transcript_segments
+      `);
+    }
   }
 
   private initStatements() {
@@ -98,9 +635,14 @@ export class DatabaseManager {
       RETURNING id
     `);
 
-    this.getPodcasts = this.db.prepare(
-      "SELECT * FROM podcasts WHERE is_subscribed = 1 ORDER BY title ASC",
-    );
+    this.getPodcasts = this.db.prepare(`
+      SELECT p.*,
+        (SELECT COUNT(*) FROM episodes e
+         WHERE e.podcast_id = p.id AND e.is_new = 1) AS new_count
+      FROM podcasts p
+      WHERE p.is_subscribed = 1
+      ORDER BY p.title ASC
+    `);
 
     this.getPodcastById = this.db.prepare(
       "SELECT * FROM podcasts WHERE id = ?",
@@ -114,6 +656,42 @@ export class DatabaseManager {
       UPDATE podcasts SET custom_prompt = ? WHERE id = ?
     `);
 
+    this.updatePodcastAiProvider = this.db.prepare(`
+      UPDATE podcasts SET ai_provider = ?, ai_model = ? WHERE id = ?
+    `);
+
+    this.updatePodcastPromptTemplate = this.db.prepare(`
+      UPDATE podcasts SET prompt_template_id = ? WHERE id = ?
+    `);
+
+    this.updatePodcastSummaryLanguage = this.db.prepare(`
+      UPDATE podcasts SET summary_language = ? WHERE id = ?
+    `);
+
+    this.updatePodcastRefreshInterval = this.db.prepare(`
+      UPDATE podcasts SET refresh_interval_minutes = ? WHERE id = ?
+    `);
+
+    this.markPodcastSyncFailed = this.db.prepare(`
+      UPDATE podcasts SET last_sync_error = ?, last_sync_error_at = ? WHERE id = ?
+    `);
+
+    // A 304 Not Modified counts as a successful sync
+    this.markPodcastNotModified = this.db.prepare(`
+      UPDATE podcasts SET last_fetched_at = ? WHERE id = ?
+    `);
+
+    this.updatePodcastFeedValidators = this.db.prepare(`
+      UPDATE podcasts SET feed_etag = ?, feed_last_modified = ? WHERE id = ?
+    `);
+
+    this.updatePodcastAutoSummarize = this.db.prepare(`
+      UPDATE podcasts
+      SET auto_summarize = ?, auto_summarize_min_minutes = ?, auto_summarize_title_pattern = ?,
+        auto_summarize_title_regex = ?
+      WHERE id = ?
+    `);
+
     this.deletePodcast = this.db.prepare("DELETE FROM podcasts WHERE id = ?");
 
     this.softDeletePodcast = this.db.prepare(
@@ -123,14 +701,43 @@ export class DatabaseManager {
     // ===== Episodes =====
 
     // CRITICAL: This upsert does NOT overwrite is_downloaded or local_file_path
+    // Named parameters: one per inserted column (@id, @podcast_id, ...)
     this.upsertEpisode = this.db.prepare(`
-      INSERT INTO episodes (id, podcast_id, title, pub_date, duration, audio_url)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO episodes (
+        id, podcast_id, title, pub_date, duration, audio_url, is_new,
+        transcript_url, transcript_type, chapters_url, persons,
+        description, content_html, season, episode_number, episode_type,
+        is_explicit, artwork_url, enclosure_length, enclosure_type
+      )
+      VALUES (
+        @id, @podcast_id, @title, @pub_date, @duration, @audio_url, @is_new,
+        @transcript_url, @transcript_type, @chapters_url, @persons,
+        @description, @content_html, @season, @episode_number, @episode_type,
+        @is_explicit, @artwork_url, @enclosure_length, @enclosure_type
+      )
       ON CONFLICT(id) DO UPDATE SET
         title = excluded.title,
         duration = excluded.duration,
-        audio_url = excluded.audio_url
-        -- DO NOT UPDATE is_downloaded or local_file_path
+        audio_url = excluded.audio_url,
+        transcript_url = excluded.transcript_url,
+        transcript_type = excluded.transcript_type,
+        -- Cached chapters stay valid while the chapters file URL is unchanged
+        chapters = CASE
+          WHEN episodes.chapters_url IS excluded.chapters_url THEN episodes.chapters
+          ELSE NULL
+        END,
+        chapters_url = excluded.chapters_url,
+        persons = excluded.persons,
+        description = excluded.description,
+        content_html = excluded.content_html,
+        season = excluded.season,
+        episode_number = excluded.episode_number,
+        episode_type = excluded.episode_type,
+        is_explicit = excluded.is_explicit,
+        artwork_url = excluded.artwork_url,
+        enclosure_length = excluded.enclosure_length,
+        enclosure_type = excluded.enclosure_type
+        -- DO NOT UPDATE is_downloaded, local_file_path or is_new
     `);
 
     this.getEpisodesByPodcast = this.db.prepare(`
@@ -139,6 +746,18 @@ export class DatabaseManager {
       ORDER BY pub_date DESC
     `);
 
+    this.updateEpisodeChapters = this.db.prepare(
+      "UPDATE episodes SET chapters = ? WHERE id = ?",
+    );
+
+    this.markEpisodeSeen = this.db.prepare(
+      "UPDATE episodes SET is_new = 0 WHERE id = ?",
+    );
+
+    this.markPodcastEpisodesSeen = this.db.prepare(
+      "UPDATE episodes SET is_new = 0 WHERE podcast_id = ?",
+    );
+
     this.getEpisodeById = this.db.prepare(
       "SELECT * FROM episodes WHERE id = ?",
     );
@@ -158,8 +777,8 @@ export class DatabaseManager {
     // ===== Documents =====
 
     this.insertDocument = this.db.prepare(`
-      INSERT INTO documents (id, episode_id, content, created_at, used_prompt)
-      VALUES (?, ?, ?, ?, ?)
+      INSERT INTO documents (id, episode_id, content, created_at, used_prompt, language, structured, label)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     this.getDocumentsByEpisode = this.db.prepare(`
@@ -182,11 +801,12 @@ export class DatabaseManager {
       SELECT COUNT(*) as count FROM documents WHERE episode_id = ?
     `);
 
+    // Knowledge base lists one document (the primary version) per episode
     this.getDocumentsByPodcast = this.db.prepare(`
       SELECT d.*, e.title as episode_title, e.pub_date as episode_pub_date
       FROM documents d
       JOIN episodes e ON d.episode_id = e.id
-      WHERE e.podcast_id = ?
+      WHERE e.podcast_id = ? AND d.is_primary = 1
       ORDER BY d.created_at DESC
     `);
 
@@ -195,6 +815,402 @@ export class DatabaseManager {
       WHERE episode_id IN (${Array(100).fill("?").join(",")})
       ORDER BY created_at DESC
     `);
+
+    this.getPrimaryDocumentByEpisode = this.db.prepare(`
+      SELECT * FROM documents
+      WHERE episode_id = ? AND is_primary = 1
+      LIMIT 1
+    `);
+
+    // Primary summaries of subscribed podcasts, for library-wide questions
+    this.getLibraryDocuments = this.db.prepare(`
+      SELECT d.id, d.episode_id, d.content, d.created_at,
+             e.title as episode_title, e.pub_date as episode_pub_date,
+             p.id as podcast_id, p.title as podcast_title
+      FROM documents d
+      JOIN episodes e ON d.episode_id = e.id
+      JOIN podcasts p ON e.podcast_id = p.id
+      WHERE d.is_primary = 1 AND p.is_subscribed = 1
+      ORDER BY e.pub_date DESC
+    `);
+
+    this.getLatestDocumentByEpisode = this.db.prepare(`
+      SELECT * FROM documents
+      WHERE episode_id = ?
+      ORDER BY created_at DESC
+      LIMIT 1
+    `);
+
+    this.clearPrimaryDocument = this.db.prepare(
+      "UPDATE documents SET is_primary = 0 WHERE episode_id = ?",
+    );
+
+    this.markDocumentPrimary = this.db.prepare(
+      "UPDATE documents SET is_primary = 1 WHERE id = ?",
+    );
+
+    this.updateDocumentPinned = this.db.prepare(
+      "UPDATE documents SET is_pinned = ? WHERE id = ?",
+    );
+
+    // ===== Summary Jobs =====
+
+    this.insertSummaryJob = this.db.prepare(`
+      INSERT INTO summary_jobs (id, episode_id, status, created_at, prompt_template_ids, is_auto)
+      VALUES (?, ?, 'pending', ?, ?, ?)
+    `);
+
+    this.getSummaryJobById = this.db.prepare(
+      "SELECT * FROM summary_jobs WHERE id = ?",
+    );
+
+    this.getActiveSummaryJobByEpisode = this.db.prepare(`
+      SELECT * FROM summary_jobs
+      WHERE episode_id = ? AND status IN ('pending', 'running')
+      LIMIT 1
+    `);
+
+    this.getActiveSummaryJobs = this.db.prepare(`
+      SELECT * FROM summary_jobs
+      WHERE status IN ('pending', 'running')
+      ORDER BY created_at ASC
+    `);
+
+    this.getNextPendingSummaryJob = this.db.prepare(`
+      SELECT * FROM summary_jobs
+      WHERE status = 'pending'
+      ORDER BY created_at ASC
+      LIMIT 1
+    `);
+
+    this.markSummaryJobRunning = this.db.prepare(`
+      UPDATE summary_jobs
+      SET status = 'running', started_at = ?, error = NULL
+      WHERE id = ?
+    `);
+
+    this.finishSummaryJob = this.db.prepare(`
+      UPDATE summary_jobs
+      SET status = ?, error = ?, finished_at = ?
+      WHERE id = ?
+    `);
+
+    // Jobs interrupted by a quit/crash go back to the front of the queue
+    this.requeueRunningSummaryJobs = this.db.prepare(`
+      UPDATE summary_jobs
+      SET status = 'pending', started_at = NULL
+      WHERE status = 'running'
+    `);
+
+    // Jobs held back by a usage limit keep their place in the queue
+    this.requeueSummaryJob = this.db.prepare(`
+      UPDATE summary_jobs
+      SET status = 'pending', started_at = NULL
+      WHERE id = ?
+    `);
+
+    // ===== Transcripts =====
+
+    this.upsertTranscript = this.db.prepare(`
+      INSERT INTO transcripts (episode_id, source, model, created_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(episode_id) DO UPDATE SET
+        source = excluded.source,
+        model = excluded.model,
+        created_at = excluded.created_at
+    `);
+
+    this.getTranscriptByEpisode = this.db.prepare(
+      "SELECT * FROM transcripts WHERE episode_id = ?",
+    );
+
+    this.deleteTranscript = this.db.prepare(
+      "DELETE FROM transcripts WHERE episode_id = ?",
+    );
+
+    this.insertTranscriptSegment = this.db.prepare(`
+      INSERT INTO transcript_segments (episode_id, seq, start_time, end_time, speaker, text)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    this.getTranscriptSegments = this.db.prepare(`
+      SELECT start_time as start, end_time as end, speaker, text
+      FROM transcript_segments
+      WHERE episode_id = ?
+      ORDER BY seq ASC
+    `);
+
+    this.deleteTranscriptSegments = this.db.prepare(
+      "DELETE FROM transcript_segments WHERE episode_id = ?",
+    );
+
+    // ===== Chat =====
+
+    this.insertChatMessage = this.db.prepare(`
+      INSERT INTO chat_messages (id, episode_id, role, content, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    // rowid breaks ties between messages saved in the same millisecond
+    this.getChatMessagesByEpisode = this.db.prepare(`
+      SELECT id, episode_id, role, content, created_at FROM chat_messages
+      WHERE episode_id = ?
+      ORDER BY created_at ASC, rowid ASC
+    `);
+
+    this.deleteChatMessagesByEpisode = this.db.prepare(
+      "DELETE FROM chat_messages WHERE episode_id = ?",
+    );
+
+    // ===== Search =====
+    // Each index has a MATCH statement (ranked by bm25, with FTS snippets)
+    // and a LIKE fallback for terms shorter than a trigram, ordered by date.
+    // Named parameters: @query / @pattern, @podcastId, @from, @to, @limit
+    // (@pattern escapes % and _ with a backslash)
+
+    const searchFilters = `
+      p.is_subscribed = 1
+      AND (@podcastId IS NULL OR p.id = @podcastId)
+      AND (@from IS NULL OR e.pub_date >= @from)
+      AND (@to IS NULL OR e.pub_date < @to)
+    `;
+    const episodeColumns = `
+      e.id as episode_id, e.title as episode_title, e.pub_date as episode_pub_date,
+      p.id as podcast_id, p.title as podcast_title
+    `;
+
+    // Only the primary version of each summary is searched
+    this.searchDocuments = this.db.prepare(`
+      SELECT d.id as document_id, NULL as start_time, ${episodeColumns},
+             snippet(documents_fts, 1, char(2), char(3), '…', 48) as snippet,
+             bm25(documents_fts) as rank
+      FROM documents_fts
+      JOIN documents d ON d.id = documents_fts.document_id
+      JOIN episodes e ON e.id = d.episode_id
+      JOIN podcasts p ON p.id = e.podcast_id
+      WHERE documents_fts MATCH @query AND d.is_primary = 1 AND ${searchFilters}
+      ORDER BY rank
+      LIMIT @limit
+    `);
+
+    this.searchDocumentsLike = this.db.prepare(`
+      SELECT d.id as document_id, NULL as start_time, ${episodeColumns},
+             d.content as text
+      FROM documents_fts
+      JOIN documents d ON d.id = documents_fts.document_id
+      JOIN episodes e ON e.id = d.episode_id
+      JOIN podcasts p ON p.id = e.podcast_id
+      WHERE documents_fts.content LIKE @pattern ESCAPE '\\' AND d.is_primary = 1 AND ${searchFilters}
+      ORDER BY e.pub_date DESC
+      LIMIT @limit
+    `);
+
+    this.searchEpisodes = this.db.prepare(`
+      SELECT NULL as document_id, NULL as start_time, ${episodeColumns},
+             highlight(episodes_fts, 1, char(2), char(3)) as snippet,
+             bm25(episodes_fts) as rank
+      FROM episodes_fts
+      JOIN episodes e ON e.id = episodes_fts.episode_id
+      JOIN podcasts p ON p.id = e.podcast_id
+      WHERE episodes_fts MATCH @query AND ${searchFilters}
+      ORDER BY rank
+      LIMIT @limit
+    `);
+
+    this.searchEpisodesLike = this.db.prepare(`
+      SELECT NULL as document_id, NULL as start_time, ${episodeColumns},
+             e.title as text
+      FROM episodes_fts
+      JOIN episodes e ON e.id = episodes_fts.episode_id
+      JOIN podcasts p ON p.id = e.podcast_id
+      WHERE episodes_fts.title LIKE @pattern ESCAPE '\\' AND ${searchFilters}
+      ORDER BY e.pub_date DESC
+      LIMIT @limit
+    `);
+
+    this.searchTranscripts = this.db.prepare(`
+      SELECT NULL as document_id, s.start_time, ${episodeColumns},
+             snippet(transcripts_fts, 1, char(2), char(3), '…', 48) as snippet,
+             bm25(transcripts_fts) as rank
+      FROM transcripts_fts
+      JOIN transcript_segments s ON s.id = transcripts_fts.rowid
+      JOIN episodes e ON e.id = s.episode_id
+      JOIN podcasts p ON p.id = e.podcast_id
+      WHERE transcripts_fts MATCH @query AND ${searchFilters}
+      ORDER BY rank
+      LIMIT @limit
+    `);
+
+    this.searchTranscriptsLike = this.db.prepare(`
+      SELECT NULL as document_id, s.start_time, ${episodeColumns},
+             s.text as text
+      FROM transcripts_fts
+      JOIN transcript_segments s ON s.id = transcripts_fts.rowid
+      JOIN episodes e ON e.id = s.episode_id
+      JOIN podcasts p ON p.id = e.podcast_id
+      WHERE transcripts_fts.text LIKE @pattern ESCAPE '\\' AND ${searchFilters}
+      ORDER BY e.pub_date DESC, s.seq ASC
+      LIMIT @limit
+    `);
+
+    // ===== Embeddings =====
+    // model = "<provider>:<embedding model>"; vectors from different models
+    // are never compared
+
+    this.insertEmbedding = this.db.prepare(`
+      INSERT INTO embeddings (episode_id, document_id, source, chunk_index, start_time, text, model, vector, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.deleteEmbeddingsBySource = this.db.prepare(
+      "DELETE FROM embeddings WHERE episode_id = ? AND source = ?",
+    );
+
+    this.hasDocumentEmbedding = this.db.prepare(
+      "SELECT 1 FROM embeddings WHERE document_id = ? AND model = ? LIMIT 1",
+    );
+
+    this.hasTranscriptEmbeddings = this.db.prepare(`
+      SELECT 1 FROM embeddings
+      WHERE episode_id = ? AND source = 'transcript' AND model = ?
+      LIMIT 1
+    `);
+
+    // Episodes whose primary summary or transcript is not embedded with @model
+    this.getEpisodesNeedingEmbeddings = this.db.prepare(`
+      SELECT e.id FROM episodes e
+      JOIN podcasts p ON p.id = e.podcast_id
+      WHERE p.is_subscribed = 1 AND (
+        EXISTS (
+          SELECT 1 FROM documents d
+          WHERE d.episode_id = e.id AND d.is_primary = 1
+            AND NOT EXISTS (
+              SELECT 1 FROM embeddings m WHERE m.document_id = d.id AND m.model = @model
+            )
+        )
+        OR (
+          EXISTS (SELECT 1 FROM transcripts t WHERE t.episode_id = e.id)
+          AND NOT EXISTS (
+            SELECT 1 FROM embeddings m
+            WHERE m.episode_id = e.id AND m.source = 'transcript' AND m.model = @model
+          )
+        )
+      )
+      ORDER BY e.pub_date DESC
+    `);
+
+    // Chunks for semantic search, same filters as full-text search
+    this.getSearchableEmbeddings = this.db.prepare(`
+      SELECT m.source, m.document_id, m.start_time, m.text, m.vector, ${episodeColumns}
+      FROM embeddings m
+      JOIN episodes e ON e.id = m.episode_id
+      JOIN podcasts p ON p.id = e.podcast_id
+      LEFT JOIN documents d ON d.id = m.document_id
+      WHERE m.model = @model
+        AND (m.document_id IS NULL OR d.is_primary = 1)
+        AND ${searchFilters}
+    `);
+
+    // Primary summary chunks of every subscribed episode (related episodes)
+    this.getSummaryEmbeddings = this.db.prepare(`
+      SELECT m.vector, ${episodeColumns}
+      FROM embeddings m
+      JOIN documents d ON d.id = m.document_id
+      JOIN episodes e ON e.id = m.episode_id
+      JOIN podcasts p ON p.id = e.podcast_id
+      WHERE m.model = ? AND m.source = 'summary' AND d.is_primary = 1
+        AND p.is_subscribed = 1
+    `);
+
+    // ===== Feed Fetch Log =====
+
+    this.insertFeedFetch = this.db.prepare(`
+      INSERT INTO feed_fetch_log (id, podcast_id, fetched_at, status, bytes, duration_ms, error)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    // Keep only the latest N fetches of a podcast
+    this.pruneFeedFetchLog = this.db.prepare(`
+      DELETE FROM feed_fetch_log
+      WHERE podcast_id = @podcastId AND id NOT IN (
+        SELECT id FROM feed_fetch_log
+        WHERE podcast_id = @podcastId
+        ORDER BY fetched_at DESC
+        LIMIT @keep
+      )
+    `);
+
+    this.getFeedFetchLog = this.db.prepare(`
+      SELECT * FROM feed_fetch_log
+      WHERE podcast_id = ?
+      ORDER BY fetched_at DESC
+    `);
+
+    // ===== Summary Usage =====
+
+    this.insertSummaryUsage = this.db.prepare(`
+      INSERT INTO summary_usage (
+        id, document_id, episode_id, provider, model, input_tokens,
+        output_tokens, audio_seconds, estimated_cost, is_failed, created_at
+      )
+      VALUES (
+        @id, @document_id, @episode_id, @provider, @model, @input_tokens,
+        @output_tokens, @audio_seconds, @estimated_cost, @is_failed, @created_at
+      )
+    `);
+
+    // Measured against UsageLimit (see UsageLimitMetric)
+    this.getUsageSince = this.db.prepare(`
+      SELECT
+        COALESCE(SUM(input_tokens + output_tokens), 0) AS tokens,
+        COALESCE(SUM(audio_seconds), 0) / 3600.0 AS audioHours,
+        COALESCE(SUM(estimated_cost), 0) AS cost
+      FROM summary_usage
+      WHERE created_at >= ?
+    `);
+
+    // ===== Prompt Templates =====
+
+    // Built-in template first, then by name
+    this.getPromptTemplates = this.db.prepare(`
+      SELECT * FROM prompt_templates
+      ORDER BY is_builtin DESC, name COLLATE NOCASE ASC
+    `);
+
+    this.getPromptTemplateById = this.db.prepare(
+      "SELECT * FROM prompt_templates WHERE id = ?",
+    );
+
+    this.insertPromptTemplate = this.db.prepare(`
+      INSERT INTO prompt_templates (id, name, content, is_builtin, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        content = excluded.content,
+        updated_at = excluded.updated_at
+      -- Only the built-in template is re-seeded, and only when its text changed
+      WHERE prompt_templates.is_builtin = 1
+        AND prompt_templates.content != excluded.content
+    `);
+
+    this.updatePromptTemplate = this.db.prepare(`
+      UPDATE prompt_templates SET name = ?, content = ?, updated_at = ?
+      WHERE id = ? AND is_builtin = 0
+    `);
+
+    this.deletePromptTemplate = this.db.prepare(
+      "DELETE FROM prompt_templates WHERE id = ? AND is_builtin = 0",
+    );
+
+    // ===== Settings =====
+
+    this.getSetting = this.db.prepare(
+      "SELECT value FROM settings WHERE key = ?",
+    );
+
+    this.setSetting = this.db.prepare(`
+      INSERT INTO settings (key, value) VALUES (?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value
+    `);
   }
 
   // ===== Utility Methods =====
@@ -249,6 +1265,56 @@ export class DatabaseManager {
       episodes: episodeCount.count,
       documents: documentCount.count,
       downloaded: downloadedCount.count,
+      usage: this.getUsageStats(),
     };
   }
+
+  /**
+   * Summary usage totals, per day, per podcast and per model
+   */
+  private getUsageStats(): UsageStats {
+    const totals = this.db
+      .prepare(`SELECT ${USAGE_TOTALS_SQL} FROM summary_usage u`)
+      .get() as UsageTotals;
+
+    const since = new Date();
+    since.setUTCDate(since.getUTCDate() - (USAGE_DAYS - 1));
+    const byDay = this.db
+      .prepare(
+        `
+        SELECT substr(u.created_at, 1, 10) AS day, ${USAGE_TOTALS_SQL}
+        FROM summary_usage u
+        WHERE u.created_at >= ?
+        GROUP BY day
+        ORDER BY day DESC
+      `,
+      )
+      .all(since.toISOString().slice(0, 10)) as UsageStats["byDay"];
+
+    const byPodcast = this.db
+      .prepare(
+        `
+        SELECT p.id AS podcast_id, p.title AS podcast_title, ${USAGE_TOTALS_SQL}
+        FROM summary_usage u
+        JOIN episodes e ON e.id = u.episode_id
+        JOIN podcasts p ON p.id = e.podcast_id
+        GROUP BY p.id
+        ORDER BY estimated_cost DESC, summaries DESC
+      `,
+      )
+      .all() as UsageStats["byPodcast"];
+
+    const byModel = this.db
+      .prepare(
+        `
+        SELECT u.provider, u.model, ${USAGE_TOTALS_SQL}
+        FROM summary_usage u
+        GROUP BY u.provider, u.model
+        ORDER BY estimated_cost DESC, summaries DESC
+      `,
+      )
+      .all() as UsageStats["byModel"];
+
+    return { totals, byDay, byPodcast, byModel };
+  }
 }
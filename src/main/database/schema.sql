@@ -14,7 +14,21 @@ CREATE TABLE IF NOT EXISTS podcasts (
     feed_url TEXT NOT NULL UNIQUE,
     artwork_url TEXT,
     custom_prompt TEXT,
-    last_fetched_at TEXT
+    last_fetched_at TEXT,
+    ai_provider TEXT, -- gemini | openai | fake; NULL = global setting
+    ai_model TEXT, -- NULL = provider default / global model
+    prompt_template_id TEXT, -- NULL = built-in default template
+    summary_language TEXT, -- NULL = global summary language
+    auto_summarize INTEGER NOT NULL DEFAULT 0, -- 1 = queue a summary for new episodes that pass the filters below
+    auto_summarize_min_minutes INTEGER, -- only episodes at least this long; NULL = any length
+    auto_summarize_title_pattern TEXT, -- only titles containing this text (case-insensitive); NULL = any title
+    auto_summarize_title_regex INTEGER NOT NULL DEFAULT 0, -- 1 = the title pattern is a regex
+    refresh_interval_minutes INTEGER, -- scheduled refresh; NULL = global interval, 0 = never
+    last_sync_error TEXT, -- message of the last failed sync (last success is last_fetched_at)
+    last_sync_error_at TEXT,
+    feed_etag TEXT, -- ETag of the last full fetch, sent as If-None-Match
+    feed_last_modified TEXT, -- Last-Modified of the last full fetch, sent as If-Modified-Since
+    FOREIGN KEY(prompt_template_id) REFERENCES prompt_templates(id) ON DELETE SET NULL
 );
 
 -- Episodes table
@@ -27,6 +41,21 @@ CREATE TABLE IF NOT EXISTS episodes (
     audio_url TEXT NOT NULL,
     is_downloaded BOOLEAN DEFAULT 0,
     local_file_path TEXT,
+    is_new INTEGER NOT NULL DEFAULT 0, -- found by a sync, not yet viewed
+    transcript_url TEXT, -- <podcast:transcript> (publisher transcript)
+    transcript_type TEXT, -- its MIME type
+    chapters_url TEXT, -- <podcast:chapters> (JSON chapters file)
+    chapters TEXT, -- JSON, cached from chapters_url
+    persons TEXT, -- JSON, <podcast:person> tags
+    description TEXT, -- short show notes (<description> / <itunes:summary>), may contain HTML
+    content_html TEXT, -- full show notes (<content:encoded>), HTML
+    season INTEGER, -- <itunes:season>
+    episode_number INTEGER, -- <itunes:episode>
+    episode_type TEXT, -- <itunes:episodeType>: full, trailer or bonus
+    is_explicit INTEGER, -- <itunes:explicit>: 1 / 0; NULL = not stated
+    artwork_url TEXT, -- per-episode <itunes:image>
+    enclosure_length INTEGER, -- enclosure size in bytes, as stated by the feed
+    enclosure_type TEXT, -- enclosure MIME type
     FOREIGN KEY(podcast_id) REFERENCES podcasts(id) ON DELETE CASCADE
 );
 
@@ -37,11 +66,154 @@ CREATE TABLE IF NOT EXISTS documents (
     content TEXT NOT NULL,
     created_at TEXT NOT NULL,
     used_prompt TEXT,
+    is_primary INTEGER NOT NULL DEFAULT 0, -- version shown by default (one per episode)
+    is_pinned INTEGER NOT NULL DEFAULT 0, -- pinned versions stay primary and cannot be deleted
+    language TEXT, -- language a translated version was written in; NULL = generated summary
+    structured TEXT, -- StructuredSummary JSON in structured mode; content holds its Markdown rendering
+    label TEXT, -- name of the prompt template (lens) that produced it; NULL = podcast's prompt
     FOREIGN KEY(episode_id) REFERENCES episodes(id) ON DELETE CASCADE
 );
 
+-- Summary jobs table (persistent background summary queue)
+CREATE TABLE IF NOT EXISTS summary_jobs (
+    id TEXT PRIMARY KEY,
+    episode_id TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending', -- pending | running | completed | failed | cancelled
+    error TEXT,
+    created_at TEXT NOT NULL,
+    started_at TEXT,
+    finished_at TEXT,
+    prompt_template_id TEXT, -- superseded by prompt_template_ids (copied there on upgrade); no longer read
+    prompt_template_ids TEXT, -- JSON array of templates picked for this run; NULL or [] = podcast's template
+    is_auto INTEGER NOT NULL DEFAULT 0, -- 1 = queued by the podcast's auto-summarize rule
+    FOREIGN KEY(episode_id) REFERENCES episodes(id) ON DELETE CASCADE,
+    FOREIGN KEY(prompt_template_id) REFERENCES prompt_templates(id) ON DELETE SET NULL
+);
+
+-- Transcripts table (one per episode; segments below)
+CREATE TABLE IF NOT EXISTS transcripts (
+    episode_id TEXT PRIMARY KEY,
+    source TEXT NOT NULL, -- provider that produced it: gemini | openai | fake
+    model TEXT,
+    created_at TEXT NOT NULL,
+    FOREIGN KEY(episode_id) REFERENCES episodes(id) ON DELETE CASCADE
+);
+
+-- Transcript segments (timestamped text, optional speaker label)
+CREATE TABLE IF NOT EXISTS transcript_segments (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    episode_id TEXT NOT NULL,
+    seq INTEGER NOT NULL, -- order within the transcript
+    start_time REAL NOT NULL, -- seconds
+    end_time REAL NOT NULL, -- seconds
+    speaker TEXT,
+    text TEXT NOT NULL,
+    FOREIGN KEY(episode_id) REFERENCES transcripts(episode_id) ON DELETE CASCADE
+);
+
+-- Chat messages table (per-episode Q&A history)
+CREATE TABLE IF NOT EXISTS chat_messages (
+    id TEXT PRIMARY KEY,
+    episode_id TEXT NOT NULL,
+    role TEXT NOT NULL, -- user | assistant
+    content TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    FOREIGN KEY(episode_id) REFERENCES episodes(id) ON DELETE CASCADE
+);
+
+-- Embeddings table (vectors of summary / transcript chunks for semantic search)
+CREATE TABLE IF NOT EXISTS embeddings (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    episode_id TEXT NOT NULL,
+    document_id TEXT, -- set for summary chunks
+    source TEXT NOT NULL, -- summary | transcript
+    chunk_index INTEGER NOT NULL,
+    start_time REAL, -- seconds, transcript chunks only
+    text TEXT NOT NULL,
+    model TEXT NOT NULL, -- provider:embedding model
+    vector BLOB NOT NULL, -- normalized Float32Array
+    created_at TEXT NOT NULL,
+    FOREIGN KEY(episode_id) REFERENCES episodes(id) ON DELETE CASCADE,
+    FOREIGN KEY(document_id) REFERENCES documents(id) ON DELETE CASCADE
+);
+
+-- Summary usage table (tokens, audio and estimated cost per generated summary)
+CREATE TABLE IF NOT EXISTS summary_usage (
+    id TEXT PRIMARY KEY,
+    document_id TEXT, -- kept (set to NULL) when the version is deleted
+    episode_id TEXT NOT NULL,
+    provider TEXT NOT NULL, -- gemini | openai | fake
+    model TEXT NOT NULL,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    audio_seconds REAL, -- NULL when summarized from a stored transcript
+    estimated_cost REAL, -- USD, NULL if the model's price is unknown
+    is_failed INTEGER NOT NULL DEFAULT 0, -- 1 = spent by a run that failed or was cancelled (no document)
+    created_at TEXT NOT NULL,
+    FOREIGN KEY(episode_id) REFERENCES episodes(id) ON DELETE CASCADE,
+    FOREIGN KEY(document_id) REFERENCES documents(id) ON DELETE SET NULL
+);
+
+-- Prompt templates table (named summary prompts with {{variables}})
+CREATE TABLE IF NOT EXISTS prompt_templates (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    content TEXT NOT NULL,
+    is_builtin INTEGER NOT NULL DEFAULT 0, -- 1 = shipped default, read-only
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+-- Feed fetch log (latest HTTP requests per feed)
+CREATE TABLE IF NOT EXISTS feed_fetch_log (
+    id TEXT PRIMARY KEY,
+    podcast_id TEXT NOT NULL,
+    fetched_at TEXT NOT NULL,
+    status INTEGER, -- HTTP status; NULL = no response
+    bytes INTEGER NOT NULL DEFAULT 0, -- response body size; 0 for 304 Not Modified
+    duration_ms INTEGER NOT NULL,
+    error TEXT,
+    FOREIGN KEY(podcast_id) REFERENCES podcasts(id) ON DELETE CASCADE
+);
+
+-- Settings table (key/value application preferences)
+CREATE TABLE IF NOT EXISTS settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+);
+
+-- Full-text search indexes (FTS5, trigram tokenizer), kept in sync by
+-- AFTER INSERT / UPDATE / DELETE triggers on the source tables
+CREATE VIRTUAL TABLE IF NOT EXISTS documents_fts USING fts5(
+    document_id UNINDEXED,
+    content,
+    tokenize = 'trigram'
+);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS episodes_fts USING fts5(
+    episode_id UNINDEXED,
+    title,
+    tokenize = 'trigram'
+);
+
+-- rowid = transcript_segments.id
+CREATE VIRTUAL TABLE IF NOT EXISTS transcripts_fts USING fts5(
+    episode_id UNINDEXED,
+    text,
+    tokenize = 'trigram'
+);
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_episodes_podcast_id ON episodes(podcast_id);
 CREATE INDEX IF NOT EXISTS idx_episodes_pub_date ON episodes(pub_date DESC);
 CREATE INDEX IF NOT EXISTS idx_documents_episode_id ON documents(episode_id);
 CREATE INDEX IF NOT EXISTS idx_documents_created_at ON documents(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_summary_jobs_status ON summary_jobs(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_summary_jobs_episode_id ON summary_jobs(episode_id);
+CREATE INDEX IF NOT EXISTS idx_transcript_segments_episode ON transcript_segments(episode_id, seq);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_episode ON chat_messages(episode_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_embeddings_model_episode ON embeddings(model, episode_id, source);
+CREATE INDEX IF NOT EXISTS idx_embeddings_document ON embeddings(document_id);
+CREATE INDEX IF NOT EXISTS idx_summary_usage_created_at ON summary_usage(created_at);
+CREATE INDEX IF NOT EXISTS idx_summary_usage_document ON summary_usage(document_id);
+CREATE INDEX IF NOT EXISTS idx_feed_fetch_log_podcast ON feed_fetch_log(podcast_id, fetched_at DESC);
@@ -1,4 +1,4 @@
-import { app, BrowserWindow, nativeImage } from "electron";
+import { app, BrowserWindow, nativeImage, shell } from "electron";
 import path from "path";
 import fs from "fs";
 import os from "os";
@@ -7,9 +7,22 @@ import { PodcastService } from "./services/PodcastService.js";
 import { AudioService } from "./services/AudioService.js";
 import { GeminiService } from "./services/GeminiService.js";
 import { ConfigService } from "./services/ConfigService.js";
+import { DocumentService } from "./services/DocumentService.js";
+import { TranscriptService } from "./services/TranscriptService.js";
+import { ChatService } from "./services/ChatService.js";
+import { LibraryQAService } from "./services/LibraryQAService.js";
+import { SearchService } from "./services/SearchService.js";
+import { EmbeddingService } from "./services/EmbeddingService.js";
+import { PromptTemplateService } from "./services/PromptTemplateService.js";
+import { SummaryQueueService } from "./services/SummaryQueueService.js";
+import { AutoSummarizeService } from "./services/AutoSummarizeService.js";
+import { FeedRefreshService } from "./services/FeedRefreshService.js";
 import { registerHandlers } from "./ipc/handlers.js";
+import type { IPCEvent } from "../shared/types.js";
 
 let mainWindow: BrowserWindow | null = null;
+// Stopped on quit, so no scheduled refresh starts during shutdown
+let feedRefreshService: FeedRefreshService | null = null;
 
 /**
  * Create the main application window
@@ -37,6 +50,18 @@ function createWindow() {
     mainWindow?.show();
   });
 
+  // Links (many from feeds) open in the default browser. A child window
+  // or a navigation would load the page with the preload and window.api.
+  mainWindow.webContents.setWindowOpenHandler(({ url }) => {
+    openExternalUrl(url);
+    return { action: "deny" };
+  });
+  mainWindow.webContents.on("will-navigate", (event, url) => {
+    if (isAppUrl(url)) return;
+    event.preventDefault();
+    openExternalUrl(url);
+  });
+
   // Load the renderer
   if (process.env.NODE_ENV === "development") {
     mainWindow.loadURL("http://localhost:5173");
@@ -50,6 +75,32 @@ function createWindow() {
   });
 }
 
+/**
+ * Whether a URL is the renderer itself (dev server or bundled files)
+ */
+function isAppUrl(url: string): boolean {
+  return process.env.NODE_ENV === "development"
+    ? url.startsWith("http://localhost:5173")
+    : url.startsWith("file://");
+}
+
+/**
+ * Open a link in the default browser; anything but http(s) is ignored
+ */
+function openExternalUrl(url: string) {
+  let protocol: string;
+  try {
+    protocol = new URL(url).protocol;
+  } catch {
+    return;
+  }
+  if (protocol === "http:" || protocol === "https:") {
+    void shell.openExternal(url);
+  } else {
+    console.warn(`Blocked opening a ${protocol} link`);
+  }
+}
+
 /**
  * Flow D: Startup Self-Healing
  *
@@ -84,6 +135,18 @@ function cleanupTempFiles() {
   }
 }
 
+/**
+ * Send a background event to every renderer window
+ *
+ * Used by services that emit events outside of an IPC request (e.g. the
+ * summary queue), where there is no event.sender to reply to.
+ */
+function broadcast(event: IPCEvent) {
+  BrowserWindow.getAllWindows().forEach((win) => {
+    win.webContents.send(event.type, event);
+  });
+}
+
 /**
  * Initialize services and register IPC handlers
  */
@@ -100,17 +163,50 @@ function initializeServices() {
     const audioService = new AudioService(db, app.getPath("userData"));
     const podcastService = new PodcastService(db);
     const configService = new ConfigService(db, app.getPath("userData"));
+    const documentService = new DocumentService(db);
+    const transcriptService = new TranscriptService(db);
+    const promptTemplateService = new PromptTemplateService(db, configService);
+    const embeddingService = new EmbeddingService(
+      db,
+      configService,
+      transcriptService,
+    );
 
-    // Get Gemini API key: prefer .env file (managed by ConfigService), fallback to process.env
-    const geminiApiKey =
-      configService.getApiKey() || process.env.GEMINI_API_KEY || "";
-    if (!geminiApiKey) {
+    if (!configService.getAiSettings().isConfigured) {
       console.warn(
-        "WARNING: GEMINI_API_KEY not set. AI summary functionality will not work.",
+        "WARNING: AI provider not configured. AI summary functionality will not work.",
       );
     }
 
-    const geminiService = new GeminiService(db, audioService, geminiApiKey);
+    const geminiService = new GeminiService(
+      db,
+      audioService,
+      documentService,
+      configService,
+      transcriptService,
+      embeddingService,
+      promptTemplateService,
+    );
+    const chatService = new ChatService(db, configService, transcriptService);
+    const libraryQAService = new LibraryQAService(
+      db,
+      configService,
+      transcriptService,
+    );
+    const searchService = new SearchService(db, embeddingService);
+    const summaryQueue = new SummaryQueueService(
+      db,
+      geminiService,
+      configService,
+      broadcast,
+    );
+    const autoSummarize = new AutoSummarizeService(db, summaryQueue);
+    const feedRefresh = new FeedRefreshService(
+      podcastService,
+      autoSummarize,
+      configService,
+      broadcast,
+    );
 
     // Register IPC handlers
     registerHandlers({
@@ -118,8 +214,28 @@ function initializeServices() {
       audio: audioService,
       gemini: geminiService,
       config: configService,
+      documents: documentService,
+      transcripts: transcriptService,
+      chat: chatService,
+      libraryQA: libraryQAService,
+      search: searchService,
+      embeddings: embeddingService,
+      prompts: promptTemplateService,
+      summaryQueue,
+      autoSummarize,
+      feedRefresh,
     });
 
+    // Resume summary jobs left over from the previous session
+    summaryQueue.start();
+
+    // Re-sync subscribed feeds in the background on their interval
+    feedRefresh.start();
+    feedRefreshService = feedRefresh;
+
+    // Embed summaries / transcripts saved before semantic search existed
+    void embeddingService.indexPending();
+
     console.log("Services initialized successfully");
 
     // Log database stats
@@ -174,6 +290,7 @@ app.on("activate", () => {
  */
 app.on("before-quit", () => {
   console.log("App quitting...");
+  feedRefreshService?.stop();
 });
 
 /**
@@ -3,6 +3,17 @@ import { PodcastService } from "../services/PodcastService.js";
 import { AudioService } from "../services/AudioService.js";
 import { GeminiService } from "../services/GeminiService.js";
 import { ConfigService } from "../services/ConfigService.js";
+import { SummaryQueueService } from "../services/SummaryQueueService.js";
+import { AutoSummarizeService } from "../services/AutoSummarizeService.js";
+import { FeedRefreshService } from "../services/FeedRefreshService.js";
+import { DocumentService } from "../services/DocumentService.js";
+import { TranscriptService } from "../services/TranscriptService.js";
+import { ChatService } from "../services/ChatService.js";
+import { LibraryQAService } from "../services/LibraryQAService.js";
+import { SearchService } from "../services/SearchService.js";
+import { EmbeddingService } from "../services/EmbeddingService.js";
+import { PromptTemplateService } from "../services/PromptTemplateService.js";
+import type { PromptTemplateInput } from "../services/PromptTemplateService.js";
 import type {
   IPCResponse,
   Podcast,
@@ -10,6 +21,24 @@ import type {
   Document,
   PodcastSearchResult,
   DbStats,
+  SummaryJob,
+  AIProviderId,
+  AIProviderSettings,
+  AISettings,
+  Transcript,
+  EpisodeChatMessage,
+  LibraryAnswer,
+  SearchFilters,
+  SearchResult,
+  RelatedEpisode,
+  UsageLimits,
+  PromptTemplate,
+  SummaryFormat,
+  AutoSummarizeRule,
+  FeedRefreshSettings,
+  FeedSyncResult,
+  FeedFetchLogEntry,
+  EpisodeChapter,
 } from "../../shared/types.js";
 
 /**
@@ -20,6 +49,16 @@ export interface Services {
   audio: AudioService;
   gemini: GeminiService;
   config: ConfigService;
+  documents: DocumentService;
+  transcripts: TranscriptService;
+  chat: ChatService;
+  libraryQA: LibraryQAService;
+  search: SearchService;
+  embeddings: EmbeddingService;
+  prompts: PromptTemplateService;
+  summaryQueue: SummaryQueueService;
+  autoSummarize: AutoSummarizeService;
+  feedRefresh: FeedRefreshService;
 }
 
 /**
@@ -63,18 +102,48 @@ export function registerHandlers(services: Services) {
     }),
   );
 
+  ipcMain.handle(
+    "get_episode_chapters",
+    wrapHandler<EpisodeChapter[]>(
+      "get_episode_chapters",
+      async (_, episodeId: string) => {
+        return services.podcast.getChapters(episodeId);
+      },
+    ),
+  );
+
+  ipcMain.handle(
+    "mark_episode_seen",
+    wrapHandler<void>("mark_episode_seen", (_, episodeId: string) => {
+      services.podcast.markEpisodeSeen(episodeId);
+    }),
+  );
+
+  ipcMain.handle(
+    "mark_podcast_seen",
+    wrapHandler<void>("mark_podcast_seen", (_, podcastId: string) => {
+      services.podcast.markPodcastSeen(podcastId);
+    }),
+  );
+
   ipcMain.handle(
     "subscribe_podcast",
-    wrapHandler<{ podcastId: string; newCount: number }>(
+    wrapHandler<FeedSyncResult>(
       "subscribe_podcast",
       async (event, url: string, artworkUrl?: string) => {
         const result = await services.podcast.syncPodcast(url, artworkUrl);
+        services.autoSummarize.handleNewEpisodes(
+          result.podcastId,
+          result.added,
+        );
 
         // Emit event for UI update
         event.sender.send("feed_synced", {
           type: "feed_synced",
           podcastId: result.podcastId,
           newCount: result.newCount,
+          updatedCount: result.updated.length,
+          removedCount: result.removed.length,
         });
 
         return result;
@@ -123,6 +192,95 @@ export function registerHandlers(services: Services) {
     ),
   );
 
+  ipcMain.handle(
+    "update_podcast_prompt_template",
+    wrapHandler<void>(
+      "update_podcast_prompt_template",
+      (_, podcastId: string, templateId: string | null) => {
+        services.prompts.setPodcastTemplate(podcastId, templateId);
+      },
+    ),
+  );
+
+  ipcMain.handle(
+    "update_podcast_auto_summarize",
+    wrapHandler<void>(
+      "update_podcast_auto_summarize",
+      (_, podcastId: string, rule: AutoSummarizeRule) => {
+        services.podcast.updateAutoSummarize(podcastId, rule);
+      },
+    ),
+  );
+
+  ipcMain.handle(
+    "update_podcast_refresh_interval",
+    wrapHandler<void>(
+      "update_podcast_refresh_interval",
+      (_, podcastId: string, minutes: number | null) => {
+        services.podcast.updateRefreshInterval(podcastId, minutes);
+      },
+    ),
+  );
+
+  ipcMain.handle(
+    "get_feed_fetch_log",
+    wrapHandler<FeedFetchLogEntry[]>(
+      "get_feed_fetch_log",
+      (_, podcastId: string) => {
+        return services.podcast.getFetchLog(podcastId);
+      },
+    ),
+  );
+
+  ipcMain.handle(
+    "update_podcast_summary_language",
+    wrapHandler<void>(
+      "update_podcast_summary_language",
+      (_, podcastId: string, language: string | null) => {
+        services.podcast.updateSummaryLanguage(podcastId, language);
+      },
+    ),
+  );
+
+  ipcMain.handle(
+    "get_prompt_templates",
+    wrapHandler<PromptTemplate[]>("get_prompt_templates", () => {
+      return services.prompts.getTemplates();
+    }),
+  );
+
+  ipcMain.handle(
+    "save_prompt_template",
+    wrapHandler<PromptTemplate>(
+      "save_prompt_template",
+      (_, template: PromptTemplateInput) => {
+        return services.prompts.saveTemplate(template);
+      },
+    ),
+  );
+
+  ipcMain.handle(
+    "delete_prompt_template",
+    wrapHandler<void>("delete_prompt_template", (_, templateId: string) => {
+      services.prompts.deleteTemplate(templateId);
+    }),
+  );
+
+  ipcMain.handle(
+    "update_podcast_ai_provider",
+    wrapHandler<void>(
+      "update_podcast_ai_provider",
+      (
+        _,
+        podcastId: string,
+        provider: AIProviderId | null,
+        model: string | null,
+      ) => {
+        services.podcast.updateAiProvider(podcastId, provider, model);
+      },
+    ),
+  );
+
   ipcMain.handle(
     "delete_podcast",
     wrapHandler<void>(
@@ -141,32 +299,116 @@ export function registerHandlers(services: Services) {
 
   ipcMain.handle(
     "run_ai_summary",
-    wrapHandler<string>("run_ai_summary", async (event, episodeId: string) => {
-      // Check if already generating
-      const status = services.gemini.getGeneratingStatus();
-      if (status.isGenerating) {
-        throw new Error("ALREADY_GENERATING");
-      }
+    wrapHandler<SummaryJob>(
+      "run_ai_summary",
+      (_, episodeId: string, templateIds?: string[]) => {
+        // Progress is reported through summary_* events, not the return value
+        return services.summaryQueue.enqueue(episodeId, templateIds ?? []);
+      },
+    ),
+  );
+
+  ipcMain.handle(
+    "cancel_ai_summary",
+    wrapHandler<boolean>("cancel_ai_summary", (_, episodeId: string) => {
+      // Completion is reported through the summary_cancelled event
+      return services.summaryQueue.cancel(episodeId);
+    }),
+  );
+
+  ipcMain.handle(
+    "get_summary_jobs",
+    wrapHandler<SummaryJob[]>("get_summary_jobs", () => {
+      return services.summaryQueue.getActiveJobs();
+    }),
+  );
+
+  ipcMain.handle(
+    "get_summary_concurrency",
+    wrapHandler<number>("get_summary_concurrency", () => {
+      return services.config.getSummaryConcurrency();
+    }),
+  );
+
+  ipcMain.handle(
+    "set_summary_concurrency",
+    wrapHandler<void>(
+      "set_summary_concurrency",
+      (_, concurrency: number) => {
+        services.summaryQueue.setConcurrency(concurrency);
+      },
+    ),
+  );
+
+  ipcMain.handle(
+    "get_summary_format",
+    wrapHandler<SummaryFormat>("get_summary_format", () => {
+      return services.config.getSummaryFormat();
+    }),
+  );
+
+  ipcMain.handle(
+    "set_summary_format",
+    wrapHandler<void>("set_summary_format", (_, format: SummaryFormat) => {
+      services.config.setSummaryFormat(format);
+    }),
+  );
+
+  ipcMain.handle(
+    "get_show_notes_context",
+    wrapHandler<boolean>("get_show_notes_context", () => {
+      return services.config.getShowNotesContext();
+    }),
+  );
+
+  ipcMain.handle(
+    "set_show_notes_context",
+    wrapHandler<void>("set_show_notes_context", (_, enabled: boolean) => {
+      services.config.setShowNotesContext(enabled);
+    }),
+  );
 
-      console.log(`Starting AI summary for episode: ${episodeId}`);
-      const markdown = await services.gemini.generateSummary(episodeId);
+  ipcMain.handle(
+    "get_summary_language",
+    wrapHandler<string>("get_summary_language", () => {
+      return services.config.getSummaryLanguage();
+    }),
+  );
 
-      // Emit success event for UI update
-      event.sender.send("summary_completed", {
-        type: "summary_completed",
-        episodeId,
-      });
+  ipcMain.handle(
+    "set_summary_language",
+    wrapHandler<void>("set_summary_language", (_, language: string) => {
+      services.config.setSummaryLanguage(language);
+    }),
+  );
+
+  ipcMain.handle(
+    "get_usage_limits",
+    wrapHandler<UsageLimits>("get_usage_limits", () => {
+      return services.config.getUsageLimits();
+    }),
+  );
 
-      return markdown;
+  ipcMain.handle(
+    "set_usage_limits",
+    wrapHandler<void>("set_usage_limits", (_, limits: UsageLimits) => {
+      services.summaryQueue.setUsageLimits(limits);
     }),
   );
 
   ipcMain.handle(
-    "get_generating_status",
-    wrapHandler<{ isGenerating: boolean; episodeId: string | null }>(
-      "get_generating_status",
-      () => {
-        return services.gemini.getGeneratingStatus();
+    "get_feed_refresh_settings",
+    wrapHandler<FeedRefreshSettings>("get_feed_refresh_settings", () => {
+      return services.config.getFeedRefreshSettings();
+    }),
+  );
+
+  ipcMain.handle(
+    "set_feed_refresh_settings",
+    wrapHandler<void>(
+      "set_feed_refresh_settings",
+      (_, settings: FeedRefreshSettings) => {
+        services.config.setFeedRefreshSettings(settings);
       },
     ),
   );
@@ -174,24 +416,181 @@ export function registerHandlers(services: Services) {
   ipcMain.handle(
     "get_documents",
     wrapHandler<Document[]>("get_documents", (_, episodeId: string) => {
-      return services.gemini.getDocuments(episodeId);
+      return services.documents.getDocuments(episodeId);
     }),
   );
 
   ipcMain.handle(
     "get_documents_by_podcast",
     wrapHandler<any[]>("get_documents_by_podcast", (_, podcastId: string) => {
-      return services.gemini.getDocumentsByPodcast(podcastId);
+      return services.documents.getDocumentsByPodcast(podcastId);
     }),
   );
 
   ipcMain.handle(
     "delete_summary",
     wrapHandler<void>("delete_summary", (_, documentId: string) => {
-      services.gemini.deleteSummary(documentId);
+      services.documents.deleteSummary(documentId);
+    }),
+  );
+
+  ipcMain.handle(
+    "set_primary_document",
+    wrapHandler<void>("set_primary_document", (_, documentId: string) => {
+      services.documents.setPrimary(documentId);
+      void services.embeddings.indexPending();
+    }),
+  );
+
+  ipcMain.handle(
+    "set_document_pinned",
+    wrapHandler<void>(
+      "set_document_pinned",
+      (_, documentId: string, pinned: boolean) => {
+        services.documents.setPinned(documentId, pinned);
+      },
+    ),
+  );
+
+  ipcMain.handle(
+    "translate_summary",
+    wrapHandler<string>(
+      "translate_summary",
+      async (_, documentId: string, language: string) => {
+        return services.gemini.translateSummary(documentId, language);
+      },
+    ),
+  );
+
+  // ===== Transcript Handlers =====
+
+  ipcMain.handle(
+    "get_transcript",
+    wrapHandler<Transcript | null>("get_transcript", (_, episodeId: string) => {
+      return services.transcripts.getTranscript(episodeId);
+    }),
+  );
+
+  ipcMain.handle(
+    "delete_transcript",
+    wrapHandler<void>("delete_transcript", (_, episodeId: string) => {
+      services.transcripts.deleteTranscript(episodeId);
+    }),
+  );
+
+  ipcMain.handle(
+    "import_publisher_transcript",
+    wrapHandler<boolean>(
+      "import_publisher_transcript",
+      async (_, episodeId: string) => {
+        return services.transcripts.importPublisherTranscript(episodeId);
+      },
+    ),
+  );
+
+  // ===== Episode Chat Handlers =====
+
+  // Unanswered questions, aborted when the renderer closes the chat
+  const chatRequests = new Map<string, AbortController>();
+  let libraryRequest: AbortController | null = null;
+
+  ipcMain.handle(
+    "chat_with_episode",
+    wrapHandler<EpisodeChatMessage>(
+      "chat_with_episode",
+      async (_, episodeId: string, question: string) => {
+        chatRequests.get(episodeId)?.abort();
+        const controller = new AbortController();
+        chatRequests.set(episodeId, controller);
+        try {
+          return await services.chat.ask(
+            episodeId,
+            question,
+            controller.signal,
+          );
+        } finally {
+          if (chatRequests.get(episodeId) === controller) {
+            chatRequests.delete(episodeId);
+          }
+        }
+      },
+    ),
+  );
+
+  ipcMain.handle(
+    "cancel_episode_chat",
+    wrapHandler<boolean>("cancel_episode_chat", (_, episodeId: string) => {
+      const controller = chatRequests.get(episodeId);
+      controller?.abort();
+      return !!controller;
     }),
   );
 
+  ipcMain.handle(
+    "get_episode_chat",
+    wrapHandler<EpisodeChatMessage[]>(
+      "get_episode_chat",
+      (_, episodeId: string) => {
+        return services.chat.getMessages(episodeId);
+      },
+    ),
+  );
+
+  ipcMain.handle(
+    "clear_episode_chat",
+    wrapHandler<void>("clear_episode_chat", (_, episodeId: string) => {
+      services.chat.clearMessages(episodeId);
+    }),
+  );
+
+  ipcMain.handle(
+    "ask_library",
+    wrapHandler<LibraryAnswer>("ask_library", async (_, question: string) => {
+      libraryRequest?.abort();
+      const controller = new AbortController();
+      libraryRequest = controller;
+      try {
+        return await services.libraryQA.ask(question, controller.signal);
+      } finally {
+        if (libraryRequest === controller) {
+          libraryRequest = null;
+        }
+      }
+    }),
+  );
+
+  ipcMain.handle(
+    "cancel_library_question",
+    wrapHandler<boolean>("cancel_library_question", () => {
+      const controller = libraryRequest;
+      controller?.abort();
+      return !!controller;
+    }),
+  );
+
+  ipcMain.handle(
+    "search_library",
+    wrapHandler<SearchResult[]>(
+      "search_library",
+      async (_, query: string, filters?: SearchFilters) => {
+        if (filters?.mode === "semantic") {
+          return await services.search.searchSemantic(query, filters);
+        }
+        return services.search.search(query, filters);
+      },
+    ),
+  );
+
+  ipcMain.handle(
+    "get_related_episodes",
+    wrapHandler<RelatedEpisode[]>(
+      "get_related_episodes",
+      async (_, episodeId: string) => {
+        return services.embeddings.getRelatedEpisodes(episodeId);
+      },
+    ),
+  );
+
   // ===== Download Handlers =====
 
   ipcMain.handle(
@@ -252,28 +651,39 @@ export function registerHandlers(services: Services) {
     }),
   );
 
-  // ===== API Key Handlers =====
+  // ===== AI Provider Handlers =====
 
   ipcMain.handle(
-    "save_api_key",
-    wrapHandler<void>("save_api_key", (_, apiKey: string) => {
-      services.config.saveApiKey(apiKey);
-      services.gemini.updateApiKey(apiKey);
+    "get_ai_settings",
+    wrapHandler<AISettings>("get_ai_settings", () => {
+      return services.config.getAiSettings();
     }),
   );
 
   ipcMain.handle(
-    "get_api_key",
-    wrapHandler<string>("get_api_key", () => {
-      return services.config.getApiKey();
+    "save_ai_settings",
+    wrapHandler<void>("save_ai_settings", (_, settings: AIProviderSettings) => {
+      services.config.saveAiSettings(settings);
+      // A new provider / embedding model needs its own vectors
+      void services.embeddings.indexPending();
     }),
   );
 
+  ipcMain.handle(
+    "save_api_key",
+    wrapHandler<void>(
+      "save_api_key",
+      (_, provider: AIProviderId, apiKey: string) => {
+        services.config.saveApiKey(provider, apiKey);
+        void services.embeddings.indexPending();
+      },
+    ),
+  );
+
   ipcMain.handle(
     "remove_api_key",
-    wrapHandler<void>("remove_api_key", () => {
-      services.config.removeApiKey();
-      services.gemini.updateApiKey("");
+    wrapHandler<void>("remove_api_key", (_, provider: AIProviderId) => {
+      services.config.removeApiKey(provider);
     }),
   );
 
@@ -291,18 +701,14 @@ export function registerHandlers(services: Services) {
     "sync_all_podcasts",
     wrapHandler<{ synced: number }>(
       "sync_all_podcasts",
-      async (event) => {
+      async () => {
         const podcasts = services.podcast.getAllPodcasts();
         let synced = 0;
 
         for (const podcast of podcasts) {
           try {
-            const result = await services.podcast.syncPodcast(podcast.feed_url);
-            event.sender.send("feed_synced", {
-              type: "feed_synced",
-              podcastId: result.podcastId,
-              newCount: result.newCount,
-            });
+            // Records failures and emits feed_synced like scheduled refreshes
+            await services.feedRefresh.refreshPodcast(podcast);
             synced++;
           } catch (error) {
             console.error(
@@ -0,0 +1,134 @@
+import type { AIProviderId, TranscriptSegment } from "../../shared/types.js";
+
+/**
+ * Audio made available to a provider by prepareAudio()
+ *
+ * For remote providers this references an uploaded file that MUST be
+ * released with releaseAudio() once all calls using it are done.
+ */
+export interface AudioHandle {
+  filePath: string;
+  mimeType: string;
+  remoteName?: string; // Provider-side file name (e.g. Gemini Files API)
+  remoteUri?: string;
+}
+
+/**
+ * What a summary is generated from: the audio itself or text (a transcript)
+ */
+export type SummarySource = { audio: AudioHandle } | { text: string };
+
+/**
+ * Tokens consumed by a provider instance's calls so far
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface SummarizeOptions {
+  signal?: AbortSignal;
+  /**
+   * Streaming: called with the text generated so far (not a delta). A
+   * retried request starts over, so the text can also get shorter.
+   */
+  onPartial?: (textSoFar: string) => void;
+  /**
+   * Reply with a single JSON object matching this schema instead of
+   * Markdown (the prompt describes it too). Uses the API's structured
+   * output where there is one.
+   */
+  json?: JSONResponseSchema;
+}
+
+/**
+ * JSON Schema of a JSON reply, limited to what every provider accepts:
+ * type, properties, required, items and additionalProperties, with
+ * `["string", "null"]` for nullable values
+ */
+export interface JSONResponseSchema {
+  name: string; // Identifier for APIs that ask for one
+  schema: Record<string, any>;
+}
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * AIProvider - common interface for every AI backend
+ *
+ * Implementations: GeminiProvider, OpenAICompatibleProvider, FakeProvider.
+ * Providers are stateless apart from their credentials and usage counter
+ * and are cheap to create, so callers build one per job from the current
+ * settings (which also makes `usage` the usage of that job).
+ *
+ * Long-running calls accept an AbortSignal and reject with its reason once
+ * it is aborted (used to cancel summary jobs).
+ */
+export interface AIProvider {
+  readonly id: AIProviderId;
+  readonly model: string;
+  readonly embeddingModel: string;
+  /** Largest audio file prepareAudio accepts; longer episodes are split */
+  readonly maxAudioBytes: number;
+  /** Running total over every call made through this instance */
+  readonly usage: TokenUsage;
+
+  /** Make a local audio file usable by the model (upload, if needed) */
+  prepareAudio(
+    filePath: string,
+    displayName: string,
+    signal?: AbortSignal,
+  ): Promise<AudioHandle>;
+
+  /** Release anything prepareAudio created remotely; best-effort */
+  releaseAudio(audio: AudioHandle): Promise<void>;
+
+  /** Speech-to-text with segment timestamps */
+  transcribe(
+    audio: AudioHandle,
+    signal?: AbortSignal,
+  ): Promise<TranscriptSegment[]>;
+
+  /** Generate a Markdown summary following the given prompt */
+  summarize(
+    prompt: string,
+    source: SummarySource,
+    options?: SummarizeOptions,
+  ): Promise<string>;
+
+  /** Multi-turn chat completion; returns the assistant reply */
+  chat(messages: ChatMessage[], signal?: AbortSignal): Promise<string>;
+
+  /** One embedding vector per input text, in input order */
+  embed(texts: string[]): Promise<number[][]>;
+
+  /** Estimated USD cost of the calls so far; null if the price is unknown */
+  estimateCost(): number | null;
+}
+
+/**
+ * Format seconds as [h:]mm:ss
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mmss = `${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`;
+  return h > 0 ? `${h}:${mmss}` : mmss;
+}
+
+/**
+ * Render transcript segments as plain text, one "[mm:ss] Speaker: text" per line
+ */
+export function formatTranscript(segments: TranscriptSegment[]): string {
+  return segments
+    .map((seg) => {
+      const speaker = seg.speaker ? `${seg.speaker}: ` : "";
+      return `[${formatTimestamp(seg.start)}] ${speaker}${seg.text}`;
+    })
+    .join("\n");
+}
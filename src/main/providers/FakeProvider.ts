@@ -0,0 +1,145 @@
+import { createHash } from "crypto";
+import path from "path";
+import type { TranscriptSegment } from "../../shared/types.js";
+import type {
+  AIProvider,
+  AudioHandle,
+  ChatMessage,
+  SummarizeOptions,
+  SummarySource,
+  TokenUsage,
+} from "./AIProvider.js";
+
+const FAKE_EMBEDDING_DIMENSIONS = 256;
+// Rough characters per token, for plausible usage numbers
+const FAKE_CHARS_PER_TOKEN = 4;
+
+/**
+ * FakeProvider - deterministic offline provider
+ *
+ * Never touches the network. Output depends only on the inputs, so the
+ * whole pipeline (queue, documents, transcripts, chat) can be exercised
+ * offline and produces the same result every run.
+ */
+export class FakeProvider implements AIProvider {
+  readonly id = "fake" as const;
+  readonly maxAudioBytes = Number.POSITIVE_INFINITY;
+  readonly usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+  constructor(
+    readonly model: string = "fake-1",
+    readonly embeddingModel: string = "fake-embedding-1",
+  ) {}
+
+  async prepareAudio(
+    filePath: string,
+    _displayName: string,
+    signal?: AbortSignal,
+  ): Promise<AudioHandle> {
+    signal?.throwIfAborted();
+    return { filePath, mimeType: "audio/mpeg" };
+  }
+
+  async releaseAudio(): Promise<void> {
+    // Nothing to release
+  }
+
+  async transcribe(
+    audio: AudioHandle,
+    signal?: AbortSignal,
+  ): Promise<TranscriptSegment[]> {
+    signal?.throwIfAborted();
+    const name = path.basename(audio.filePath);
+    return [0, 1, 2].map((i) => ({
+      start: i * 30,
+      end: (i + 1) * 30,
+      speaker: i % 2 === 0 ? "Host" : "Guest",
+      text: `Fake transcript segment ${i + 1} of ${name}.`,
+    }));
+  }
+
+  async summarize(
+    prompt: string,
+    source: SummarySource,
+    options: SummarizeOptions = {},
+  ): Promise<string> {
+    options.signal?.throwIfAborted();
+    const input =
+      "audio" in source ? path.basename(source.audio.filePath) : source.text;
+
+    if (options.json) {
+      const output = JSON.stringify({
+        overview: `Fake summary (${this.model}) of ${input.length} chars`,
+        guests: [{ name: "Guest", role: null }],
+        topics: [`Topic ${digest(input)}`],
+        key_insights: [`Prompt digest: ${digest(prompt)}`],
+        action_items: ["Try the fake provider"],
+        resources: [],
+        keywords: ["fake"],
+        timestamps: [{ time: "00:30", description: "Fake segment 2" }],
+      });
+      this.addUsage(prompt + input, output);
+      return output;
+    }
+
+    const lines = [
+      "# Fake summary",
+      "",
+      `- Model: ${this.model}`,
+      `- Source: ${"audio" in source ? `audio (${input})` : `text (${input.length} chars)`}`,
+      `- Prompt digest: ${digest(prompt)}`,
+      `- Input digest: ${digest(input)}`,
+    ];
+
+    // "Stream" line by line so the live preview can be exercised offline
+    lines.forEach((_, i) =>
+      options.onPartial?.(lines.slice(0, i + 1).join("\n")),
+    );
+    const output = lines.join("\n");
+    this.addUsage(prompt + input, output);
+    return output;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(hashEmbedding);
+  }
+
+  async chat(messages: ChatMessage[]): Promise<string> {
+    const question =
+      [...messages].reverse().find((msg) => msg.role === "user")?.content ?? "";
+    const answer = `Fake answer (${digest(JSON.stringify(messages))}) to: ${question}`;
+    this.addUsage(messages.map((msg) => msg.content).join(""), answer);
+    return answer;
+  }
+
+  estimateCost(): number | null {
+    return 0; // Free
+  }
+
+  private addUsage(input: string, output: string): void {
+    this.usage.inputTokens += Math.ceil(input.length / FAKE_CHARS_PER_TOKEN);
+    this.usage.outputTokens += Math.ceil(output.length / FAKE_CHARS_PER_TOKEN);
+  }
+}
+
+/**
+ * Hashed bag-of-words vectors: texts sharing words get similar vectors,
+ * which is enough to exercise semantic search and related episodes offline
+ */
+function hashEmbedding(text: string): number[] {
+  const vector = new Array<number>(FAKE_EMBEDDING_DIMENSIONS).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+  for (const word of words) {
+    const hash = createHash("sha1").update(word).digest();
+    const index = hash.readUInt32BE(0) % FAKE_EMBEDDING_DIMENSIONS;
+    vector[index] += hash[4] % 2 === 0 ? 1 : -1;
+  }
+
+  const norm = Math.hypot(...vector) || 1;
+  return vector.map((value) => value / norm);
+}
+
+function digest(value: string): string {
+  return createHash("sha1").update(value).digest("hex").slice(0, 8);
+}
@@ -0,0 +1,432 @@
+import { GoogleGenerativeAI, SchemaType } from "@google/generative-ai";
+import { GoogleAIFileManager, FileState } from "@google/generative-ai/server";
+import type {
+  Content,
+  Part,
+  ResponseSchema,
+  UsageMetadata,
+} from "@google/generative-ai";
+import { GeminiAPIError } from "../../shared/types.js";
+import type { AIErrorCategory, TranscriptSegment } from "../../shared/types.js";
+import { abortable, sleep, withRetry } from "./retry.js";
+import { estimateTokenCost } from "./pricing.js";
+import type { RetryOptions } from "./retry.js";
+import type {
+  AIProvider,
+  AudioHandle,
+  ChatMessage,
+  JSONResponseSchema,
+  SummarizeOptions,
+  SummarySource,
+  TokenUsage,
+} from "./AIProvider.js";
+
+const TRANSCRIBE_PROMPT = `Transcribe this audio verbatim in its original language.
+Split it into segments of one to three sentences. For each segment return the
+start and end time in seconds and, if you can tell speakers apart, a short
+speaker label (e.g. "Host", "Guest 1"); otherwise use null.`;
+
+const RETRY_OPTIONS: RetryOptions = {
+  retries: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000,
+  isRetryable: (error) => error instanceof GeminiAPIError && error.retryable,
+  retryAfterMs: (error) =>
+    error instanceof GeminiAPIError ? error.retryAfterMs : null,
+};
+
+/**
+ * GeminiProvider - Google Gemini via @google/generative-ai
+ *
+ * Audio goes through the Gemini Files API: prepareAudio uploads and polls
+ * until the file is ACTIVE, releaseAudio deletes the remote copy.
+ *
+ * Every API call goes through request(): SDK errors are converted into a
+ * GeminiAPIError with a category (quota, auth, safety, ...) and transient
+ * ones (429, 5xx, timeouts, network) are retried with exponential backoff.
+ *
+ * The Files API upload cannot be aborted mid-request: on abort we stop
+ * waiting for it and delete the remote file once the upload finishes.
+ */
+export class GeminiProvider implements AIProvider {
+  readonly id = "gemini" as const;
+  readonly maxAudioBytes = 2 * 1024 * 1024 * 1024; // Files API limit
+  readonly usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  private genAI: GoogleGenerativeAI;
+  private fileManager: GoogleAIFileManager;
+
+  constructor(
+    apiKey: string,
+    readonly model: string,
+    readonly embeddingModel: string,
+  ) {
+    this.genAI = new GoogleGenerativeAI(apiKey);
+    this.fileManager = new GoogleAIFileManager(apiKey);
+  }
+
+  async prepareAudio(
+    filePath: string,
+    displayName: string,
+    signal?: AbortSignal,
+  ): Promise<AudioHandle> {
+    const uploadResult = await abortable(
+      this.request(
+        "Upload",
+        () =>
+          this.fileManager.uploadFile(filePath, {
+            mimeType: "audio/mpeg",
+            displayName,
+          }),
+        signal,
+      ),
+      signal,
+      (late) => {
+        console.log(
+          `Deleting remote file of cancelled upload: ${late.file.name}`,
+        );
+        this.fileManager.deleteFile(late.file.name).catch(() => undefined);
+      },
+    );
+
+    const handle: AudioHandle = {
+      filePath,
+      mimeType: "audio/mpeg",
+      remoteName: uploadResult.file.name,
+      remoteUri: uploadResult.file.uri,
+    };
+
+    if (!handle.remoteName) {
+      throw new GeminiAPIError("Upload failed: no file name returned");
+    }
+
+    console.log(`Uploaded: ${handle.remoteName}`);
+
+    try {
+      // Poll until file is ACTIVE (max 60 seconds)
+      await this.pollUntilActive(handle.remoteName, 60000, signal);
+    } catch (error) {
+      // The caller never receives the handle, so clean up here
+      await this.releaseAudio(handle).catch(() => undefined);
+      throw error;
+    }
+
+    return handle;
+  }
+
+  async releaseAudio(audio: AudioHandle): Promise<void> {
+    const { remoteName } = audio;
+    if (!remoteName) return;
+    console.log(`Deleting remote file: ${remoteName}`);
+    await this.request("Delete file", () =>
+      this.fileManager.deleteFile(remoteName),
+    );
+    console.log("Remote file deleted");
+  }
+
+  async transcribe(
+    audio: AudioHandle,
+    signal?: AbortSignal,
+  ): Promise<TranscriptSegment[]> {
+    const model = this.genAI.getGenerativeModel({
+      model: this.model,
+      generationConfig: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: SchemaType.ARRAY,
+          items: {
+            type: SchemaType.OBJECT,
+            properties: {
+              start: { type: SchemaType.NUMBER },
+              end: { type: SchemaType.NUMBER },
+              speaker: { type: SchemaType.STRING, nullable: true },
+              text: { type: SchemaType.STRING },
+            },
+            required: ["start", "end", "text"],
+          },
+        },
+      },
+    });
+
+    const text = await this.request(
+      "Transcription",
+      async () => {
+        const result = await model.generateContent(
+          [TRANSCRIBE_PROMPT, this.audioPart(audio)],
+          { signal },
+        );
+        this.addUsage(result.response.usageMetadata);
+        return result.response.text();
+      },
+      signal,
+    );
+
+    const parsed = JSON.parse(text) as any[];
+    return parsed.map((seg) => ({
+      start: Number(seg.start) || 0,
+      end: Number(seg.end) || 0,
+      speaker: seg.speaker || null,
+      text: String(seg.text ?? "").trim(),
+    }));
+  }
+
+  async summarize(
+    prompt: string,
+    source: SummarySource,
+    options: SummarizeOptions = {},
+  ): Promise<string> {
+    const { signal, onPartial, json } = options;
+    const model = this.genAI.getGenerativeModel({
+      model: this.model,
+      generationConfig: json
+        ? {
+            responseMimeType: "application/json",
+            responseSchema: toGeminiSchema(json.schema),
+          }
+        : undefined,
+    });
+    const content =
+      "audio" in source ? this.audioPart(source.audio) : source.text;
+
+    return this.request(
+      "Summary",
+      async () => {
+        const result = await model.generateContentStream([prompt, content], {
+          signal,
+        });
+
+        let textSoFar = "";
+        for await (const chunk of result.stream) {
+          textSoFar += chunk.text();
+          onPartial?.(textSoFar);
+        }
+
+        // The aggregated response also reports a block that ended the stream
+        const response = await result.response;
+        this.addUsage(response.usageMetadata);
+        return response.text();
+      },
+      signal,
+    );
+  }
+
+  async chat(messages: ChatMessage[], signal?: AbortSignal): Promise<string> {
+    const system = messages
+      .filter((msg) => msg.role === "system")
+      .map((msg) => msg.content)
+      .join("\n\n");
+
+    const model = this.genAI.getGenerativeModel({
+      model: this.model,
+      ...(system ? { systemInstruction: system } : {}),
+    });
+
+    const contents: Content[] = messages
+      .filter((msg) => msg.role !== "system")
+      .map((msg) => ({
+        role: msg.role === "assistant" ? "model" : "user",
+        parts: [{ text: msg.content }],
+      }));
+
+    return this.request(
+      "Chat",
+      async () => {
+        const result = await model.generateContent({ contents }, { signal });
+        this.addUsage(result.response.usageMetadata);
+        return result.response.text();
+      },
+      signal,
+    );
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const model = this.genAI.getGenerativeModel({ model: this.embeddingModel });
+    const result = await this.request("Embedding", () =>
+      model.batchEmbedContents({
+        requests: texts.map((text) => ({
+          content: { role: "user", parts: [{ text }] },
+        })),
+      }),
+    );
+    return result.embeddings.map((embedding) => embedding.values);
+  }
+
+  estimateCost(): number | null {
+    return estimateTokenCost(this.model, this.usage);
+  }
+
+  private addUsage(metadata: UsageMetadata | undefined): void {
+    this.usage.inputTokens += metadata?.promptTokenCount ?? 0;
+    this.usage.outputTokens += metadata?.candidatesTokenCount ?? 0;
+  }
+
+  private audioPart(audio: AudioHandle): Part {
+    if (!audio.remoteUri) {
+      throw new Error("Audio has not been uploaded to Gemini");
+    }
+    return {
+      fileData: {
+        fileUri: audio.remoteUri,
+        mimeType: audio.mimeType,
+      },
+    };
+  }
+
+  /**
+   * Poll Gemini file until state is ACTIVE
+   *
+   * @param fileName - Gemini file name
+   * @param maxWaitMs - Max wait time in milliseconds
+   * @param signal - Stops polling when aborted
+   */
+  private async pollUntilActive(
+    fileName: string,
+    maxWaitMs: number,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const startTime = Date.now();
+    const pollInterval = 2000; // 2 seconds
+
+    let elapsed = Date.now() - startTime;
+    while (elapsed < maxWaitMs) {
+      const file = await this.request(
+        "File status",
+        () => this.fileManager.getFile(fileName, { signal }),
+        signal,
+      );
+
+      console.log(`File state: ${file.state}`);
+
+      if (file.state === FileState.ACTIVE) {
+        return;
+      }
+
+      if (file.state === FileState.FAILED) {
+        throw new GeminiAPIError("Gemini file processing failed");
+      }
+
+      // Wait before next poll
+      await sleep(pollInterval, signal);
+      elapsed = Date.now() - startTime;
+    }
+
+    throw new GeminiAPIError(
+      `Timeout waiting for file to become ACTIVE (${maxWaitMs}ms)`,
+      "timeout",
+    );
+  }
+
+  /**
+   * Run one API call with error classification and retries
+   *
+   * @param label - Operation name for logs
+   * @param call - The SDK call; repeated on retryable failures
+   * @param signal - Cancels waiting between retries; an aborted call is
+   *   rethrown as the abort reason instead of being classified
+   */
+  private request<T>(
+    label: string,
+    call: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    return withRetry(
+      `Gemini ${label}`,
+      async () => {
+        try {
+          return await call();
+        } catch (error) {
+          signal?.throwIfAborted();
+          throw toGeminiAPIError(error);
+        }
+      },
+      { ...RETRY_OPTIONS, signal },
+    );
+  }
+}
+
+/**
+ * Classify an error thrown by the Gemini SDK
+ *
+ * The SDK's HTTP errors carry `status` and `errorDetails`; blocked
+ * responses and network failures are only distinguishable by message.
+ * Duck-typed because the server entry point bundles its own error classes.
+ */
+function toGeminiAPIError(error: unknown): GeminiAPIError {
+  if (error instanceof GeminiAPIError) return error;
+
+  const raw = error instanceof Error ? error.message : String(error);
+  // Drop the SDK prefix and request URL, keep the server message
+  const message = raw
+    .replace(/^\[GoogleGenerativeAI Error\]:\s*/, "")
+    .replace(/^Error fetching from \S+:\s*/, "");
+
+  const status =
+    typeof (error as any)?.status === "number" ? (error as any).status : null;
+
+  let category: AIErrorCategory = "unknown";
+  if (status === 401 || status === 403) {
+    category = "auth";
+  } else if (status === 400 && /API[_ ]?key/i.test(message)) {
+    category = "auth"; // Gemini answers an invalid key with 400
+  } else if (status === 429) {
+    category = "quota";
+  } else if (status === 408 || status === 504) {
+    category = "timeout";
+  } else if (status !== null && status >= 500) {
+    category = "unavailable";
+  } else if (status === null) {
+    if (/blocked|SAFETY|PROHIBITED_CONTENT|RECITATION/.test(message)) {
+      category = "safety";
+    } else if (/abort|timed? ?out|ETIMEDOUT/i.test(message)) {
+      category = "timeout";
+    } else if (
+      /fetch failed|ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|socket|network/i.test(
+        message,
+      )
+    ) {
+      category = "network";
+    }
+  }
+
+  return new GeminiAPIError(message, category, status, retryDelayMs(error));
+}
+
+/**
+ * Delay suggested by a google.rpc.RetryInfo detail (e.g. "retryDelay": "31s")
+ */
+function retryDelayMs(error: unknown): number | null {
+  const details = (error as any)?.errorDetails;
+  if (!Array.isArray(details)) return null;
+
+  for (const detail of details) {
+    const delay = /^(\d+(?:\.\d+)?)s$/.exec(String(detail?.retryDelay ?? ""));
+    if (delay) return Math.ceil(Number(delay[1]) * 1000);
+  }
+  return null;
+}
+
+/**
+ * Gemini's OpenAPI-style schema for a JSONResponseSchema: nullable is a
+ * flag instead of a "null" type, and additionalProperties is not supported
+ */
+function toGeminiSchema(schema: JSONResponseSchema["schema"]): ResponseSchema {
+  const types: string[] = [schema.type].flat();
+  const result: Record<string, unknown> = {
+    type: types.find((type) => type !== "null") as SchemaType,
+    ...(types.includes("null") && { nullable: true }),
+  };
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [
+        key,
+        toGeminiSchema(value as JSONResponseSchema["schema"]),
+      ]),
+    );
+    result.required = schema.required;
+  }
+  if (schema.items) {
+    result.items = toGeminiSchema(schema.items);
+  }
+  return result as unknown as ResponseSchema;
+}
@@ -0,0 +1,262 @@
+import fs from "fs";
+import path from "path";
+import axios from "axios";
+import type { AxiosInstance } from "axios";
+import type { TranscriptSegment } from "../../shared/types.js";
+import { formatTranscript } from "./AIProvider.js";
+import { estimateTokenCost, estimateTranscriptionCost } from "./pricing.js";
+import type {
+  AIProvider,
+  AudioHandle,
+  ChatMessage,
+  SummarizeOptions,
+  SummarySource,
+  TokenUsage,
+} from "./AIProvider.js";
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string;
+  apiKey: string; // may be empty for local servers
+  model: string;
+  embeddingModel: string;
+  transcriptionModel: string;
+}
+
+/**
+ * OpenAICompatibleProvider - any server speaking the OpenAI REST API
+ *
+ * Works with api.openai.com as well as local servers such as llama.cpp,
+ * Ollama or a whisper server:
+ * - POST {baseUrl}/audio/transcriptions  (speech-to-text, verbose_json)
+ * - POST {baseUrl}/chat/completions      (summaries (streamed) and chat)
+ * - POST {baseUrl}/embeddings            (semantic search)
+ *
+ * Chat models cannot listen to audio, so an audio summary is produced by
+ * transcribing first and summarizing the transcript text.
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly id = "openai" as const;
+  readonly model: string;
+  readonly embeddingModel: string;
+  readonly maxAudioBytes = 25 * 1024 * 1024; // OpenAI transcription limit
+  readonly usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  // Transcription is billed per minute of audio, not per token
+  private transcribedSeconds = 0;
+  private client: AxiosInstance;
+  private transcriptionModel: string;
+  // Avoid transcribing the same prepared audio twice (transcribe + summarize)
+  private transcripts = new WeakMap<AudioHandle, TranscriptSegment[]>();
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.model = options.model;
+    this.embeddingModel = options.embeddingModel;
+    this.transcriptionModel = options.transcriptionModel;
+    this.client = axios.create({
+      baseURL: options.baseUrl.replace(/\/+$/, ""),
+      timeout: 10 * 60 * 1000, // local models can be slow on long inputs
+      headers: options.apiKey
+        ? { Authorization: `Bearer ${options.apiKey}` }
+        : {},
+    });
+  }
+
+  async prepareAudio(filePath: string): Promise<AudioHandle> {
+    // Audio is sent with each transcription request; nothing to upload
+    return { filePath, mimeType: "audio/mpeg" };
+  }
+
+  async releaseAudio(audio: AudioHandle): Promise<void> {
+    this.transcripts.delete(audio);
+  }
+
+  async transcribe(
+    audio: AudioHandle,
+    signal?: AbortSignal,
+  ): Promise<TranscriptSegment[]> {
+    const cached = this.transcripts.get(audio);
+    if (cached) return cached;
+
+    const form = new FormData();
+    const blob = await fs.openAsBlob(audio.filePath, { type: audio.mimeType });
+    form.append("file", blob, path.basename(audio.filePath));
+    form.append("model", this.transcriptionModel);
+    form.append("response_format", "verbose_json");
+
+    const { data } = await this.client.post("/audio/transcriptions", form, {
+      signal,
+    });
+
+    let segments: TranscriptSegment[] = Array.isArray(data?.segments)
+      ? data.segments.map((seg: any) => ({
+          start: Number(seg.start) || 0,
+          end: Number(seg.end) || 0,
+          speaker: null,
+          text: String(seg.text ?? "").trim(),
+        }))
+      : [];
+
+    // Some servers only return plain text
+    if (segments.length === 0 && data?.text) {
+      segments = [
+        {
+          start: 0,
+          end: Number(data.duration) || 0,
+          speaker: null,
+          text: String(data.text).trim(),
+        },
+      ];
+    }
+
+    this.transcribedSeconds +=
+      Number(data?.duration) || segments[segments.length - 1]?.end || 0;
+    this.transcripts.set(audio, segments);
+    return segments;
+  }
+
+  async summarize(
+    prompt: string,
+    source: SummarySource,
+    options: SummarizeOptions = {},
+  ): Promise<string> {
+    const text =
+      "audio" in source
+        ? formatTranscript(await this.transcribe(source.audio, options.signal))
+        : source.text;
+
+    return this.streamChat(
+      [
+        { role: "system", content: prompt },
+        { role: "user", content: text },
+      ],
+      options,
+    );
+  }
+
+  async chat(messages: ChatMessage[], signal?: AbortSignal): Promise<string> {
+    return this.streamChat(messages, { signal });
+  }
+
+  /**
+   * Chat completion with `stream: true` (server-sent events)
+   *
+   * Servers that ignore the flag and answer with a plain JSON body work too.
+   */
+  private async streamChat(
+    messages: ChatMessage[],
+    { signal, onPartial, json }: SummarizeOptions,
+  ): Promise<string> {
+    const send = (responseFormat: object | undefined) =>
+      this.client.post(
+        "/chat/completions",
+        {
+          model: this.model,
+          messages,
+          stream: true,
+          stream_options: { include_usage: true }, // usage in the last event
+          ...(responseFormat && { response_format: responseFormat }),
+        },
+        { signal, responseType: "stream" },
+      );
+
+    let response;
+    try {
+      response = await send(
+        json && {
+          type: "json_schema",
+          json_schema: { name: json.name, schema: json.schema, strict: true },
+        },
+      );
+    } catch (error) {
+      // Servers without structured outputs reject json_schema; fall back
+      // to plain JSON mode (the prompt still describes the fields)
+      const status = axios.isAxiosError(error) ? error.response?.status : null;
+      if (!json || (status !== 400 && status !== 422)) throw error;
+      console.warn("json_schema not supported, retrying with json_object");
+      response = await send({ type: "json_object" });
+    }
+
+    const stream = response.data as NodeJS.ReadableStream;
+    stream.setEncoding("utf8"); // never split a multi-byte character
+
+    let textSoFar = "";
+    let body = "";
+    let buffer = "";
+    let isEventStream = false;
+
+    const handleLine = (line: string) => {
+      if (!line.startsWith("data:")) return;
+      isEventStream = true;
+
+      const payload = line.slice("data:".length).trim();
+      if (!payload || payload === "[DONE]") return;
+
+      // Skip keep-alive and malformed events instead of failing the reply
+      let event: any;
+      try {
+        event = JSON.parse(payload);
+      } catch {
+        return;
+      }
+      this.addUsage(event?.usage);
+
+      const delta = event?.choices?.[0]?.delta?.content;
+      if (typeof delta === "string" && delta) {
+        textSoFar += delta;
+        onPartial?.(textSoFar);
+      }
+    };
+
+    for await (const chunk of stream) {
+      body += chunk;
+      buffer += chunk;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      lines.forEach(handleLine);
+    }
+    // The last event may not end with a newline
+    handleLine(buffer);
+
+    if (!isEventStream) {
+      const data = JSON.parse(body);
+      this.addUsage(data?.usage);
+      textSoFar = data?.choices?.[0]?.message?.content;
+    }
+    if (typeof textSoFar !== "string" || !textSoFar) {
+      throw new Error("Invalid response from chat completions endpoint");
+    }
+    return textSoFar;
+  }
+
+  estimateCost(): number | null {
+    const tokens = estimateTokenCost(this.model, this.usage);
+    if (this.transcribedSeconds === 0) return tokens;
+
+    const audio = estimateTranscriptionCost(
+      this.transcriptionModel,
+      this.transcribedSeconds,
+    );
+    return tokens === null || audio === null ? null : tokens + audio;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const { data } = await this.client.post("/embeddings", {
+      model: this.embeddingModel,
+      input: texts,
+    });
+
+    if (!Array.isArray(data?.data) || data.data.length !== texts.length) {
+      throw new Error("Invalid response from embeddings endpoint");
+    }
+    // Entries carry their input index; do not rely on response order
+    return [...data.data]
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((item: any) => item.embedding as number[]);
+  }
+
+  private addUsage(usage: any): void {
+    this.usage.inputTokens += Number(usage?.prompt_tokens) || 0;
+    this.usage.outputTokens += Number(usage?.completion_tokens) || 0;
+  }
+}
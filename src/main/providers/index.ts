@@ -0,0 +1,68 @@
+import type { AIProviderId, AIProviderSettings } from "../../shared/types.js";
+import type { AIProvider } from "./AIProvider.js";
+import { GeminiProvider } from "./GeminiProvider.js";
+import { OpenAICompatibleProvider } from "./OpenAICompatibleProvider.js";
+import { FakeProvider } from "./FakeProvider.js";
+
+export type {
+  AIProvider,
+  AudioHandle,
+  ChatMessage,
+  SummarizeOptions,
+  SummarySource,
+  TokenUsage,
+} from "./AIProvider.js";
+export { formatTimestamp, formatTranscript } from "./AIProvider.js";
+
+export const DEFAULT_MODELS: Record<AIProviderId, string> = {
+  gemini: "gemini-2.5-flash",
+  openai: "gpt-4o-mini",
+  fake: "fake-1",
+};
+
+export const DEFAULT_EMBEDDING_MODELS: Record<AIProviderId, string> = {
+  gemini: "text-embedding-004",
+  openai: "text-embedding-3-small",
+  fake: "fake-embedding-1",
+};
+
+export const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+export const DEFAULT_TRANSCRIPTION_MODEL = "whisper-1";
+
+/**
+ * Build a provider instance from resolved settings
+ *
+ * @param settings - Provider, model and endpoint (empty fields use defaults)
+ * @param apiKey - Key for the chosen provider (optional for openai/fake)
+ */
+export function createProvider(
+  settings: AIProviderSettings,
+  apiKey: string,
+): AIProvider {
+  const model = settings.model || DEFAULT_MODELS[settings.provider];
+  const embeddingModel =
+    settings.embeddingModel || DEFAULT_EMBEDDING_MODELS[settings.provider];
+
+  switch (settings.provider) {
+    case "gemini":
+      if (!apiKey) {
+        throw new Error(
+          "Gemini API key not set. Add it in AI settings to generate summaries.",
+        );
+      }
+      return new GeminiProvider(apiKey, model, embeddingModel);
+    case "openai":
+      return new OpenAICompatibleProvider({
+        baseUrl: settings.baseUrl || DEFAULT_OPENAI_BASE_URL,
+        apiKey,
+        model,
+        embeddingModel,
+        transcriptionModel:
+          settings.transcriptionModel || DEFAULT_TRANSCRIPTION_MODEL,
+      });
+    case "fake":
+      return new FakeProvider(model, embeddingModel);
+    default:
+      throw new Error(`Unknown AI provider: ${settings.provider}`);
+  }
+}
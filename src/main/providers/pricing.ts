@@ -0,0 +1,76 @@
+import type { TokenUsage } from "./AIProvider.js";
+
+/**
+ * USD per million tokens
+ */
+export interface TokenPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * Approximate list prices, used for cost estimates only
+ *
+ * Keys are model name prefixes: "gemini-2.5-flash" also prices dated
+ * variants such as "gemini-2.5-flash-preview-05-20". Audio input is billed
+ * at the text rate, so Gemini audio estimates are on the low side.
+ */
+const TOKEN_PRICING: Record<string, TokenPricing> = {
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash-lite": { input: 0.075, output: 0.3 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+};
+
+// USD per minute of audio
+const TRANSCRIPTION_PRICING: Record<string, number> = {
+  "whisper-1": 0.006,
+  "gpt-4o-transcribe": 0.006,
+  "gpt-4o-mini-transcribe": 0.003,
+};
+
+/**
+ * Estimated cost of the given token usage, or null for unknown models
+ * (e.g. local servers)
+ */
+export function estimateTokenCost(
+  model: string,
+  usage: TokenUsage,
+): number | null {
+  const pricing = findByPrefix(TOKEN_PRICING, model);
+  if (!pricing) return null;
+  return (
+    (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) /
+    1_000_000
+  );
+}
+
+/**
+ * Estimated cost of transcribing `seconds` of audio, or null for unknown
+ * transcription models
+ */
+export function estimateTranscriptionCost(
+  model: string,
+  seconds: number,
+): number | null {
+  const perMinute = findByPrefix(TRANSCRIPTION_PRICING, model);
+  return perMinute === null ? null : (seconds / 60) * perMinute;
+}
+
+/**
+ * Entry with the longest key that `model` starts with
+ */
+function findByPrefix<T>(table: Record<string, T>, model: string): T | null {
+  const key = Object.keys(table)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? table[key] : null;
+}
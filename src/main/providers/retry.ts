@@ -0,0 +1,112 @@
+export interface RetryOptions {
+  retries: number; // Attempts after the first one
+  baseDelayMs: number; // Delay before the first retry, doubled each time
+  maxDelayMs: number;
+  /** Whether a failure is worth another attempt */
+  isRetryable: (error: unknown) => boolean;
+  /** Server-suggested delay (e.g. Retry-After), overrides the backoff */
+  retryAfterMs?: (error: unknown) => number | null;
+  /** Stops retrying (and waiting) once aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Run `fn`, retrying retryable failures with exponential backoff and jitter
+ *
+ * The last error is rethrown once the retries are used up, as is any error
+ * that is not retryable. Nothing is retried after the signal is aborted.
+ *
+ * @param label - Name of the operation for logging
+ * @param fn - Operation to run; called once per attempt
+ * @param options - Retry policy
+ */
+export async function withRetry<T>(
+  label: string,
+  fn: () => Promise<T>,
+  options: RetryOptions,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (
+        attempt >= options.retries ||
+        options.signal?.aborted ||
+        !options.isRetryable(error)
+      ) {
+        throw error;
+      }
+
+      const backoff = options.baseDelayMs * 2 ** attempt;
+      // Jitter (50-100% of the backoff) keeps parallel jobs from retrying in sync
+      const delay = Math.min(
+        options.maxDelayMs,
+        options.retryAfterMs?.(error) ?? backoff * (0.5 + Math.random() / 2),
+      );
+
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(
+        `${label} failed (${reason}); retry ${attempt + 1}/${options.retries} in ${Math.round(delay / 1000)}s`,
+      );
+      await sleep(delay, options.signal);
+    }
+  }
+}
+
+/**
+ * Wait for `ms`; rejects with the abort reason as soon as `signal` aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Stop waiting for a call that cannot be aborted itself
+ *
+ * Rejects with the abort reason as soon as `signal` aborts. The call keeps
+ * running; `onLateResult` receives its result if it still succeeds, so
+ * whatever it created can be cleaned up.
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+  onLateResult: (result: T) => void,
+): Promise<T> {
+  if (!signal) return promise;
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      promise.then(onLateResult, () => undefined);
+      reject(signal.reason);
+    };
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (result) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(result);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    );
+  });
+}
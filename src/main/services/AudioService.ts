@@ -2,9 +2,19 @@ import fs from "fs";
 import path from "path";
 import axios from "axios";
 import os from "os";
+import { pipeline } from "stream/promises";
 import { shell } from "electron";
 import { DatabaseManager } from "../database/index.js";
-import type { AudioProvisionResult, Episode } from "../../shared/types.js";
+import type {
+  AudioChunk,
+  AudioProvisionResult,
+  Episode,
+} from "../../shared/types.js";
+
+// Bytes searched past a split point for the next MP3 frame header
+const FRAME_SEARCH_WINDOW = 64 * 1024;
+// ID3v2 tag header: "ID3", version (2), flags (1), synchsafe size (4)
+const ID3_HEADER_BYTES = 10;
 
 /**
  * AudioService - Flow B: Audio Asset Provisioning
@@ -14,6 +24,7 @@ import type { AudioProvisionResult, Episode } from "../../shared/types.js";
  * - Return local path if file is downloaded (isEphemeral = false)
  * - Download to temp if not in vault (isEphemeral = true)
  * - Handle persistent downloads for user's music library
+ * - Split long audio into time-based chunk files for AI processing
  */
 export class AudioService {
   private tempDir = path.join(os.tmpdir(), "myapp-cache");
@@ -41,9 +52,13 @@ export class AudioService {
    * 3. If no, download to temp (isEphemeral = true)
    *
    * @param episodeId - Episode ID
+   * @param signal - Aborts the temp download (the partial file is deleted)
    * @returns Audio file path and ephemeral flag
    */
-  async provisionAudio(episodeId: string): Promise<AudioProvisionResult> {
+  async provisionAudio(
+    episodeId: string,
+    signal?: AbortSignal,
+  ): Promise<AudioProvisionResult> {
     const episode = this.db.getEpisodeById.get(episodeId) as
       | Episode
       | undefined;
@@ -68,7 +83,7 @@ export class AudioService {
     // Download to temp (sanitize episodeId — some feeds use URIs like "tag:soundcloud,2010:tracks/123")
     const safeId = episodeId.replace(/[^a-zA-Z0-9\-_]/g, "_");
     const tempPath = path.join(this.tempDir, `${safeId}.mp3`);
-    await this.downloadStream(episode.audio_url, tempPath);
+    await this.downloadStream(episode.audio_url, tempPath, undefined, signal);
 
     return {
       path: tempPath,
@@ -76,6 +91,108 @@ export class AudioService {
     };
   }
 
+  /**
+   * Whether a file is MP3 audio, i.e. starts with an MP3 frame header,
+   * optionally behind an ID3v2 tag
+   *
+   * Only MP3 can be split by byte offset: containers like M4A keep their
+   * index in one place, so parts cut out of them cannot be decoded.
+   */
+  isMP3(filePath: string): boolean {
+    const fd = fs.openSync(filePath, "r");
+    try {
+      const header = Buffer.alloc(ID3_HEADER_BYTES);
+      let offset = 0;
+      if (
+        fs.readSync(fd, header, 0, ID3_HEADER_BYTES, 0) === ID3_HEADER_BYTES &&
+        header.toString("latin1", 0, 3) === "ID3"
+      ) {
+        // Tag size is synchsafe (7 bits per byte); flag 0x10 adds a footer
+        const tagSize =
+          (header[6] << 21) | (header[7] << 14) | (header[8] << 7) | header[9];
+        const footer = header[5] & 0x10 ? ID3_HEADER_BYTES : 0;
+        offset = ID3_HEADER_BYTES + tagSize + footer;
+      }
+
+      const frame = Buffer.alloc(4);
+      return (
+        fs.readSync(fd, frame, 0, frame.length, offset) === frame.length &&
+        isFrameHeader(frame, 0)
+      );
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  /**
+   * Split an MP3 file into consecutive chunk files in the temp dir
+   *
+   * Cuts by byte offset at the next MP3 frame header, so no re-encoding
+   * (and no ffmpeg) is needed. Chunk times are estimated assuming a
+   * constant bitrate. The caller owns the returned files and MUST delete
+   * them when done.
+   *
+   * @param filePath - MP3 file to split
+   * @param chunkCount - Number of chunks (roughly equal in size)
+   * @param durationSeconds - Total duration, used to estimate chunk times
+   * @returns Chunk files in playback order
+   * @throws Error if the file is not MP3 (see isMP3)
+   */
+  async splitAudio(
+    filePath: string,
+    chunkCount: number,
+    durationSeconds: number,
+  ): Promise<AudioChunk[]> {
+    if (!this.isMP3(filePath)) {
+      throw new Error("Cannot split this audio format (only MP3 is supported)");
+    }
+
+    const size = fs.statSync(filePath).size;
+
+    const offsets = [0];
+    const fd = fs.openSync(filePath, "r");
+    try {
+      for (let i = 1; i < chunkCount; i++) {
+        offsets.push(findFrameStart(fd, Math.floor((size * i) / chunkCount)));
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+    offsets.push(size);
+
+    const baseName = `${path.basename(filePath, path.extname(filePath))}-${Date.now()}`;
+    const chunks: AudioChunk[] = [];
+
+    try {
+      for (let i = 0; i < chunkCount; i++) {
+        const [start, end] = [offsets[i], offsets[i + 1]];
+        if (end <= start) continue;
+
+        const chunkPath = path.join(
+          this.tempDir,
+          `${baseName}-part${i + 1}.mp3`,
+        );
+        await pipeline(
+          fs.createReadStream(filePath, { start, end: end - 1 }),
+          fs.createWriteStream(chunkPath),
+        );
+        chunks.push({
+          path: chunkPath,
+          start: (durationSeconds * start) / size,
+          end: (durationSeconds * end) / size,
+        });
+      }
+    } catch (error) {
+      // Nothing is returned, so the caller cannot clean these up
+      for (const chunk of chunks) {
+        fs.rmSync(chunk.path, { force: true });
+      }
+      throw error;
+    }
+
+    return chunks;
+  }
+
   /**
    * Download episode to persistent storage (user's music library)
    *
@@ -135,11 +252,13 @@ export class AudioService {
    * @param url - Audio URL
    * @param destPath - Destination file path
    * @param onProgress - Optional progress callback
+   * @param signal - Optional abort signal (stops the transfer mid-stream)
    */
   private async downloadStream(
     url: string,
     destPath: string,
     onProgress?: (percent: number) => void,
+    signal?: AbortSignal,
   ): Promise<void> {
     const response = await axios({
       url,
@@ -147,11 +266,22 @@ export class AudioService {
       responseType: "stream",
       timeout: 60000, // 60 seconds for connection
       maxRedirects: 5,
+      signal,
       headers: {
         "User-Agent": "Podcast-AI-Orchestrator/1.0",
       },
     });
 
+    // Destroying the body triggers the error handler below (partial file
+    // cleanup + reject)
+    const onAbort = () =>
+      response.data.destroy(new Error("Download cancelled"));
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener("abort", onAbort, { once: true });
+    }
+
     const totalLength = response.headers["content-length"];
     let downloadedLength = 0;
 
@@ -174,6 +304,7 @@ export class AudioService {
 
       // Listen for finish event - fired when all data has been written and flushed
       writer.on("finish", () => {
+        signal?.removeEventListener("abort", onAbort);
         // Give a small delay to ensure file system catches up
         setImmediate(() => {
           // Verify file was written
@@ -288,3 +419,35 @@ export class AudioService {
     return null;
   }
 }
+
+/**
+ * Offset of the first MP3 frame header at or after `offset`
+ *
+ * Falls back to `offset` itself when no header is found nearby; MP3
+ * decoders skip ahead to the next frame header anyway.
+ */
+function findFrameStart(fd: number, offset: number): number {
+  const buffer = Buffer.alloc(FRAME_SEARCH_WINDOW);
+  const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, offset);
+
+  for (let i = 0; i + 3 < bytesRead; i++) {
+    if (isFrameHeader(buffer, i)) {
+      return offset + i;
+    }
+  }
+
+  return offset;
+}
+
+// MPEG audio frame header (layer I-III) at buffer[i..i+3]. AAC (ADTS)
+// shares the sync word but always has layer 00, so it does not match.
+function isFrameHeader(buffer: Buffer, i: number): boolean {
+  const sync = buffer[i] === 0xff && (buffer[i + 1] & 0xe0) === 0xe0;
+  if (!sync) return false;
+
+  const version = (buffer[i + 1] >> 3) & 0x03; // 01 = reserved
+  const layer = (buffer[i + 1] >> 1) & 0x03; // 00 = reserved
+  const bitrate = buffer[i + 2] >> 4; // 1111 = invalid
+  const sampleRate = (buffer[i + 2] >> 2) & 0x03; // 11 = reserved
+  return version !== 1 && layer !== 0 && bitrate !== 0x0f && sampleRate !== 3;
+}
@@ -0,0 +1,77 @@
+import { DatabaseManager } from "../database/index.js";
+import { SummaryQueueService } from "./SummaryQueueService.js";
+import type { Episode, Podcast } from "../../shared/types.js";
+
+/**
+ * AutoSummarizeService - Summaries of new episodes without user action
+ *
+ * Responsibilities:
+ * - Evaluate a podcast's auto-summarize rule (podcasts.auto_summarize*)
+ *   against the episodes a feed sync has just inserted
+ * - Queue a summary for every matching episode (SummaryQueueService); the
+ *   jobs are marked as automatic so the user is notified when they are done
+ *
+ * Rule filters are optional and must all pass: a minimum length (episodes
+ * of unknown length never pass it) and a case-insensitive title filter,
+ * plain text by default or a regex (validated when the rule is saved).
+ */
+export class AutoSummarizeService {
+  constructor(
+    private db: DatabaseManager,
+    private summaryQueue: SummaryQueueService,
+  ) {}
+
+  /**
+   * Queue summaries for the new episodes of a podcast that match its rule
+   *
+   * @param podcastId - Podcast ID
+   * @param episodeIds - Episodes inserted by the sync
+   * @returns Number of summaries queued
+   */
+  handleNewEpisodes(podcastId: string, episodeIds: string[]): number {
+    if (episodeIds.length === 0) return 0;
+
+    const podcast = this.db.getPodcastById.get(podcastId) as
+      Podcast | undefined;
+    if (!podcast?.auto_summarize) return 0;
+
+    const pattern = podcast.auto_summarize_title_pattern;
+    let matchesTitle: ((title: string) => boolean) | null = null;
+    try {
+      if (pattern && podcast.auto_summarize_title_regex) {
+        const regex = new RegExp(pattern, "i");
+        matchesTitle = (title) => regex.test(title);
+      } else if (pattern) {
+        matchesTitle = (title) =>
+          title.toLowerCase().includes(pattern.toLowerCase());
+      }
+    } catch (error) {
+      // Patterns are validated when saved; never queue on a broken rule
+      console.error(
+        `Invalid auto-summarize pattern for ${podcast.title}`,
+        error,
+      );
+      return 0;
+    }
+    const minSeconds = (podcast.auto_summarize_min_minutes ?? 0) * 60;
+
+    let queued = 0;
+    for (const episodeId of episodeIds) {
+      const episode = this.db.getEpisodeById.get(episodeId) as
+        Episode | undefined;
+      if (!episode) continue;
+      if (minSeconds > 0 && !(episode.duration >= minSeconds)) continue;
+      if (matchesTitle && !matchesTitle(episode.title)) continue;
+
+      this.summaryQueue.enqueue(episodeId, [], true);
+      queued++;
+    }
+
+    if (queued > 0) {
+      console.log(
+        `Auto-summarize: queued ${queued} new episode(s) of ${podcast.title}`,
+      );
+    }
+    return queued;
+  }
+}
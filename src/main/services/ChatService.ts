@@ -0,0 +1,167 @@
+import { DatabaseManager } from "../database/index.js";
+import { ConfigService } from "./ConfigService.js";
+import { TranscriptService } from "./TranscriptService.js";
+import type { ChatMessage } from "../providers/index.js";
+import type {
+  Document,
+  Episode,
+  EpisodeChatMessage,
+  Podcast,
+} from "../../shared/types.js";
+
+// Earlier turns sent back to the model with each question
+const MAX_HISTORY_MESSAGES = 20;
+
+/**
+ * ChatService - Episode Q&A
+ *
+ * Responsibilities:
+ * - Answer follow-up questions about one episode, grounded in its stored
+ *   transcript and primary summary
+ * - Ask the model to cite transcript timestamps as [mm:ss]
+ * - Persist the conversation per episode (chat_messages table)
+ *
+ * A question and its answer are saved together only after the provider
+ * replies, so a failed call leaves no dangling question in the history.
+ */
+export class ChatService {
+  constructor(
+    private db: DatabaseManager,
+    private config: ConfigService,
+    private transcripts: TranscriptService,
+  ) {}
+
+  /**
+   * Get the saved conversation of an episode (oldest first)
+   */
+  getMessages(episodeId: string): EpisodeChatMessage[] {
+    return this.db.getChatMessagesByEpisode.all(
+      episodeId,
+    ) as EpisodeChatMessage[];
+  }
+
+  /**
+   * Ask a question about an episode
+   *
+   * @param episodeId - Episode ID
+   * @param question - User question
+   * @param signal - Aborts the model request (nothing is saved then)
+   * @returns The persisted assistant reply
+   */
+  async ask(
+    episodeId: string,
+    question: string,
+    signal?: AbortSignal,
+  ): Promise<EpisodeChatMessage> {
+    const trimmed = question.trim();
+    if (!trimmed) {
+      throw new Error("Question is empty");
+    }
+
+    const episode = this.db.getEpisodeById.get(episodeId) as
+      | Episode
+      | undefined;
+    if (!episode) {
+      throw new Error(`Episode ${episodeId} not found`);
+    }
+
+    const podcast = this.db.getPodcastById.get(episode.podcast_id) as
+      | Podcast
+      | undefined;
+    const summary = this.db.getPrimaryDocumentByEpisode.get(episodeId) as
+      | Document
+      | undefined;
+    const transcript = this.transcripts.getTranscriptText(episodeId);
+
+    if (!transcript && !summary) {
+      throw new Error(
+        "This episode has no transcript or summary yet. Generate a summary first.",
+      );
+    }
+
+    const provider = this.config.createProviderFor(podcast ?? null);
+
+    const history: ChatMessage[] = this.getMessages(episodeId)
+      .slice(-MAX_HISTORY_MESSAGES)
+      .map((msg) => ({ role: msg.role, content: msg.content }));
+
+    const reply = await provider.chat(
+      [
+        {
+          role: "system",
+          content: this.buildSystemPrompt(
+            podcast?.title ?? "",
+            episode,
+            summary?.content ?? null,
+            transcript,
+          ),
+        },
+        ...history,
+        { role: "user", content: trimmed },
+      ],
+      signal,
+    );
+
+    const now = this.db.now();
+    const questionId = this.db.generateId();
+    const answerId = this.db.generateId();
+
+    this.db.transaction(() => {
+      this.db.insertChatMessage.run(
+        questionId,
+        episodeId,
+        "user",
+        trimmed,
+        now,
+      );
+      this.db.insertChatMessage.run(
+        answerId,
+        episodeId,
+        "assistant",
+        reply,
+        now,
+      );
+    });
+
+    return {
+      id: answerId,
+      episode_id: episodeId,
+      role: "assistant",
+      content: reply,
+      created_at: now,
+    };
+  }
+
+  /**
+   * Delete the conversation of an episode
+   */
+  clearMessages(episodeId: string): void {
+    this.db.deleteChatMessagesByEpisode.run(episodeId);
+  }
+
+  private buildSystemPrompt(
+    podcastTitle: string,
+    episode: Episode,
+    summary: string | null,
+    transcript: string | null,
+  ): string {
+    const sections = [
+      `You answer questions about the podcast episode "${episode.title}"` +
+        (podcastTitle ? ` from "${podcastTitle}".` : "."),
+      "Answer only from the material below. If it does not contain the answer, say so.",
+      transcript
+        ? "Cite the transcript timestamps that support each point, formatted as [mm:ss] (or [h:mm:ss])."
+        : "No transcript is available, so do not invent timestamps.",
+      "Reply in the language of the question, using Markdown.",
+    ];
+
+    if (summary) {
+      sections.push(`## Summary\n\n${summary}`);
+    }
+    if (transcript) {
+      sections.push(`## Transcript\n\n${transcript}`);
+    }
+
+    return sections.join("\n\n");
+  }
+}
@@ -1,13 +1,48 @@
 import fs from "fs";
 import path from "path";
 import { DatabaseManager } from "../database/index.js";
-import type { DbStats } from "../../shared/types.js";
+import { createProvider } from "../providers/index.js";
+import type { AIProvider } from "../providers/index.js";
+import type {
+  AIProviderId,
+  AIProviderSettings,
+  AISettings,
+  DbStats,
+  FeedRefreshSettings,
+  Podcast,
+  SummaryFormat,
+  UsageLimit,
+  UsageLimits,
+} from "../../shared/types.js";
+import { DEFAULT_SUMMARY_LANGUAGE } from "../../shared/types.js";
+
+const AI_PROVIDERS: AIProviderId[] = ["gemini", "openai", "fake"];
+
+const NO_USAGE_LIMIT: UsageLimit = {
+  tokens: null,
+  audioHours: null,
+  cost: null,
+};
+
+const DEFAULT_FEED_REFRESH: FeedRefreshSettings = {
+  intervalMinutes: 60,
+  pauseOnBattery: true,
+};
+
+// .env variable holding each provider's key (fake needs none)
+const API_KEY_ENV_NAMES: Record<AIProviderId, string | null> = {
+  gemini: "GEMINI_API_KEY",
+  openai: "OPENAI_API_KEY",
+  fake: null,
+};
 
 /**
  * ConfigService - Application Configuration & Utilities
  *
  * Responsibilities:
- * - Manage Gemini API key (stored in userData directory)
+ * - Manage AI provider API keys (stored in userData directory)
+ * - Resolve the AI provider per podcast (podcast override > global)
+ * - Persist application settings (settings table)
  * - Provide database statistics
  */
 export class ConfigService {
@@ -25,16 +60,22 @@ export class ConfigService {
   }
 
   /**
-   * Save Gemini API key to .env file
+   * Save a provider API key to .env file
    *
-   * @param apiKey - Gemini API key (must start with 'AIza')
+   * @param provider - Provider the key belongs to
+   * @param apiKey - API key (Gemini keys must start with 'AIza')
    */
-  saveApiKey(apiKey: string): void {
+  saveApiKey(provider: AIProviderId, apiKey: string): void {
+    const envKey = API_KEY_ENV_NAMES[provider];
+    if (!envKey) {
+      throw new Error(`Provider ${provider} does not use an API key`);
+    }
+
     if (!apiKey || apiKey.trim().length < 10) {
       throw new Error("API key is too short");
     }
 
-    if (!apiKey.startsWith("AIza")) {
+    if (provider === "gemini" && !apiKey.startsWith("AIza")) {
       throw new Error(
         "Invalid API key format. Gemini API keys start with 'AIza'",
       );
@@ -45,12 +86,12 @@ export class ConfigService {
       envContent = fs.readFileSync(this.envPath, "utf8");
     }
 
-    const keyLine = `GEMINI_API_KEY=${apiKey}`;
+    const keyLine = `${envKey}=${apiKey}`;
     const envLines = envContent.split("\n");
     let keyExists = false;
 
     const updatedLines = envLines.map((line) => {
-      if (line.startsWith("GEMINI_API_KEY=")) {
+      if (line.startsWith(`${envKey}=`)) {
         keyExists = true;
         return keyLine;
       }
@@ -65,44 +106,140 @@ export class ConfigService {
   }
 
   /**
-   * Read Gemini API key from .env file
+   * Read a provider API key from .env file, falling back to process.env
    *
    * @returns API key string, or empty string if not set
    */
-  getApiKey(): string {
-    if (!fs.existsSync(this.envPath)) {
-      return "";
-    }
+  getApiKey(provider: AIProviderId): string {
+    const envKey = API_KEY_ENV_NAMES[provider];
+    if (!envKey) return "";
 
-    const envContent = fs.readFileSync(this.envPath, "utf8");
-    const lines = envContent.split("\n");
+    if (fs.existsSync(this.envPath)) {
+      const envContent = fs.readFileSync(this.envPath, "utf8");
+      const lines = envContent.split("\n");
 
-    for (const line of lines) {
-      if (line.startsWith("GEMINI_API_KEY=")) {
-        const parts = line.split("=");
-        if (parts.length >= 2 && parts[1].trim()) {
-          return parts[1].trim();
+      for (const line of lines) {
+        if (line.startsWith(`${envKey}=`)) {
+          const parts = line.split("=");
+          if (parts.length >= 2 && parts[1].trim()) {
+            return parts[1].trim();
+          }
         }
       }
     }
 
-    return "";
+    return process.env[envKey] || "";
   }
 
   /**
-   * Remove Gemini API key from .env file
+   * Remove a provider API key from .env file
    */
-  removeApiKey(): void {
-    if (!fs.existsSync(this.envPath)) return;
+  removeApiKey(provider: AIProviderId): void {
+    const envKey = API_KEY_ENV_NAMES[provider];
+    if (!envKey || !fs.existsSync(this.envPath)) return;
 
     const envContent = fs.readFileSync(this.envPath, "utf8");
     const updatedLines = envContent
       .split("\n")
-      .filter((line) => !line.startsWith("GEMINI_API_KEY="));
+      .filter((line) => !line.startsWith(`${envKey}=`));
 
     fs.writeFileSync(this.envPath, updatedLines.join("\n"), "utf8");
   }
 
+  /**
+   * Global AI provider settings plus the stored keys
+   */
+  getAiSettings(): AISettings {
+    const settings = this.getProviderSettings();
+    const apiKeys: Record<AIProviderId, string> = {
+      gemini: this.getApiKey("gemini"),
+      openai: this.getApiKey("openai"),
+      fake: "",
+    };
+
+    return {
+      ...settings,
+      apiKeys,
+      isConfigured: this.isProviderConfigured(settings, apiKeys),
+    };
+  }
+
+  /**
+   * Save global AI provider settings (keys are saved with saveApiKey)
+   */
+  saveAiSettings(settings: AIProviderSettings): void {
+    if (!AI_PROVIDERS.includes(settings.provider)) {
+      throw new Error(`Unknown AI provider: ${settings.provider}`);
+    }
+
+    const normalized: AIProviderSettings = {
+      provider: settings.provider,
+      model: settings.model.trim(),
+      baseUrl: settings.baseUrl.trim(),
+      transcriptionModel: settings.transcriptionModel.trim(),
+      embeddingModel: (settings.embeddingModel ?? "").trim(),
+    };
+
+    this.setSetting("ai_provider", JSON.stringify(normalized));
+  }
+
+  /**
+   * Build the provider for a podcast (podcast override > global setting)
+   *
+   * @param podcast - Podcast whose override applies, or null for global
+   */
+  createProviderFor(podcast: Podcast | null): AIProvider {
+    const settings = this.getProviderSettings();
+
+    if (podcast?.ai_provider) {
+      // A different provider than the global one: its own default model
+      // unless the podcast also picks a model
+      if (podcast.ai_provider !== settings.provider) {
+        settings.model = "";
+      }
+      settings.provider = podcast.ai_provider;
+    }
+    if (podcast?.ai_model) {
+      settings.model = podcast.ai_model;
+    }
+
+    return createProvider(settings, this.getApiKey(settings.provider));
+  }
+
+  private getProviderSettings(): AIProviderSettings {
+    const defaults: AIProviderSettings = {
+      provider: "gemini",
+      model: "",
+      baseUrl: "",
+      transcriptionModel: "",
+      embeddingModel: "",
+    };
+
+    const raw = this.getSetting("ai_provider");
+    if (!raw) return defaults;
+
+    try {
+      return { ...defaults, ...JSON.parse(raw) };
+    } catch {
+      return defaults;
+    }
+  }
+
+  private isProviderConfigured(
+    settings: AIProviderSettings,
+    apiKeys: Record<AIProviderId, string>,
+  ): boolean {
+    switch (settings.provider) {
+      case "gemini":
+        return !!apiKeys.gemini;
+      case "openai":
+        // Local servers usually need no key, only a custom base URL
+        return !!apiKeys.openai || !!settings.baseUrl;
+      case "fake":
+        return true;
+    }
+  }
+
   /**
    * Get the .env file path (for UI display)
    */
@@ -110,6 +247,172 @@ export class ConfigService {
     return this.envPath;
   }
 
+  /**
+   * Read a raw setting value
+   *
+   * @returns Stored value, or null if the key was never set
+   */
+  getSetting(key: string): string | null {
+    const row = this.db.getSetting.get(key) as { value: string } | undefined;
+    return row ? row.value : null;
+  }
+
+  /**
+   * Write a raw setting value
+   */
+  setSetting(key: string, value: string): void {
+    this.db.setSetting.run(key, value);
+  }
+
+  /**
+   * Max number of summary jobs processed at the same time (1-4, default 1)
+   */
+  getSummaryConcurrency(): number {
+    const value = parseInt(this.getSetting("summary_concurrency") ?? "", 10);
+    if (Number.isNaN(value)) return 1;
+    return Math.min(Math.max(value, 1), 4);
+  }
+
+  setSummaryConcurrency(concurrency: number): void {
+    if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > 4) {
+      throw new Error("Concurrency must be an integer between 1 and 4");
+    }
+    this.setSetting("summary_concurrency", String(concurrency));
+  }
+
+  /**
+   * Free-form Markdown summaries, or structured JSON fields (default Markdown)
+   */
+  getSummaryFormat(): SummaryFormat {
+    return this.getSetting("summary_format") === "structured"
+      ? "structured"
+      : "markdown";
+  }
+
+  setSummaryFormat(format: SummaryFormat): void {
+    if (format !== "markdown" && format !== "structured") {
+      throw new Error(`Unknown summary format: ${format}`);
+    }
+    this.setSetting("summary_format", format);
+  }
+
+  /**
+   * Whether summary prompts end with the episode's show notes as extra
+   * context (default off; templates can still use {{show_notes}})
+   */
+  getShowNotesContext(): boolean {
+    return this.getSetting("show_notes_context") === "1";
+  }
+
+  setShowNotesContext(enabled: boolean): void {
+    this.setSetting("show_notes_context", enabled ? "1" : "0");
+  }
+
+  /**
+   * Language summaries are written in, unless a podcast overrides it
+   */
+  getSummaryLanguage(): string {
+    return this.getSetting("summary_language") || DEFAULT_SUMMARY_LANGUAGE;
+  }
+
+  setSummaryLanguage(language: string): void {
+    const value = language.trim();
+    if (!value) {
+      throw new Error("Summary language is required");
+    }
+    this.setSetting("summary_language", value);
+  }
+
+  /**
+   * Summary language for a podcast (podcast override > global)
+   */
+  getSummaryLanguageFor(podcast: Podcast | null): string {
+    return podcast?.summary_language || this.getSummaryLanguage();
+  }
+
+  /**
+   * Daily / monthly usage limits checked before each summary job
+   * (no limits by default)
+   */
+  getUsageLimits(): UsageLimits {
+    const defaults: UsageLimits = {
+      daily: { ...NO_USAGE_LIMIT },
+      monthly: { ...NO_USAGE_LIMIT },
+      warnAtPercent: 80,
+    };
+
+    const raw = this.getSetting("usage_limits");
+    if (!raw) return defaults;
+
+    try {
+      const stored = JSON.parse(raw) as Partial<UsageLimits>;
+      return {
+        daily: { ...defaults.daily, ...stored.daily },
+        monthly: { ...defaults.monthly, ...stored.monthly },
+        warnAtPercent: stored.warnAtPercent ?? defaults.warnAtPercent,
+      };
+    } catch {
+      return defaults;
+    }
+  }
+
+  setUsageLimits(limits: UsageLimits): void {
+    const normalize = (limit: UsageLimit): UsageLimit => {
+      const result = { ...NO_USAGE_LIMIT };
+      for (const metric of Object.keys(result) as (keyof UsageLimit)[]) {
+        const value = limit?.[metric] ?? null;
+        if (value !== null && (!Number.isFinite(value) || value < 0)) {
+          throw new Error("Usage limits must be non-negative numbers");
+        }
+        result[metric] = value;
+      }
+      return result;
+    };
+
+    const { warnAtPercent } = limits;
+    if (
+      !Number.isInteger(warnAtPercent) ||
+      warnAtPercent < 1 ||
+      warnAtPercent > 100
+    ) {
+      throw new Error("Warning threshold must be an integer between 1 and 100");
+    }
+
+    this.setSetting(
+      "usage_limits",
+      JSON.stringify({
+        daily: normalize(limits.daily),
+        monthly: normalize(limits.monthly),
+        warnAtPercent,
+      }),
+    );
+  }
+
+  /**
+   * Background feed refresh interval and battery pause (hourly by default)
+   */
+  getFeedRefreshSettings(): FeedRefreshSettings {
+    const raw = this.getSetting("feed_refresh");
+    if (!raw) return { ...DEFAULT_FEED_REFRESH };
+
+    try {
+      return { ...DEFAULT_FEED_REFRESH, ...JSON.parse(raw) };
+    } catch {
+      return { ...DEFAULT_FEED_REFRESH };
+    }
+  }
+
+  setFeedRefreshSettings(settings: FeedRefreshSettings): void {
+    const { intervalMinutes, pauseOnBattery } = settings;
+    if (!Number.isInteger(intervalMinutes) || intervalMinutes < 0) {
+      throw new Error("Refresh interval must be a whole number of minutes");
+    }
+    this.setSetting(
+      "feed_refresh",
+      JSON.stringify({ intervalMinutes, pauseOnBattery: !!pauseOnBattery }),
+    );
+  }
+
   /**
    * Get database statistics for debugging
    */
@@ -0,0 +1,215 @@
+import { DatabaseManager } from "../database/index.js";
+import type {
+  Document,
+  StructuredSummary,
+  SummaryUsage,
+} from "../../shared/types.js";
+
+export type NewSummaryUsage = Omit<
+  SummaryUsage,
+  "id" | "document_id" | "episode_id" | "is_failed" | "created_at"
+>;
+
+export interface VersionDetails {
+  usage?: NewSummaryUsage; // What generating it cost
+  language?: string | null; // Target language of a translation
+  structured?: StructuredSummary | null; // Fields behind the Markdown
+  label?: string | null; // Lens (prompt template) that produced it
+  primary?: boolean; // false = keep the current primary (other lenses of a run)
+}
+
+/**
+ * DocumentService - Summary Version History
+ *
+ * Responsibilities:
+ * - Append every generated summary as a new version (never overwrite)
+ * - Keep exactly one primary version per episode
+ * - Pin / restore / delete individual versions
+ * - Record the token usage and estimated cost of each generated version,
+ *   and of runs that failed or were cancelled before saving one
+ * - Tag translated versions with their language
+ * - Keep the JSON fields of structured summaries next to their Markdown
+ * - Label versions with the lens (prompt template) that produced them
+ *
+ * Version rules:
+ * - A new version becomes primary, unless the current primary is pinned
+ *   (or it is not the first lens of a multi-lens run)
+ * - Pinned versions cannot be deleted (unpin first)
+ * - Deleting the primary version promotes the newest remaining version
+ */
+export class DocumentService {
+  constructor(private db: DatabaseManager) {}
+
+  /**
+   * Persist a newly generated summary as the latest version
+   *
+   * @param details - Usage, translation language, structured fields and
+   *   lens label, stored alongside the document
+   * @returns The new document ID
+   */
+  saveVersion(
+    episodeId: string,
+    content: string,
+    usedPrompt: string | null,
+    details: VersionDetails = {},
+  ): string {
+    const {
+      usage,
+      language = null,
+      structured = null,
+      label = null,
+      primary: makePrimary = true,
+    } = details;
+
+    return this.db.transaction(() => {
+      const primary = this.db.getPrimaryDocumentByEpisode.get(episodeId) as
+        | Document
+        | undefined;
+
+      const documentId = this.db.generateId();
+      const now = this.db.now();
+      this.db.insertDocument.run(
+        documentId,
+        episodeId,
+        content,
+        now,
+        usedPrompt,
+        language,
+        structured && JSON.stringify(structured),
+        label,
+      );
+
+      if (usage) {
+        this.db.insertSummaryUsage.run({
+          ...usage,
+          id: this.db.generateId(),
+          document_id: documentId,
+          episode_id: episodeId,
+          is_failed: 0,
+          created_at: now,
+        });
+      }
+
+      if (!primary || (makePrimary && !primary.is_pinned)) {
+        this.db.clearPrimaryDocument.run(episodeId);
+        this.db.markDocumentPrimary.run(documentId);
+      }
+
+      return documentId;
+    });
+  }
+
+  /**
+   * Record what a run that saved no version spent (failed or cancelled),
+   * so usage totals include it
+   */
+  recordFailedUsage(episodeId: string, usage: NewSummaryUsage): void {
+    this.db.insertSummaryUsage.run({
+      ...usage,
+      id: this.db.generateId(),
+      document_id: null,
+      episode_id: episodeId,
+      is_failed: 1,
+      created_at: this.db.now(),
+    });
+  }
+
+  /**
+   * Get all versions for an episode (newest first)
+   *
+   * @param episodeId - Episode ID
+   * @returns Array of documents
+   */
+  getDocuments(episodeId: string): Document[] {
+    return this.db.getDocumentsByEpisode.all(episodeId) as Document[];
+  }
+
+  /**
+   * Get the primary version of every summarized episode in a podcast
+   */
+  getDocumentsByPodcast(
+    podcastId: string,
+  ): (Document & { episode_title: string; episode_pub_date: string })[] {
+    return this.db.getDocumentsByPodcast.all(podcastId) as (Document & {
+      episode_title: string;
+      episode_pub_date: string;
+    })[];
+  }
+
+  /**
+   * Check if episode has any summaries
+   *
+   * @param episodeId - Episode ID
+   * @returns True if has summaries
+   */
+  hasSummaries(episodeId: string): boolean {
+    const result = this.db.hasDocuments.get(episodeId) as
+      | { count: number }
+      | undefined;
+    return (result?.count || 0) > 0;
+  }
+
+  /**
+   * Restore a version: make it the primary document of its episode
+   *
+   * @param documentId - Document ID
+   */
+  setPrimary(documentId: string): void {
+    const document = this.requireDocument(documentId);
+
+    this.db.transaction(() => {
+      this.db.clearPrimaryDocument.run(document.episode_id);
+      this.db.markDocumentPrimary.run(documentId);
+    });
+  }
+
+  /**
+   * Pin or unpin a version
+   *
+   * @param documentId - Document ID
+   * @param pinned - True to pin
+   */
+  setPinned(documentId: string, pinned: boolean): void {
+    this.requireDocument(documentId);
+    this.db.updateDocumentPinned.run(pinned ? 1 : 0, documentId);
+  }
+
+  /**
+   * Delete a specific version
+   *
+   * @param documentId - Document ID
+   */
+  deleteSummary(documentId: string): void {
+    const document = this.db.getDocumentById.get(documentId) as
+      | Document
+      | undefined;
+    if (!document) return;
+
+    if (document.is_pinned) {
+      throw new Error("Pinned versions cannot be deleted. Unpin it first.");
+    }
+
+    this.db.transaction(() => {
+      this.db.deleteDocument.run(documentId);
+
+      if (document.is_primary) {
+        const latest = this.db.getLatestDocumentByEpisode.get(
+          document.episode_id,
+        ) as Document | undefined;
+        if (latest) {
+          this.db.markDocumentPrimary.run(latest.id);
+        }
+      }
+    });
+  }
+
+  private requireDocument(documentId: string): Document {
+    const document = this.db.getDocumentById.get(documentId) as
+      | Document
+      | undefined;
+    if (!document) {
+      throw new Error(`Document ${documentId} not found`);
+    }
+    return document;
+  }
+}
@@ -0,0 +1,350 @@
+import { DatabaseManager } from "../database/index.js";
+import { ConfigService } from "./ConfigService.js";
+import { TranscriptService } from "./TranscriptService.js";
+import type { AIProvider } from "../providers/index.js";
+import type {
+  Document,
+  RelatedEpisode,
+  TranscriptSegment,
+} from "../../shared/types.js";
+
+// Texts sent per embedding request
+const EMBED_BATCH_SIZE = 32;
+const MAX_SUMMARY_CHUNK_CHARS = 1500;
+const MAX_TRANSCRIPT_CHUNK_CHARS = 1000;
+
+interface Chunk {
+  text: string;
+  startTime: number | null;
+}
+
+export interface EmbeddingMatch {
+  source: "summary" | "transcript";
+  document_id: string | null;
+  start_time: number | null;
+  text: string;
+  episode_id: string;
+  episode_title: string;
+  episode_pub_date: string;
+  podcast_id: string;
+  podcast_title: string;
+  score: number;
+}
+
+export interface EmbeddingFilters {
+  podcastId: string | null;
+  from: string | null;
+  to: string | null;
+}
+
+type EpisodeRow = Omit<RelatedEpisode, "score">;
+
+/**
+ * EmbeddingService - Vectors for semantic search
+ *
+ * Responsibilities:
+ * - Embed primary summaries and transcript chunks with the global AI
+ *   provider and store the vectors in SQLite (embeddings table)
+ * - Index in the background whatever is missing for the current embedding
+ *   model (after summaries, settings changes and at startup)
+ * - Nearest-neighbour lookups for semantic search and related episodes
+ *
+ * Vectors are normalized before storage, so cosine similarity is a dot
+ * product. Lookups scan every vector of the current model in memory, which
+ * is fast enough for a personal library.
+ */
+export class EmbeddingService {
+  private indexing = false;
+  private indexAgain = false;
+
+  constructor(
+    private db: DatabaseManager,
+    private config: ConfigService,
+    private transcripts: TranscriptService,
+  ) {}
+
+  /**
+   * Embed everything not yet indexed with the current model. Safe to call
+   * repeatedly: concurrent calls fold into one more pass. Never rejects;
+   * failures are logged and retried on the next call.
+   */
+  async indexPending(): Promise<void> {
+    if (this.indexing) {
+      this.indexAgain = true;
+      return;
+    }
+
+    this.indexing = true;
+    try {
+      do {
+        this.indexAgain = false;
+        await this.indexPass();
+      } while (this.indexAgain);
+    } catch (error) {
+      console.error("Embedding index update failed:", error);
+    } finally {
+      this.indexing = false;
+    }
+  }
+
+  /**
+   * Most similar episodes by primary summary
+   *
+   * @param episodeId - Episode to compare against
+   * @param limit - Max results
+   */
+  getRelatedEpisodes(episodeId: string, limit = 5): RelatedEpisode[] {
+    const model = this.currentModelKey();
+    if (!model) return [];
+
+    const rows = this.db.getSummaryEmbeddings.all(model) as (EpisodeRow & {
+      vector: Buffer;
+    })[];
+
+    // A long summary has several chunks: average them per episode
+    const episodes = new Map<string, { info: EpisodeRow; sum: Float32Array }>();
+    for (const { vector, ...info } of rows) {
+      const values = fromBlob(vector);
+      const entry = episodes.get(info.episode_id);
+      if (!entry) {
+        episodes.set(info.episode_id, { info, sum: Float32Array.from(values) });
+      } else if (entry.sum.length === values.length) {
+        values.forEach((value, i) => (entry.sum[i] += value));
+      }
+    }
+
+    const target = episodes.get(episodeId);
+    if (!target) return [];
+    const targetVector = normalize(target.sum);
+
+    return [...episodes.values()]
+      .filter((entry) => entry.info.episode_id !== episodeId)
+      .map((entry) => ({
+        ...entry.info,
+        score: dot(targetVector, normalize(entry.sum)),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Chunks closest in meaning to a query
+   *
+   * @param query - Free-form text
+   * @param filters - Podcast / publication date filters
+   * @param limit - Max results
+   */
+  async search(
+    query: string,
+    filters: EmbeddingFilters,
+    limit: number,
+  ): Promise<EmbeddingMatch[]> {
+    const provider = this.config.createProviderFor(null);
+    const model = modelKey(provider);
+
+    const [queryVector] = await provider.embed([query]);
+    const target = normalize(Float32Array.from(queryVector));
+
+    const matches: EmbeddingMatch[] = [];
+    for (const row of this.db.getSearchableEmbeddings.iterate({
+      ...filters,
+      model,
+    }) as Iterable<Omit<EmbeddingMatch, "score"> & { vector: Buffer }>) {
+      const { vector, ...match } = row;
+      const values = fromBlob(vector);
+      if (values.length !== target.length) continue;
+      matches.push({ ...match, score: dot(target, values) });
+    }
+
+    if (matches.length === 0 && this.hasPendingEpisodes(model)) {
+      void this.indexPending();
+      throw new Error(
+        "The semantic index is still being built. Try again in a moment.",
+      );
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  private async indexPass(): Promise<void> {
+    let provider: AIProvider;
+    try {
+      provider = this.config.createProviderFor(null);
+    } catch {
+      return; // Not configured yet; indexed once settings are saved
+    }
+    const model = modelKey(provider);
+
+    const episodes = this.db.getEpisodesNeedingEmbeddings.all({
+      model,
+    }) as { id: string }[];
+    if (episodes.length === 0) return;
+
+    console.log(`Embedding ${episodes.length} episode(s) with ${model}`);
+
+    for (const { id } of episodes) {
+      try {
+        await this.indexEpisode(provider, model, id);
+      } catch (error) {
+        // Most failures (quota, network, wrong model) affect every episode
+        console.error(`Embedding failed for episode ${id}:`, error);
+        return;
+      }
+    }
+  }
+
+  private async indexEpisode(
+    provider: AIProvider,
+    model: string,
+    episodeId: string,
+  ): Promise<void> {
+    const summary = this.db.getPrimaryDocumentByEpisode.get(episodeId) as
+      Document | undefined;
+    if (summary && !this.db.hasDocumentEmbedding.get(summary.id, model)) {
+      const chunks = chunkSummary(summary.content);
+      const vectors = await this.embedChunks(provider, chunks);
+      this.store(episodeId, summary.id, "summary", model, chunks, vectors);
+    }
+
+    const transcript = this.transcripts.getTranscript(episodeId);
+    if (
+      transcript &&
+      transcript.segments.length > 0 &&
+      !this.db.hasTranscriptEmbeddings.get(episodeId, model)
+    ) {
+      const chunks = chunkTranscript(transcript.segments);
+      const vectors = await this.embedChunks(provider, chunks);
+      this.store(episodeId, null, "transcript", model, chunks, vectors);
+    }
+  }
+
+  private async embedChunks(
+    provider: AIProvider,
+    chunks: Chunk[],
+  ): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + EMBED_BATCH_SIZE);
+      vectors.push(...(await provider.embed(batch.map((c) => c.text))));
+    }
+    return vectors;
+  }
+
+  private store(
+    episodeId: string,
+    documentId: string | null,
+    source: "summary" | "transcript",
+    model: string,
+    chunks: Chunk[],
+    vectors: number[][],
+  ): void {
+    const now = this.db.now();
+
+    this.db.transaction(() => {
+      // Summary vectors of older primaries and other models go too
+      this.db.deleteEmbeddingsBySource.run(episodeId, source);
+      chunks.forEach((chunk, index) => {
+        this.db.insertEmbedding.run(
+          episodeId,
+          documentId,
+          source,
+          index,
+          chunk.startTime,
+          chunk.text,
+          model,
+          toBlob(normalize(Float32Array.from(vectors[index]))),
+          now,
+        );
+      });
+    });
+  }
+
+  private currentModelKey(): string | null {
+    try {
+      return modelKey(this.config.createProviderFor(null));
+    } catch {
+      return null;
+    }
+  }
+
+  private hasPendingEpisodes(model: string): boolean {
+    return !!this.db.getEpisodesNeedingEmbeddings.get({ model });
+  }
+}
+
+function modelKey(provider: AIProvider): string {
+  return `${provider.id}:${provider.embeddingModel}`;
+}
+
+/**
+ * Split a Markdown summary at paragraph boundaries
+ */
+function chunkSummary(content: string): Chunk[] {
+  const chunks: Chunk[] = [];
+  let current = "";
+
+  for (const paragraph of content.split(/\n{2,}/)) {
+    const text = paragraph.trim();
+    if (!text) continue;
+
+    if (current && current.length + text.length > MAX_SUMMARY_CHUNK_CHARS) {
+      chunks.push({ text: current, startTime: null });
+      current = "";
+    }
+    current = current
+      ? `${current}\n\n${text}`
+      : text.slice(0, MAX_SUMMARY_CHUNK_CHARS);
+  }
+
+  if (current) chunks.push({ text: current, startTime: null });
+  return chunks;
+}
+
+/**
+ * Group consecutive transcript segments into windows, keeping the start
+ * time of the first segment so hits can link to a timestamp
+ */
+function chunkTranscript(segments: TranscriptSegment[]): Chunk[] {
+  const chunks: Chunk[] = [];
+  let text = "";
+  let startTime = 0;
+
+  for (const seg of segments) {
+    const segText = seg.text.trim();
+    if (!segText) continue;
+
+    if (text && text.length + segText.length > MAX_TRANSCRIPT_CHUNK_CHARS) {
+      chunks.push({ text, startTime });
+      text = "";
+    }
+    if (!text) startTime = seg.start;
+    text = text ? `${text} ${segText}` : segText;
+  }
+
+  if (text) chunks.push({ text, startTime });
+  return chunks;
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm) || 1;
+  return vector.map((value) => value / norm);
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function toBlob(vector: Float32Array): Buffer {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+function fromBlob(blob: Buffer): Float32Array {
+  // Copy: SQLite buffers are not guaranteed to be 4-byte aligned
+  return new Float32Array(
+    blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength),
+  );
+}
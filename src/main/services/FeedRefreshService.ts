@@ -0,0 +1,142 @@
+import { powerMonitor } from "electron";
+import { PodcastService } from "./PodcastService.js";
+import { AutoSummarizeService } from "./AutoSummarizeService.js";
+import { ConfigService } from "./ConfigService.js";
+import type { EventEmitterFn } from "./SummaryQueueService.js";
+import type { Podcast, FeedSyncResult } from "../../shared/types.js";
+
+// How often the scheduler looks for feeds that are due
+const CHECK_INTERVAL_MS = 60 * 1000;
+// Pause between two scheduled feed requests, so they are not sent at once
+const STAGGER_MS = 5 * 1000;
+
+/**
+ * FeedRefreshService - Scheduled background feed refresh
+ *
+ * Responsibilities:
+ * - Re-sync subscribed podcasts once their refresh interval has passed
+ *   (per podcast interval > global interval; 0 = never)
+ * - Send scheduled requests one at a time, STAGGER_MS apart
+ * - Skip scheduled refreshes while on battery power, if the setting is on
+ * - Sync a single podcast for manual and scheduled refreshes alike:
+ *   record a failure on the podcast (a success sets last_fetched_at),
+ *   run its auto-summarize rule and emit feed_synced
+ *
+ * A feed is due when neither its last success nor its last failure is
+ * more recent than its interval, so a failing feed is retried once per
+ * interval too.
+ *
+ * Only battery power pauses refreshes: Electron has no API that reports a
+ * metered connection (the renderer's navigator.connection does not say),
+ * so there is no metered-connection setting.
+ */
+export class FeedRefreshService {
+  private timer: NodeJS.Timeout | null = null;
+  // Set while a scheduled round of refreshes is in progress
+  private refreshing = false;
+
+  constructor(
+    private podcasts: PodcastService,
+    private autoSummarize: AutoSummarizeService,
+    private config: ConfigService,
+    private emit: EventEmitterFn,
+  ) {}
+
+  /**
+   * Start checking for due feeds. The first check runs after
+   * CHECK_INTERVAL_MS; the renderer already syncs every feed on startup.
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.refreshDue(), CHECK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Sync one podcast now
+   *
+   * @throws Error if the feed could not be fetched or parsed (the failure
+   *   is recorded on the podcast first)
+   */
+  async refreshPodcast(podcast: Podcast): Promise<FeedSyncResult> {
+    try {
+      const result = await this.podcasts.syncPodcast(podcast.feed_url);
+      this.autoSummarize.handleNewEpisodes(result.podcastId, result.added);
+      this.emit({
+        type: "feed_synced",
+        podcastId: result.podcastId,
+        newCount: result.newCount,
+        updatedCount: result.updated.length,
+        removedCount: result.removed.length,
+      });
+      if (result.newCount > 0 || result.removed.length > 0) {
+        console.log(
+          `Synced ${podcast.title}: ${result.newCount} new, ` +
+            `${result.updated.length} updated, ${result.removed.length} removed`,
+        );
+      }
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.podcasts.recordSyncFailure(podcast.id, message);
+      throw error;
+    }
+  }
+
+  private isPaused(): boolean {
+    const { pauseOnBattery } = this.config.getFeedRefreshSettings();
+    return pauseOnBattery && powerMonitor.isOnBatteryPower();
+  }
+
+  private async refreshDue(): Promise<void> {
+    if (this.refreshing || this.isPaused()) return;
+
+    const { intervalMinutes } = this.config.getFeedRefreshSettings();
+    const now = Date.now();
+    const due = this.podcasts
+      .getAllPodcasts()
+      .filter((podcast) => isDue(podcast, intervalMinutes, now));
+    if (due.length === 0) return;
+
+    this.refreshing = true;
+    console.log(`Scheduled refresh of ${due.length} feed(s)`);
+    try {
+      for (const [index, podcast] of due.entries()) {
+        if (index > 0) {
+          await new Promise((resolve) => setTimeout(resolve, STAGGER_MS));
+          // The power source may change during a long round, and the
+          // app may be quitting (stopped)
+          if (!this.timer || this.isPaused()) break;
+        }
+        try {
+          await this.refreshPodcast(podcast);
+        } catch (error) {
+          console.error(`Scheduled refresh failed: ${podcast.title}`, error);
+        }
+      }
+    } finally {
+      this.refreshing = false;
+    }
+  }
+}
+
+function isDue(
+  podcast: Podcast,
+  globalIntervalMinutes: number,
+  now: number,
+): boolean {
+  const interval = podcast.refresh_interval_minutes ?? globalIntervalMinutes;
+  if (!interval) return false;
+
+  const lastAttempt = Math.max(
+    Date.parse(podcast.last_fetched_at ?? "") || 0,
+    Date.parse(podcast.last_sync_error_at ?? "") || 0,
+  );
+  return now - lastAttempt >= interval * 60 * 1000;
+}
@@ -1,201 +1,313 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { GoogleAIFileManager, FileState } from "@google/generative-ai/server";
 import fs from "fs";
 import { DatabaseManager } from "../database/index.js";
 import { AudioService } from "./AudioService.js";
+import { DocumentService } from "./DocumentService.js";
+import { ConfigService } from "./ConfigService.js";
+import { TranscriptService } from "./TranscriptService.js";
+import { EmbeddingService } from "./EmbeddingService.js";
+import { PromptTemplateService } from "./PromptTemplateService.js";
+import type { SummaryLens } from "./PromptTemplateService.js";
+import type { NewSummaryUsage } from "./DocumentService.js";
+import {
+  parseStructuredSummary,
+  renderStructuredSummary,
+  structuredPrompt,
+  STRUCTURED_SUMMARY_SCHEMA,
+} from "./structuredSummary.js";
+import { formatTimestamp, formatTranscript } from "../providers/index.js";
+import type {
+  AIProvider,
+  AudioHandle,
+  SummarySource,
+  TokenUsage,
+} from "../providers/index.js";
 import type {
   Podcast,
   Episode,
   Document,
+  AudioChunk,
   AudioProvisionResult,
+  StructuredSummary,
+  SummaryProgress,
+  TranscriptSegment,
+  UsageLimitMetric,
+  UsageLimitPeriod,
+  UsageLimitStatus,
 } from "../../shared/types.js";
-import type { GenerativeModel } from "@google/generative-ai";
+import { UsageLimitError } from "../../shared/types.js";
+
+// Longer episodes are summarized in parts that are merged afterwards
+const MAX_SINGLE_PASS_SECONDS = 90 * 60;
+const CHUNK_SECONDS = 45 * 60;
+// Chunks are cut at frame boundaries, so stay a bit below the upload limit
+const CHUNK_SIZE_MARGIN = 0.9;
+// Duration estimate for feeds that do not report one (128 kbps MP3)
+const FALLBACK_BYTES_PER_SECOND = 128000 / 8;
+
+const USAGE_LIMIT_PERIODS: UsageLimitPeriod[] = ["daily", "monthly"];
+const USAGE_LIMIT_METRICS: UsageLimitMetric[] = [
+  "tokens",
+  "audioHours",
+  "cost",
+];
+
+export type SummaryProgressFn = (progress: SummaryProgress) => void;
+
+export interface GenerateSummaryOptions {
+  onProgress?: SummaryProgressFn; // Called as each chunk is processed
+  onPartial?: (markdownSoFar: string) => void; // Final document as it streams
+  signal?: AbortSignal; // Cancels download, upload, polling and generation
+  onUsageWarning?: (status: UsageLimitStatus) => void; // Near a usage limit
+  templateIds?: string[]; // Prompt templates (lenses) picked for this run
+}
+
+// Per-run settings resolved once when the run starts
+interface RunOptions extends GenerateSummaryOptions {
+  structured: boolean; // Final step returns JSON fields (structured mode)
+  lenses: SummaryLens[]; // One document is generated per lens
+  lensUsage: LensUsage[]; // Usage of each lens's own requests, by index
+}
+
+// Tokens and estimated cost of the requests made for one lens
+interface LensUsage extends TokenUsage {
+  cost: number;
+}
+
+interface FinalSummary {
+  markdown: string;
+  structured: StructuredSummary | null;
+}
+
+interface TimeRange {
+  start: number; // seconds
+  end: number; // seconds
+}
 
 /**
  * GeminiService - Flow C: AI Summary Pipeline
  *
  * Responsibilities:
- * - Upload audio to Gemini Files API
- * - Poll until file is ACTIVE
- * - Generate AI summary with custom/default prompt
- * - Persist markdown to documents table
+ * - Resolve the AI provider for the episode's podcast (ConfigService)
+ * - Hand the audio to the provider (upload for Gemini, local file otherwise)
+ * - Transcribe the audio once and store it (TranscriptService)
+ * - Generate AI summary with the run's / podcast's prompt template
+ *   (PromptTemplateService); several templates ("lenses") in one run share
+ *   the audio and transcript, and each is saved as its own labeled document
+ * - Reuse a stored transcript instead of the audio when one exists
+ * - Split long episodes into time-based chunks, summarize each chunk and
+ *   merge the partial summaries (map-reduce), reporting per-chunk progress
+ * - Stream the final document's text while it is generated; only the
+ *   complete text is saved
+ * - Structured mode: the final step returns JSON fields (guests, topics,
+ *   action items, ...) that are stored with their Markdown rendering
+ * - Persist markdown as a new document version (DocumentService)
+ * - Translate an existing summary into another language as a new version,
+ *   from its text alone (no audio or transcript)
+ * - Queue the new summary / transcript for embedding (EmbeddingService)
+ * - Stop at the next await when the job's AbortSignal fires (cancellation)
+ * - Refuse to start once a daily / monthly usage limit is used up
  * - **CRITICAL**: Cleanup remote file and temp local file in finally block
  *
+ * The Gemini specifics (Files API upload, polling) live in GeminiProvider;
+ * this service only orchestrates the pipeline for whichever provider is set.
+ *
+ * Scheduling (one-at-a-time vs. parallel runs) is owned by SummaryQueueService;
+ * generateSummary itself holds no global lock.
+ *
  * Cleanup Strategy:
- * - ALWAYS delete Gemini remote file (saves quota)
+ * - ALWAYS release provider-side audio (saves quota)
  * - ALWAYS delete temp local file if ephemeral (frees disk space)
- * - Use try...finally to ensure cleanup even on error
+ * - ALWAYS delete chunk files (each one as soon as it is done)
+ * - Use try...finally to ensure cleanup even on error or cancellation
  */
 export class GeminiService {
-  private genAI: GoogleGenerativeAI;
-  private fileManager: GoogleAIFileManager;
-  private model: GenerativeModel;
-  private isGenerating: boolean = false;
-  private generatingEpisodeId: string | null = null;
-
   constructor(
     private db: DatabaseManager,
     private audioService: AudioService,
-    apiKey: string,
-  ) {
-    this.genAI = new GoogleGenerativeAI(apiKey);
-    this.fileManager = new GoogleAIFileManager(apiKey);
-    this.model = this.genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
-  }
-
-  /**
-   * Update API key at runtime (called when user saves a new key)
-   */
-  updateApiKey(apiKey: string): void {
-    this.genAI = new GoogleGenerativeAI(apiKey);
-    this.fileManager = new GoogleAIFileManager(apiKey);
-    this.model = this.genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
-  }
-
-  /**
-   * Check if a summary generation is in progress for a specific episode
-   */
-  isGeneratingEpisode(episodeId: string): boolean {
-    return this.isGenerating && this.generatingEpisodeId === episodeId;
-  }
-
-  /**
-   * Get current generating status
-   */
-  getGeneratingStatus(): { isGenerating: boolean; episodeId: string | null } {
-    return {
-      isGenerating: this.isGenerating,
-      episodeId: this.generatingEpisodeId,
-    };
-  }
-
-  /**
-   * Mark generation as started
-   */
-  private startGeneration(episodeId: string): boolean {
-    if (this.isGenerating) {
-      return false;
-    }
-    this.isGenerating = true;
-    this.generatingEpisodeId = episodeId;
-    return true;
-  }
-
-  /**
-   * Mark generation as completed (success or failure)
-   */
-  completeGeneration(): void {
-    this.isGenerating = false;
-    this.generatingEpisodeId = null;
-  }
+    private documents: DocumentService,
+    private config: ConfigService,
+    private transcripts: TranscriptService,
+    private embeddings: EmbeddingService,
+    private prompts: PromptTemplateService,
+  ) {}
 
   /**
    * Generate AI summary for an episode
    *
    * Flow:
-   * 1. Provision audio (Flow B)
-   * 2. Upload to Gemini Files API
-   * 3. Poll until state is ACTIVE
-   * 4. Generate content with prompt
-   * 5. Persist to DB
+   * 0. Check usage limits (throws UsageLimitError before any work)
+   * 1. Resolve provider (podcast override > global)
+   * 2. Get the prompt of every lens (template variables substituted)
+   * 3. Summarize the stored transcript if there is one, otherwise:
+   *    a. Provision audio (Flow B)
+   *    b. Split it into chunks if it is too long or too large for the provider
+   *    c. Prepare audio for the provider (upload + wait until ACTIVE for Gemini)
+   *    d. Transcribe and store the transcript (best-effort)
+   *    e. Summarize the audio once per lens, before it is released
+   * 4. Merge partial summaries when the episode was processed in chunks
+   *    (in structured mode the last request returns JSON)
+   * 5. Persist one document per lens, with token usage and estimated cost
+   *    (the first lens becomes the primary version)
+   *    A failed or cancelled run records what it spent without a document.
    * 6. **CRITICAL**: Cleanup in finally block
    *
    * @param episodeId - Episode ID
-   * @returns Markdown summary
+   * @param options - Progress / streaming callbacks and abort signal
+   * @returns Markdown summary of the first lens
    */
-  async generateSummary(episodeId: string): Promise<string> {
-    let geminiFileUri: string | null = null;
-    let geminiFileName: string | null = null;
+  async generateSummary(
+    episodeId: string,
+    options: GenerateSummaryOptions = {},
+  ): Promise<string> {
+    const { onProgress, signal } = options;
+    let provider: AIProvider | null = null;
+    let audio: AudioHandle | null = null;
     let localAudio: AudioProvisionResult | null = null;
-
-    // Mark generation as started
-    const started = this.startGeneration(episodeId);
-    if (!started) {
-      throw new Error("ALREADY_GENERATING");
-    }
+    let chunks: AudioChunk[] = [];
+    let audioSeconds: number | null = null;
+    let usageSaved = false;
 
     try {
-      // Step 1: Provision audio (Flow B)
-      localAudio = await this.audioService.provisionAudio(episodeId);
-
-      // Validate file size (Gemini limit is 2GB)
-      const stats = fs.statSync(localAudio.path);
-      const fileSizeMB = stats.size / (1024 * 1024);
-
-      if (fileSizeMB > 2000) {
-        throw new Error(
-          `File too large: ${fileSizeMB.toFixed(2)}MB (max 2000MB)`,
-        );
+      // Step 0: Spending limits, checked against usage recorded so far
+      this.checkUsageLimits(options.onUsageWarning);
+
+      // Step 1: Resolve provider before any download/upload work
+      provider = this.config.createProviderFor(this.getPodcast(episodeId));
+      console.log(`Using provider ${provider.id} (${provider.model})`);
+
+      // Step 2: Get prompts (run templates > podcast prompt > default)
+      const lenses = this.prompts.resolveLenses(episodeId, options.templateIds);
+      const run: RunOptions = {
+        ...options,
+        structured: this.config.getSummaryFormat() === "structured",
+        lenses,
+        lensUsage: lenses.map(() => ({
+          inputTokens: 0,
+          outputTokens: 0,
+          cost: 0,
+        })),
+      };
+
+      // Step 3: Stored transcript (no download/upload needed) or audio.
+      // The publisher's transcript from the feed is imported first if the
+      // episode has none yet.
+      let summaries: FinalSummary[];
+      let transcript = this.transcripts.getTranscript(episodeId);
+      if (
+        !transcript?.segments.length &&
+        (await this.importPublisherTranscript(episodeId, signal))
+      ) {
+        transcript = this.transcripts.getTranscript(episodeId);
       }
 
-      // Step 2: Upload to Gemini Files API
-      console.log(`Uploading audio file (${fileSizeMB.toFixed(2)}MB)...`);
-      const uploadResult = await this.fileManager.uploadFile(localAudio.path, {
-        mimeType: "audio/mpeg",
-        displayName: `episode-${episodeId}`,
-      });
-
-      geminiFileUri = uploadResult.file.uri;
-      geminiFileName = uploadResult.file.name;
+      if (transcript && transcript.segments.length > 0) {
+        console.log("Using stored transcript");
+        summaries = await this.summarizeTranscript(
+          provider,
+          transcript.segments,
+          run,
+        );
+      } else {
+        // Step 3a: Provision audio (Flow B)
+        localAudio = await this.audioService.provisionAudio(episodeId, signal);
+
+        const { size } = fs.statSync(localAudio.path);
+        const fileSizeMB = size / (1024 * 1024);
+        const duration =
+          this.getDuration(episodeId) || size / FALLBACK_BYTES_PER_SECOND;
+        audioSeconds = duration;
+
+        // Step 3b: Split what a single request cannot handle. Only MP3 can
+        // be split; other formats go in one pass if the provider takes them.
+        let chunkCount = countChunks(size, duration, provider.maxAudioBytes);
+        if (chunkCount > 1 && !this.audioService.isMP3(localAudio.path)) {
+          if (size > provider.maxAudioBytes) {
+            throw new Error(
+              `Cannot split this audio format, and the file (${fileSizeMB.toFixed(2)}MB) is over the ${provider.id} upload limit of ${(provider.maxAudioBytes / (1024 * 1024)).toFixed(0)}MB`,
+            );
+          }
+          console.warn("Audio is not MP3, summarizing it in a single pass");
+          chunkCount = 1;
+        }
 
-      if (!geminiFileName) {
-        throw new Error("Upload failed: no file name returned");
+        if (chunkCount > 1) {
+          console.log(
+            `Splitting audio (${fileSizeMB.toFixed(2)}MB) into ${chunkCount} chunks...`,
+          );
+          chunks = await this.audioService.splitAudio(
+            localAudio.path,
+            chunkCount,
+            duration,
+          );
+          summaries = await this.summarizeAudioChunks(
+            episodeId,
+            provider,
+            chunks,
+            run,
+          );
+        } else {
+          // Step 3c: Make audio available to the provider
+          onProgress?.({ stage: "transcribing", chunk: 1, totalChunks: 1 });
+          console.log(`Preparing audio file (${fileSizeMB.toFixed(2)}MB)...`);
+          audio = await provider.prepareAudio(
+            localAudio.path,
+            `episode-${episodeId}`,
+            signal,
+          );
+
+          // Step 3d: Transcribe while the audio is available
+          const segments = await this.transcribe(provider, audio, signal);
+          if (segments) {
+            this.saveTranscript(episodeId, provider, segments);
+          }
+
+          // Step 3e: Generate content, every lens from the same audio
+          onProgress?.({ stage: "summarizing", chunk: 1, totalChunks: 1 });
+          summaries = await this.summarizeLenses(provider, { audio }, run);
+        }
       }
 
-      console.log(`Uploaded: ${geminiFileName}`);
-
-      // Step 3: Poll until file is ACTIVE (max 60 seconds)
-      await this.pollUntilActive(geminiFileName, 60000);
-
-      // Step 4: Get prompt (custom or default)
-      const prompt = this.getPrompt(episodeId);
-
-      // Step 5: Generate content
-      console.log("Generating summary...");
-      const result = await this.model.generateContent([
-        prompt,
-        {
-          fileData: {
-            fileUri: geminiFileUri,
-            mimeType: "audio/mpeg",
-          },
-        },
-      ]);
+      // Cancelled during the last call: do not save a version. A failed
+      // stream never gets here, so partial text is never saved either.
+      signal?.throwIfAborted();
 
-      const markdown = result.response.text();
-
-      // Step 6: Persist to DB (delete old summary first, then insert new)
-      this.db.transaction(() => {
-        this.db.deleteDocumentsByEpisode.run(episodeId);
-        this.db.insertDocument.run(
-          this.db.generateId(),
+      // Step 5: Persist to DB as new versions (previous versions are kept),
+      // with what this job's provider calls cost
+      const usages = splitUsage(provider, run.lensUsage, audioSeconds);
+      usageSaved = true;
+      for (const [index, lens] of lenses.entries()) {
+        this.documents.saveVersion(
           episodeId,
-          markdown,
-          this.db.now(),
-          prompt,
+          summaries[index].markdown,
+          lens.prompt,
+          {
+            usage: usages[index],
+            structured: summaries[index].structured,
+            label: lens.label,
+            primary: index === 0,
+          },
         );
-      });
+      }
 
-      console.log("Summary generated and saved to database");
+      console.log(`${lenses.length} summary version(s) saved to database`);
 
-      return markdown;
+      // Semantic index is refreshed in the background
+      void this.embeddings.indexPending();
+
+      return summaries[0].markdown;
+    } catch (error) {
+      // What earlier requests (and chunks) spent still counts toward usage
+      if (provider && !usageSaved) {
+        this.recordFailedUsage(episodeId, provider, audioSeconds);
+      }
+      throw error;
     } finally {
       // ===== CRITICAL: CLEANUP SECTION =====
       // This MUST execute regardless of success or failure
 
-      // Reset generating status
-      this.completeGeneration();
-
-      // Cleanup 1: Delete remote Gemini file (saves quota)
-      if (geminiFileName) {
-        try {
-          console.log(`Deleting remote file: ${geminiFileName}`);
-          await this.fileManager.deleteFile(geminiFileName);
-          console.log("Remote file deleted");
-        } catch (err) {
-          console.error("Failed to delete Gemini file:", err);
-          // Don't throw - cleanup should be best-effort
-        }
+      // Cleanup 1: Release provider-side audio (deletes Gemini remote file)
+      if (provider && audio) {
+        await this.releaseAudio(provider, audio);
       }
 
       // Cleanup 2: Delete local temp file if ephemeral (frees disk space)
@@ -209,57 +321,477 @@ export class GeminiService {
           // Don't throw - cleanup should be best-effort
         }
       }
+
+      // Cleanup 3: Delete chunk files left over by a failed chunk
+      for (const chunk of chunks) {
+        this.deleteChunkFile(chunk);
+      }
     }
   }
 
   /**
-   * Poll Gemini file until state is ACTIVE
+   * Translate a summary version into another language
    *
-   * @param fileName - Gemini file name
-   * @param maxWaitMs - Max wait time in milliseconds
+   * The translation is saved as a new version of the same episode (same
+   * primary / pinned rules as a regenerated summary), tagged with its
+   * language. Usage limits apply as for summaries.
+   *
+   * @param documentId - Version to translate
+   * @param language - Target language name, e.g. "English"
+   * @returns ID of the new version
    */
-  private async pollUntilActive(
-    fileName: string,
-    maxWaitMs: number,
-  ): Promise<void> {
-    const startTime = Date.now();
-    const pollInterval = 2000; // 2 seconds
+  async translateSummary(
+    documentId: string,
+    language: string,
+  ): Promise<string> {
+    const target = language.trim();
+    if (!target) {
+      throw new Error("Target language is required");
+    }
+
+    const document = this.db.getDocumentById.get(documentId) as
+      | Document
+      | undefined;
+    if (!document) {
+      throw new Error(`Document ${documentId} not found`);
+    }
+
+    this.checkUsageLimits();
+    const provider = this.config.createProviderFor(
+      this.getPodcast(document.episode_id),
+    );
+    console.log(`Translating summary into ${target} (${provider.model})...`);
+
+    const prompt = translatePrompt(target);
+    let markdown: string;
+    try {
+      markdown = await provider.summarize(prompt, { text: document.content });
+    } catch (error) {
+      this.recordFailedUsage(document.episode_id, provider, null);
+      throw error;
+    }
+
+    const translationId = this.documents.saveVersion(
+      document.episode_id,
+      markdown,
+      prompt,
+      {
+        usage: {
+          provider: provider.id,
+          model: provider.model,
+          input_tokens: provider.usage.inputTokens,
+          output_tokens: provider.usage.outputTokens,
+          audio_seconds: null,
+          estimated_cost: provider.estimateCost(),
+        },
+        language: target,
+      },
+    );
 
-    let elapsed = Date.now() - startTime;
-    while (elapsed < maxWaitMs) {
-      const file = await this.fileManager.getFile(fileName);
+    void this.embeddings.indexPending();
+    return translationId;
+  }
 
-      console.log(`File state: ${file.state}`);
+  /**
+   * Record the usage of a run that saved no version; runs that spent
+   * nothing leave no row
+   */
+  private recordFailedUsage(
+    episodeId: string,
+    provider: AIProvider,
+    audioSeconds: number | null,
+  ): void {
+    const { inputTokens, outputTokens } = provider.usage;
+    const cost = provider.estimateCost();
+    if (inputTokens === 0 && outputTokens === 0 && !cost) return;
+
+    try {
+      this.documents.recordFailedUsage(episodeId, {
+        provider: provider.id,
+        model: provider.model,
+        input_tokens: inputTokens,
+        output_tokens: outputTokens,
+        audio_seconds: audioSeconds,
+        estimated_cost: cost,
+      });
+    } catch (error) {
+      // Never hide the run's own error
+      console.error("Failed to record usage of a failed run:", error);
+    }
+  }
+
+  /**
+   * Map step for long audio: transcribe and summarize one chunk at a time
+   *
+   * Only one chunk is uploaded at any moment, and its remote and local
+   * copies are deleted before the next one starts (after every lens has
+   * summarized it). The chunk transcripts are stored as one transcript
+   * with episode-relative timestamps.
+   */
+  private async summarizeAudioChunks(
+    episodeId: string,
+    provider: AIProvider,
+    chunks: AudioChunk[],
+    options: RunOptions,
+  ): Promise<FinalSummary[]> {
+    const { onProgress, signal, lenses } = options;
+    // Partial summaries of each lens, by lens index
+    const partials: string[][] = lenses.map(() => []);
+    const segments: TranscriptSegment[] = [];
+    let transcriptComplete = true;
+
+    for (const [index, chunk] of chunks.entries()) {
+      signal?.throwIfAborted();
+      const position = { chunk: index + 1, totalChunks: chunks.length };
+      onProgress?.({ stage: "transcribing", ...position });
+      console.log(
+        `Preparing chunk ${position.chunk}/${position.totalChunks} (${formatTimestamp(chunk.start)}–${formatTimestamp(chunk.end)})...`,
+      );
+
+      const audio = await provider.prepareAudio(
+        chunk.path,
+        `episode-${episodeId}-part${position.chunk}`,
+        signal,
+      );
+      try {
+        const chunkSegments = await this.transcribe(provider, audio, signal);
+        if (chunkSegments) {
+          segments.push(
+            ...chunkSegments.map((seg) => ({
+              ...seg,
+              start: seg.start + chunk.start,
+              end: seg.end + chunk.start,
+            })),
+          );
+        } else {
+          transcriptComplete = false;
+        }
 
-      if (file.state === FileState.ACTIVE) {
-        return;
+        onProgress?.({ stage: "summarizing", ...position });
+        for (const [lensIndex, lens] of lenses.entries()) {
+          partials[lensIndex].push(
+            await this.measure(provider, options.lensUsage[lensIndex], () =>
+              provider.summarize(
+                partPrompt(lens.prompt, index, chunks.length, chunk),
+                { audio },
+                { signal },
+              ),
+            ),
+          );
+        }
+      } finally {
+        await this.releaseAudio(provider, audio);
+        this.deleteChunkFile(chunk);
       }
+    }
+
+    // A transcript with gaps would later be reused as if it were complete
+    if (transcriptComplete) {
+      this.saveTranscript(episodeId, provider, segments);
+    }
+
+    return this.mergePartials(provider, partials, chunks, options);
+  }
 
-      if (file.state === FileState.FAILED) {
-        throw new Error("Gemini file processing failed");
+  /**
+   * Summarize a stored transcript, in time-based parts when it is long
+   */
+  private async summarizeTranscript(
+    provider: AIProvider,
+    segments: TranscriptSegment[],
+    options: RunOptions,
+  ): Promise<FinalSummary[]> {
+    const { onProgress, signal, lenses } = options;
+    const parts = splitSegments(segments);
+
+    if (parts.length === 1) {
+      onProgress?.({ stage: "summarizing", chunk: 1, totalChunks: 1 });
+      return this.summarizeLenses(
+        provider,
+        { text: formatTranscript(segments) },
+        options,
+      );
+    }
+
+    const ranges: TimeRange[] = parts.map((part) => ({
+      start: part[0].start,
+      end: part[part.length - 1].end,
+    }));
+
+    const partials: string[][] = lenses.map(() => []);
+    for (const [index, part] of parts.entries()) {
+      onProgress?.({
+        stage: "summarizing",
+        chunk: index + 1,
+        totalChunks: parts.length,
+      });
+      console.log(`Summarizing part ${index + 1}/${parts.length}...`);
+      for (const [lensIndex, lens] of lenses.entries()) {
+        partials[lensIndex].push(
+          await this.measure(provider, options.lensUsage[lensIndex], () =>
+            provider.summarize(
+              partPrompt(lens.prompt, index, parts.length, ranges[index]),
+              { text: formatTranscript(part) },
+              { signal },
+            ),
+          ),
+        );
       }
+    }
+
+    return this.mergePartials(provider, partials, ranges, options);
+  }
 
-      // Wait before next poll
-      await new Promise((resolve) => setTimeout(resolve, pollInterval));
-      elapsed = Date.now() - startTime;
+  /**
+   * Reduce step: merge each lens's partial summaries into one document
+   * following its original prompt (only this step streams: the parts are
+   * not shown)
+   */
+  private async mergePartials(
+    provider: AIProvider,
+    partials: string[][],
+    ranges: TimeRange[],
+    options: RunOptions,
+  ): Promise<FinalSummary[]> {
+    const { onProgress, lenses } = options;
+    onProgress?.({
+      stage: "merging",
+      chunk: ranges.length,
+      totalChunks: ranges.length,
+    });
+    console.log(`Merging ${ranges.length} partial summaries...`);
+
+    const merged: FinalSummary[] = [];
+    for (const [lensIndex, lens] of lenses.entries()) {
+      const text = partials[lensIndex]
+        .map(
+          (partial, index) =>
+            `# Part ${index + 1} (${formatRange(ranges[index])})\n\n${partial}`,
+        )
+        .join("\n\n---\n\n");
+
+      merged.push(
+        await this.measure(provider, options.lensUsage[lensIndex], () =>
+          this.summarizeFinal(
+            provider,
+            mergePrompt(lens.prompt),
+            { text },
+            options,
+          ),
+        ),
+      );
     }
+    return merged;
+  }
 
-    throw new Error(
-      `Timeout waiting for file to become ACTIVE (${maxWaitMs}ms)`,
-    );
+  /**
+   * Generate the document of every lens from the same source, one after
+   * the other (the audio stays prepared until the last one is done)
+   */
+  private async summarizeLenses(
+    provider: AIProvider,
+    source: SummarySource,
+    options: RunOptions,
+  ): Promise<FinalSummary[]> {
+    const { lenses } = options;
+    const summaries: FinalSummary[] = [];
+
+    for (const [index, lens] of lenses.entries()) {
+      console.log(
+        lens.label
+          ? `Generating summary (${lens.label}, ${index + 1}/${lenses.length})...`
+          : "Generating summary...",
+      );
+      summaries.push(
+        await this.measure(provider, options.lensUsage[index], () =>
+          this.summarizeFinal(provider, lens.prompt, source, options),
+        ),
+      );
+    }
+    return summaries;
+  }
+
+  /**
+   * The request that produces the document: Markdown streamed through
+   * onPartial, or in structured mode a JSON object (not streamed, it is
+   * not readable while incomplete) rendered to Markdown
+   */
+  private async summarizeFinal(
+    provider: AIProvider,
+    prompt: string,
+    source: SummarySource,
+    { signal, onPartial, structured }: RunOptions,
+  ): Promise<FinalSummary> {
+    if (!structured) {
+      const markdown = await provider.summarize(prompt, source, {
+        signal,
+        onPartial,
+      });
+      return { markdown, structured: null };
+    }
+
+    const json = await provider.summarize(structuredPrompt(prompt), source, {
+      signal,
+      json: STRUCTURED_SUMMARY_SCHEMA,
+    });
+    const fields = parseStructuredSummary(json);
+    return { markdown: renderStructuredSummary(fields), structured: fields };
   }
 
   /**
-   * Get prompt for AI summary generation
+   * Transcribe prepared audio
    *
-   * Priority:
-   * 1. Podcast custom prompt
-   * 2. Default prompt
+   * Best-effort: a failed transcription is logged and the summary still runs
+   * on the audio; the next run will try to transcribe again. Cancellation
+   * is not a failure and is rethrown.
    *
-   * @param episodeId - Episode ID
-   * @returns Prompt string
+   * @returns Segments, or null if transcription failed
+   */
+  private async transcribe(
+    provider: AIProvider,
+    audio: AudioHandle,
+    signal?: AbortSignal,
+  ): Promise<TranscriptSegment[] | null> {
+    try {
+      console.log("Transcribing...");
+      return await provider.transcribe(audio, signal);
+    } catch (err) {
+      signal?.throwIfAborted();
+      console.error("Failed to transcribe audio:", err);
+      return null;
+    }
+  }
+
+  /**
+   * Run provider requests made for one lens and add what they used to its
+   * usage (lenses run one after the other, so the difference is theirs)
+   */
+  private async measure<T>(
+    provider: AIProvider,
+    usage: LensUsage,
+    call: () => Promise<T>,
+  ): Promise<T> {
+    const inputTokens = provider.usage.inputTokens;
+    const outputTokens = provider.usage.outputTokens;
+    const cost = provider.estimateCost() ?? 0;
+    try {
+      return await call();
+    } finally {
+      usage.inputTokens += provider.usage.inputTokens - inputTokens;
+      usage.outputTokens += provider.usage.outputTokens - outputTokens;
+      usage.cost += (provider.estimateCost() ?? 0) - cost;
+    }
+  }
+
+  /**
+   * Import the transcript the feed lists, if any. A failed import falls
+   * back to the audio instead of failing the job.
+   */
+  private async importPublisherTranscript(
+    episodeId: string,
+    signal?: AbortSignal,
+  ): Promise<boolean> {
+    try {
+      return await this.transcripts.importPublisherTranscript(
+        episodeId,
+        signal,
+      );
+    } catch (error) {
+      signal?.throwIfAborted();
+      console.warn("Publisher transcript import failed, using audio:", error);
+      return false;
+    }
+  }
+
+  private saveTranscript(
+    episodeId: string,
+    provider: AIProvider,
+    segments: TranscriptSegment[],
+  ): void {
+    if (segments.length === 0) return;
+    this.transcripts.saveTranscript(
+      episodeId,
+      segments,
+      provider.id,
+      provider.model,
+    );
+    console.log(`Transcript saved (${segments.length} segments)`);
+  }
+
+  private async releaseAudio(
+    provider: AIProvider,
+    audio: AudioHandle,
+  ): Promise<void> {
+    try {
+      await provider.releaseAudio(audio);
+    } catch (err) {
+      console.error("Failed to release provider audio:", err);
+      // Don't throw - cleanup should be best-effort
+    }
+  }
+
+  private deleteChunkFile(chunk: AudioChunk): void {
+    try {
+      fs.rmSync(chunk.path, { force: true });
+    } catch (err) {
+      console.error("Failed to delete chunk file:", err);
+    }
+  }
+
+  /**
+   * Throw UsageLimitError if any usage limit is used up, otherwise report
+   * the limit closest to being reached once it passes the warning threshold
    */
-  private getPrompt(episodeId: string): string {
+  private checkUsageLimits(
+    onWarning?: (status: UsageLimitStatus) => void,
+  ): void {
+    const limits = this.config.getUsageLimits();
+    const now = new Date();
+    const statuses: UsageLimitStatus[] = [];
+
+    for (const period of USAGE_LIMIT_PERIODS) {
+      const { start, resetAt } = periodBounds(period, now);
+      const used = this.db.getUsageSince.get(start.toISOString()) as Record<
+        UsageLimitMetric,
+        number
+      >;
+
+      for (const metric of USAGE_LIMIT_METRICS) {
+        const limit = limits[period][metric];
+        if (limit === null) continue;
+        statuses.push({
+          period,
+          metric,
+          used: used[metric],
+          limit,
+          resetAt: resetAt.toISOString(),
+        });
+      }
+    }
+
+    const exceeded = statuses.filter((status) => status.used >= status.limit);
+    if (exceeded.length > 0) {
+      // Jobs can only resume once every exhausted limit has reset
+      const status = exceeded.reduce((a, b) => (b.resetAt > a.resetAt ? b : a));
+      throw new UsageLimitError(describeUsageLimit(status), status);
+    }
+
+    // No limit is used up here, so every limit is above zero
+    const share = (status: UsageLimitStatus) => status.used / status.limit;
+    const closest = statuses.sort((a, b) => share(b) - share(a))[0];
+    if (closest && share(closest) * 100 >= limits.warnAtPercent) {
+      onWarning?.(closest);
+    }
+  }
+
+  private getDuration(episodeId: string): number {
+    const episode = this.db.getEpisodeById.get(episodeId) as
+      | Episode
+      | undefined;
+    return episode?.duration ?? 0;
+  }
+
+  private getPodcast(episodeId: string): Podcast | null {
     const episode = this.db.getEpisodeById.get(episodeId) as
       | Episode
       | undefined;
@@ -271,91 +803,143 @@ export class GeminiService {
     const podcast = this.db.getPodcastById.get(episode.podcast_id) as
       | Podcast
       | undefined;
+    return podcast ?? null;
+  }
+}
 
-    // Use custom prompt if available
-    if (podcast?.custom_prompt) {
-      return podcast.custom_prompt;
-    }
+/**
+ * Number of chunks needed so that each one is short enough for a single
+ * model request and small enough for the provider's upload limit
+ */
+function countChunks(
+  sizeBytes: number,
+  durationSeconds: number,
+  maxAudioBytes: number,
+): number {
+  const byDuration =
+    durationSeconds > MAX_SINGLE_PASS_SECONDS
+      ? Math.ceil(durationSeconds / CHUNK_SECONDS)
+      : 1;
+  const bySize = Math.ceil(sizeBytes / (maxAudioBytes * CHUNK_SIZE_MARGIN));
+  return Math.max(byDuration, bySize, 1);
+}
 
-    // Default prompt (Traditional Chinese, ~500 characters)
-    return `你是一個專業的 Podcast 摘要助手。請完整分析音頻內容，並依據以下結構生成摘要：
-
-## 節目資訊
-- 節目名稱
-- 主持人與嘉賓（如有）
-- 本集主題或標題
-
-## 重點議題
-詳細列出本期討論的主要主題與子主題。對於每個主題，說明：
-- 該主題的背景與脈絡
-- 主持人或嘉賓的核心觀點
-- 不同觀點之間的比較與碰撞
-- 討論的深入程度與範圍
-
-## 核心洞見
-歸納本期最具價值的洞見與啟發：
-- 解決了什麼問題或回答了什麼疑問
-- 提供了什麼新知識或新視角
-- 對聽眾可能產生的影響與啟發
-- 與當前趨勢或時事的關聯性
-
-## 行動建議
-列出所有可執行的建議與下一步行動：
-- 具體的行動步驟
-- 可以嘗試的方法或工具
-- 推薦的相關資源、書籍或網站
-- 值得追蹤的議題或人物
-
-## 關鍵字詞與概念
-3-5 個核心關鍵字詞，解釋每個詞在本集脈絡中的含義，幫助快速理解本期內容的核心概念。
-
-## 整體評價
-簡短評價本期內容的：
-- 內容品質與深度
-- 對目標受眾的價值
-- 有哪些值得一听的精彩時刻
-
-確保涵蓋本期內容的精髓，讓未收聽的讀者也能獲得 格式輸出，保持完整理解。使用 Markdown簡潔清晰的風格。`;
+/**
+ * Group transcript segments into CHUNK_SECONDS windows, or a single group
+ * when the whole transcript fits in one pass
+ */
+function splitSegments(segments: TranscriptSegment[]): TranscriptSegment[][] {
+  const last = segments[segments.length - 1];
+  if (last.end <= MAX_SINGLE_PASS_SECONDS) {
+    return [segments];
   }
 
-  /**
-   * Get all documents (summaries) for an episode
-   *
-   * @param episodeId - Episode ID
-   * @returns Array of documents
-   */
-  getDocuments(episodeId: string): Document[] {
-    return this.db.getDocumentsByEpisode.all(episodeId) as Document[];
+  const parts: TranscriptSegment[][] = [];
+  for (const seg of segments) {
+    const current = parts[parts.length - 1];
+    if (!current || seg.start - current[0].start >= CHUNK_SECONDS) {
+      parts.push([seg]);
+    } else {
+      current.push(seg);
+    }
   }
+  return parts;
+}
 
-  getDocumentsByPodcast(
-    podcastId: string,
-  ): (Document & { episode_title: string; episode_pub_date: string })[] {
-    return this.db.getDocumentsByPodcast.all(podcastId) as (Document & {
-      episode_title: string;
-      episode_pub_date: string;
-    })[];
-  }
+/**
+ * Usage recorded with each lens's document: its own requests, and on the
+ * first lens also the shared ones (transcription) and the audio length,
+ * so that the documents of a run add up to what the run used
+ */
+function splitUsage(
+  provider: AIProvider,
+  lensUsage: LensUsage[],
+  audioSeconds: number | null,
+): NewSummaryUsage[] {
+  const totalCost = provider.estimateCost();
+  const shared = lensUsage.reduce(
+    (rest, usage) => ({
+      inputTokens: rest.inputTokens - usage.inputTokens,
+      outputTokens: rest.outputTokens - usage.outputTokens,
+      cost: rest.cost - usage.cost,
+    }),
+    { ...provider.usage, cost: totalCost ?? 0 },
+  );
+
+  return lensUsage.map((usage, index) => {
+    const first = index === 0;
+    return {
+      provider: provider.id,
+      model: provider.model,
+      input_tokens: usage.inputTokens + (first ? shared.inputTokens : 0),
+      output_tokens: usage.outputTokens + (first ? shared.outputTokens : 0),
+      audio_seconds: first ? audioSeconds : null,
+      // Unknown model prices stay unknown for every lens
+      estimated_cost:
+        totalCost === null ? null : usage.cost + (first ? shared.cost : 0),
+    };
+  });
+}
 
-  /**
-   * Check if episode has any summaries
-   *
-   * @param episodeId - Episode ID
-   * @returns True if has summaries
-   */
-  hasSummaries(episodeId: string): boolean {
-    const result = this.db.hasDocuments.get(episodeId) as
-      | { count: number }
-      | undefined;
-    return (result?.count || 0) > 0;
-  }
+function formatRange(range: TimeRange): string {
+  return `${formatTimestamp(range.start)}–${formatTimestamp(range.end)}`;
+}
 
-  /**
-   * Delete a specific summary
-   *
-   * @param documentId - Document ID
-   */
-  deleteSummary(documentId: string) {
-    this.db.deleteDocument.run(documentId);
+function partPrompt(
+  prompt: string,
+  index: number,
+  total: number,
+  range: TimeRange,
+): string {
+  return `${prompt}
+
+---
+This is part ${index + 1} of ${total} of the episode (${formatRange(range)}).
+Summarize only this part; the partial summaries are merged afterwards.`;
+}
+
+function mergePrompt(prompt: string): string {
+  return `${prompt}
+
+---
+The input is not the episode itself but summaries of its consecutive parts.
+Merge them into one summary of the whole episode that follows the
+instructions above. Remove repetition and do not mention the parts.`;
+}
+
+function translatePrompt(language: string): string {
+  return `Translate the following podcast summary into ${language}.
+Keep the Markdown structure, headings, timestamps, names and numbers.
+Reply with the translated summary only.`;
+}
+
+/**
+ * Start of the current daily / monthly period and when the next one
+ * begins, in local time
+ */
+function periodBounds(
+  period: UsageLimitPeriod,
+  now: Date,
+): { start: Date; resetAt: Date } {
+  if (period === "daily") {
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const resetAt = new Date(start);
+    resetAt.setDate(resetAt.getDate() + 1);
+    return { start, resetAt };
   }
+  return {
+    start: new Date(now.getFullYear(), now.getMonth(), 1),
+    resetAt: new Date(now.getFullYear(), now.getMonth() + 1, 1),
+  };
+}
+
+function describeUsageLimit(status: UsageLimitStatus): string {
+  const period = status.period === "daily" ? "Daily" : "Monthly";
+  const amount = (value: number) =>
+    status.metric === "cost"
+      ? `$${value.toFixed(2)}`
+      : status.metric === "audioHours"
+        ? `${value.toFixed(1)} audio hours`
+        : `${Math.round(value)} tokens`;
+  return `${period} usage limit reached (${amount(status.used)} of ${amount(status.limit)})`;
 }
@@ -0,0 +1,240 @@
+import { DatabaseManager } from "../database/index.js";
+import { ConfigService } from "./ConfigService.js";
+import { TranscriptService } from "./TranscriptService.js";
+import { formatTimestamp } from "../providers/index.js";
+import type {
+  LibraryAnswer,
+  LibrarySource,
+  TranscriptSegment,
+} from "../../shared/types.js";
+
+interface LibraryDocument {
+  id: string;
+  episode_id: string;
+  content: string;
+  created_at: string;
+  episode_title: string;
+  episode_pub_date: string;
+  podcast_id: string;
+  podcast_title: string;
+}
+
+const MAX_SOURCES = 8;
+const MAX_SUMMARY_CHARS = 4000;
+const MAX_EXCERPTS_PER_SOURCE = 6;
+
+const STOPWORDS = new Set([
+  "the",
+  "and",
+  "for",
+  "are",
+  "was",
+  "what",
+  "when",
+  "where",
+  "which",
+  "who",
+  "how",
+  "why",
+  "have",
+  "has",
+  "had",
+  "about",
+  "this",
+  "that",
+  "these",
+  "those",
+  "with",
+  "from",
+  "into",
+  "my",
+  "our",
+  "your",
+  "their",
+  "did",
+  "does",
+  "said",
+  "say",
+  "says",
+  "any",
+  "all",
+  "shows",
+  "show",
+  "episode",
+  "episodes",
+  "podcast",
+  "podcasts",
+]);
+
+/**
+ * LibraryQAService - Questions across the whole knowledge base
+ *
+ * Responsibilities:
+ * - Find the summaries/transcripts most relevant to a question
+ * - Ask the global AI provider for an answer synthesized from them
+ * - Return numbered sources so the UI can link back to each episode
+ *
+ * Retrieval is keyword scoring over primary summaries, episode titles and
+ * stored transcripts; only the best matches are sent to the model.
+ */
+export class LibraryQAService {
+  constructor(
+    private db: DatabaseManager,
+    private config: ConfigService,
+    private transcripts: TranscriptService,
+  ) {}
+
+  /**
+   * Answer a question from the library
+   *
+   * @param question - Free-form question
+   * @param signal - Aborts the model request
+   */
+  async ask(question: string, signal?: AbortSignal): Promise<LibraryAnswer> {
+    const trimmed = question.trim();
+    if (!trimmed) {
+      throw new Error("Question is empty");
+    }
+
+    const documents = this.db.getLibraryDocuments.all() as LibraryDocument[];
+    if (documents.length === 0) {
+      throw new Error("The knowledge base is empty. Generate summaries first.");
+    }
+
+    const provider = this.config.createProviderFor(null);
+    const terms = tokenize(trimmed);
+
+    const ranked = documents
+      .map((doc) => {
+        const segments =
+          this.transcripts.getTranscript(doc.episode_id)?.segments ?? [];
+        return { doc, segments, score: this.score(doc, segments, terms) };
+      })
+      .filter((entry) => entry.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_SOURCES);
+
+    if (ranked.length === 0) {
+      return {
+        question: trimmed,
+        answer: "No summaries or transcripts in your library mention this.",
+        sources: [],
+      };
+    }
+
+    const sources: LibrarySource[] = ranked.map(({ doc }, index) => ({
+      ref: index + 1,
+      document_id: doc.id,
+      episode_id: doc.episode_id,
+      podcast_id: doc.podcast_id,
+      podcast_title: doc.podcast_title,
+      episode_title: doc.episode_title,
+      episode_pub_date: doc.episode_pub_date,
+    }));
+
+    const context = ranked
+      .map(({ doc, segments }, index) =>
+        this.formatSource(index + 1, doc, segments, terms),
+      )
+      .join("\n\n---\n\n");
+
+    const answer = await provider.chat(
+      [
+        {
+          role: "system",
+          content: [
+            "You answer questions about the user's podcast library.",
+            `Today is ${new Date().toISOString().slice(0, 10)}.`,
+            "Use only the numbered sources below. Synthesize across podcasts and point out disagreements.",
+            "Cite sources inline as [1], [2] and transcript timestamps as [mm:ss] where helpful.",
+            "If the sources do not answer the question, say so.",
+            "Reply in the language of the question, using Markdown.",
+            "",
+            context,
+          ].join("\n"),
+        },
+        { role: "user", content: trimmed },
+      ],
+      signal,
+    );
+
+    return { question: trimmed, answer, sources };
+  }
+
+  private score(
+    doc: LibraryDocument,
+    segments: TranscriptSegment[],
+    terms: string[],
+  ): number {
+    const title = doc.episode_title.toLowerCase();
+    const summary = doc.content.toLowerCase();
+    const transcript = segments.map((seg) => seg.text.toLowerCase()).join(" ");
+
+    let score = 0;
+    for (const term of terms) {
+      // Titles and summaries are denser than transcripts
+      score += countOccurrences(title, term) * 5;
+      score += countOccurrences(summary, term) * 2;
+      score += Math.min(countOccurrences(transcript, term), 20);
+    }
+    return score;
+  }
+
+  private formatSource(
+    ref: number,
+    doc: LibraryDocument,
+    segments: TranscriptSegment[],
+    terms: string[],
+  ): string {
+    const excerpts = segments
+      .filter((seg) => {
+        const text = seg.text.toLowerCase();
+        return terms.some((term) => text.includes(term));
+      })
+      .slice(0, MAX_EXCERPTS_PER_SOURCE)
+      .map((seg) => `[${formatTimestamp(seg.start)}] ${seg.text}`);
+
+    const lines = [
+      `[${ref}] ${doc.podcast_title} — ${doc.episode_title} (${doc.episode_pub_date.slice(0, 10)})`,
+      "",
+      doc.content.slice(0, MAX_SUMMARY_CHARS),
+    ];
+    if (excerpts.length > 0) {
+      lines.push("", "Transcript excerpts:", ...excerpts);
+    }
+    return lines.join("\n");
+  }
+}
+
+/**
+ * Lowercased search terms; CJK runs become overlapping bigrams since they
+ * have no spaces between words
+ */
+function tokenize(text: string): string[] {
+  const terms = new Set<string>();
+
+  for (const word of text.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+    if (!word) continue;
+
+    if (/\p{Script=Han}|\p{Script=Hiragana}|\p{Script=Katakana}/u.test(word)) {
+      if (word.length === 1) terms.add(word);
+      for (let i = 0; i < word.length - 1; i++) {
+        terms.add(word.slice(i, i + 2));
+      }
+    } else if (word.length > 2 && !STOPWORDS.has(word)) {
+      terms.add(word);
+    }
+  }
+
+  return [...terms];
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    count++;
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return count;
+}
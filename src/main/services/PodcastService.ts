@@ -5,22 +5,47 @@ import axios from "axios";
 import { shell } from "electron";
 import { DatabaseManager } from "../database/index.js";
 import type {
-  RSSFeed,
+  RSSFetchResult,
   Podcast,
   Episode,
   PodcastSearchResult,
+  AIProviderId,
+  AutoSummarizeRule,
+  FeedSyncResult,
+  FeedFetchLogEntry,
+  EpisodeChapter,
 } from "../../shared/types.js";
+import {
+  FEED_FETCH_LOG_SIZE,
+  MAX_TITLE_PATTERN_LENGTH,
+} from "../../shared/types.js";
+import { parseChapters } from "./podcastNamespace.js";
+
+// A group containing + * or {n,} that is itself repeated, e.g. (a+)+
+const NESTED_QUANTIFIER =
+  /\((?:[^()\\]|\\.)*(?:[+*]|\{\d+,\d*\})(?:[^()\\]|\\.)*\)(?:[+*]|\{\d+,\d*\})/;
 
 /**
  * PodcastService - Flow A: Feed Ingestion & Synchronization
  *
  * Responsibilities:
- * - Fetch RSS XML via Worker Thread (non-blocking)
+ * - Fetch RSS XML via Worker Thread (non-blocking), conditionally with
+ *   the ETag / Last-Modified of the last full fetch; a 304 skips the upsert
+ * - Log every feed request (status, bytes, duration) per podcast
  * - Upsert podcast and episodes to database
  * - CRITICAL: Preserve is_downloaded and local_file_path on sync
+ * - Report which episodes a sync added, updated and removed
+ * - Flag episodes added to an existing subscription as new until viewed
+ * - Record failed syncs per feed (a successful one sets last_fetched_at)
+ * - Fetch and cache Podcasting 2.0 chapters files on first use
+ * - Run one sync per feed at a time (manual, scheduled and subscribe
+ *   requests for a feed that is already syncing share its result)
  * - Maintain data consistency with transactions
  */
 export class PodcastService {
+  // Syncs in progress, by feed URL
+  private syncing = new Map<string, Promise<FeedSyncResult>>();
+
   constructor(private db: DatabaseManager) {}
 
   /**
@@ -28,14 +53,65 @@ export class PodcastService {
    *
    * @param url - RSS feed URL
    * @param artworkUrl - Optional artwork URL from iTunes search
-   * @returns Podcast ID and count of episodes fetched
+   * @returns Podcast ID and the episodes the sync added, updated and
+   *   removed. Added episodes are flagged new, except on the first sync of
+   *   a feed (the back catalogue is not "new").
    */
-  async syncPodcast(
+  syncPodcast(
     url: string,
     artworkUrl?: string | null,
-  ): Promise<{ podcastId: string; newCount: number }> {
-    // Step 1: Parse RSS feed in worker thread (non-blocking)
-    const feed = await this.parseRSSInWorker(url);
+  ): Promise<FeedSyncResult> {
+    const running = this.syncing.get(url);
+    if (running) return running;
+
+    const sync = this.runSync(url, artworkUrl).finally(() =>
+      this.syncing.delete(url),
+    );
+    this.syncing.set(url, sync);
+    return sync;
+  }
+
+  private async runSync(
+    url: string,
+    artworkUrl?: string | null,
+  ): Promise<FeedSyncResult> {
+    // A soft-deleted feed is fetched in full, so re-subscribing restores it
+    const previous = this.db.getPodcastByFeedUrl.get(url) as
+      | Podcast
+      | undefined;
+    const validators = previous?.is_subscribed ? previous : undefined;
+
+    // Step 1: Fetch and parse RSS feed in worker thread (non-blocking)
+    const fetched = await this.fetchRSSInWorker(
+      url,
+      validators?.feed_etag ?? null,
+      validators?.feed_last_modified ?? null,
+    );
+
+    if (fetched.error) {
+      if (previous) this.logFetch(previous.id, fetched);
+      throw new Error(fetched.error);
+    }
+
+    // 304 Not Modified: nothing to parse or upsert
+    if (!fetched.feed) {
+      if (!validators) {
+        throw new Error("Feed answered 304 to an unconditional request");
+      }
+      this.db.transaction(() => {
+        this.db.markPodcastNotModified.run(this.db.now(), validators.id);
+        this.logFetch(validators.id, fetched);
+      });
+      return {
+        podcastId: validators.id,
+        newCount: 0,
+        notModified: true,
+        added: [],
+        updated: [],
+        removed: [],
+      };
+    }
+    const feed = fetched.feed;
 
     // Step 2: Upsert to database in a transaction (atomic)
     const result = this.db.transaction(() => {
@@ -56,22 +132,73 @@ export class PodcastService {
         this.db.now(),
         existing?.custom_prompt || null,
       );
+      this.db.updatePodcastFeedValidators.run(
+        fetched.etag,
+        fetched.lastModified,
+        podcastId,
+      );
+      this.logFetch(podcastId, fetched);
+
+      const known = new Map(
+        (this.db.getEpisodesByPodcast.all(podcastId) as Episode[]).map(
+          (episode) => [episode.id, episode],
+        ),
+      );
+      const added: string[] = [];
+      const updated: string[] = [];
+      const feedIds = new Set<string>();
 
-      // Upsert episodes (preserves is_downloaded and local_file_path)
+      // Upsert episodes (preserves is_downloaded, local_file_path and is_new)
       feed.episodes.forEach((ep) => {
-        this.db.upsertEpisode.run(
-          ep.guid,
-          podcastId,
-          ep.title,
-          ep.pub_date,
-          ep.duration,
-          ep.audio_url,
-        );
+        // Feeds occasionally repeat an item; count it once
+        if (feedIds.has(ep.guid)) return;
+        feedIds.add(ep.guid);
+
+        const current = known.get(ep.guid);
+        if (!current) {
+          added.push(ep.guid);
+        } else if (
+          current.title !== ep.title ||
+          current.duration !== ep.duration ||
+          current.audio_url !== ep.audio_url
+        ) {
+          updated.push(ep.guid);
+        }
+
+        this.db.upsertEpisode.run({
+          id: ep.guid,
+          podcast_id: podcastId,
+          title: ep.title,
+          pub_date: ep.pub_date,
+          duration: ep.duration,
+          audio_url: ep.audio_url,
+          is_new: existing ? 1 : 0,
+          transcript_url: ep.transcript_url ?? null,
+          transcript_type: ep.transcript_type ?? null,
+          chapters_url: ep.chapters_url ?? null,
+          persons: ep.persons?.length ? JSON.stringify(ep.persons) : null,
+          description: ep.description ?? null,
+          content_html: ep.content_html ?? null,
+          season: ep.season ?? null,
+          episode_number: ep.episode_number ?? null,
+          episode_type: ep.episode_type ?? null,
+          is_explicit:
+            ep.is_explicit === undefined || ep.is_explicit === null
+              ? null
+              : Number(ep.is_explicit),
+          artwork_url: ep.artwork_url ?? null,
+          enclosure_length: ep.enclosure_length ?? null,
+          enclosure_type: ep.enclosure_type ?? null,
+        });
       });
 
       return {
         podcastId,
-        newCount: feed.episodes.length,
+        newCount: added.length,
+        notModified: false,
+        added,
+        updated,
+        removed: [...known.keys()].filter((id) => !feedIds.has(id)),
       };
     });
 
@@ -79,13 +206,20 @@ export class PodcastService {
   }
 
   /**
-   * Parse RSS feed using Worker Thread to avoid blocking main thread
+   * Fetch and parse RSS feed using Worker Thread to avoid blocking main thread
    *
    * @param url - RSS feed URL
-   * @returns Parsed RSS feed data
-   * @throws Error if parsing fails or times out
+   * @param etag - Sent as If-None-Match (null = unconditional)
+   * @param lastModified - Sent as If-Modified-Since (null = unconditional)
+   * @returns Parsed feed (null for 304 Not Modified) and request details;
+   *   fetch and parse errors are returned in error
+   * @throws Error if the worker crashes or times out
    */
-  private parseRSSInWorker(url: string): Promise<RSSFeed> {
+  private fetchRSSInWorker(
+    url: string,
+    etag: string | null,
+    lastModified: string | null,
+  ): Promise<RSSFetchResult> {
     return new Promise((resolve, reject) => {
       const workerPath = path.join(
         __dirname,
@@ -93,14 +227,10 @@ export class PodcastService {
       );
       const worker = new Worker(workerPath);
 
-      worker.postMessage({ url });
+      worker.postMessage({ url, etag, lastModified });
 
-      worker.on("message", (result: RSSFeed | { error: string }) => {
-        if ("error" in result) {
-          reject(new Error(result.error));
-        } else {
-          resolve(result);
-        }
+      worker.on("message", (result: RSSFetchResult) => {
+        resolve(result);
         worker.terminate();
       });
 
@@ -142,6 +272,17 @@ export class PodcastService {
     return this.db.getEpisodesByPodcast.all(podcastId) as Episode[];
   }
 
+  /**
+   * Clear the "new" flag of one episode, or of every episode of a podcast
+   */
+  markEpisodeSeen(episodeId: string): void {
+    this.db.markEpisodeSeen.run(episodeId);
+  }
+
+  markPodcastSeen(podcastId: string): void {
+    this.db.markPodcastEpisodesSeen.run(podcastId);
+  }
+
   /**
    * Get single episode by ID
    */
@@ -149,6 +290,30 @@ export class PodcastService {
     return this.db.getEpisodeById.get(episodeId) as Episode | undefined;
   }
 
+  /**
+   * Chapters of an episode from its feed's chapters file, fetched on first
+   * use and cached until the feed points to another file
+   *
+   * @returns Chapters, or [] if the feed lists no chapters file
+   * @throws Error if the chapters file cannot be fetched or parsed
+   */
+  async getChapters(episodeId: string): Promise<EpisodeChapter[]> {
+    const episode = this.getEpisodeById(episodeId);
+    if (!episode?.chapters_url) return [];
+    if (episode.chapters) {
+      return JSON.parse(episode.chapters) as EpisodeChapter[];
+    }
+
+    const { data } = await axios.get<string>(episode.chapters_url, {
+      timeout: 15000,
+      responseType: "text",
+      maxContentLength: 5 * 1024 * 1024, // Max 5MB
+    });
+    const chapters = parseChapters(data);
+    this.db.updateEpisodeChapters.run(JSON.stringify(chapters), episodeId);
+    return chapters;
+  }
+
   /**
    * Update podcast's custom prompt
    * @param podcastId - Podcast ID
@@ -158,6 +323,121 @@ export class PodcastService {
     this.db.updatePodcastPrompt.run(prompt, podcastId);
   }
 
+  /**
+   * Update podcast's AI provider / model override
+   * @param podcastId - Podcast ID
+   * @param provider - Provider (null to use the global setting)
+   * @param model - Model name (null to use the provider default)
+   */
+  updateAiProvider(
+    podcastId: string,
+    provider: AIProviderId | null,
+    model: string | null,
+  ) {
+    this.db.updatePodcastAiProvider.run(
+      provider,
+      model?.trim() || null,
+      podcastId,
+    );
+  }
+
+  /**
+   * Update podcast's summary output language
+   * @param podcastId - Podcast ID
+   * @param language - Language name (null to use the global setting)
+   */
+  updateSummaryLanguage(podcastId: string, language: string | null) {
+    this.db.updatePodcastSummaryLanguage.run(
+      language?.trim() || null,
+      podcastId,
+    );
+  }
+
+  /**
+   * Update podcast's auto-summarize rule for new episodes
+   * @param podcastId - Podcast ID
+   * @param rule - Rule (filters are optional; empty values match all)
+   * @throws Error if the minimum length or the title pattern is invalid
+   *   (too long, or a regex that does not compile or may backtrack badly)
+   */
+  updateAutoSummarize(podcastId: string, rule: AutoSummarizeRule) {
+    const minMinutes = rule.minDurationMinutes;
+    if (
+      minMinutes !== null &&
+      !(Number.isFinite(minMinutes) && minMinutes >= 0)
+    ) {
+      throw new Error("Minimum length must be a positive number of minutes");
+    }
+
+    const pattern = rule.titlePattern?.trim() || null;
+    if (pattern && pattern.length > MAX_TITLE_PATTERN_LENGTH) {
+      throw new Error(
+        `Title pattern is too long (max. ${MAX_TITLE_PATTERN_LENGTH} characters)`,
+      );
+    }
+    if (pattern && rule.titleRegex) {
+      try {
+        new RegExp(pattern, "i");
+      } catch {
+        throw new Error(`Invalid title pattern: ${pattern}`);
+      }
+      // Patterns run on the main process; refuse the usual shape of
+      // catastrophic backtracking, a repeated group that repeats inside
+      if (NESTED_QUANTIFIER.test(pattern)) {
+        throw new Error(
+          "Title pattern repeats a group that repeats itself, which can be very slow; use a simpler pattern or plain text",
+        );
+      }
+    }
+
+    this.db.updatePodcastAutoSummarize.run(
+      rule.enabled ? 1 : 0,
+      minMinutes ? Math.round(minMinutes) : null,
+      pattern,
+      rule.titleRegex ? 1 : 0,
+      podcastId,
+    );
+  }
+
+  /**
+   * Update podcast's background refresh interval
+   * @param podcastId - Podcast ID
+   * @param minutes - Interval (null to use the global setting, 0 = never)
+   */
+  updateRefreshInterval(podcastId: string, minutes: number | null) {
+    if (minutes !== null && (!Number.isInteger(minutes) || minutes < 0)) {
+      throw new Error("Refresh interval must be a whole number of minutes");
+    }
+    this.db.updatePodcastRefreshInterval.run(minutes, podcastId);
+  }
+
+  /**
+   * Remember that syncing a podcast failed, and why
+   */
+  recordSyncFailure(podcastId: string, message: string) {
+    this.db.markPodcastSyncFailed.run(message, this.db.now(), podcastId);
+  }
+
+  /**
+   * Latest feed requests of a podcast, newest first
+   */
+  getFetchLog(podcastId: string): FeedFetchLogEntry[] {
+    return this.db.getFeedFetchLog.all(podcastId) as FeedFetchLogEntry[];
+  }
+
+  private logFetch(podcastId: string, fetched: RSSFetchResult): void {
+    this.db.insertFeedFetch.run(
+      this.db.generateId(),
+      podcastId,
+      this.db.now(),
+      fetched.status,
+      fetched.bytes,
+      fetched.durationMs,
+      fetched.error,
+    );
+    this.db.pruneFeedFetchLog.run({ podcastId, keep: FEED_FETCH_LOG_SIZE });
+  }
+
   /**
    * Soft-delete: mark podcast as unsubscribed, preserving all data.
    * Re-subscribing the same feed_url will automatically restore it.
@@ -0,0 +1,280 @@
+import { DatabaseManager } from "../database/index.js";
+import { ConfigService } from "./ConfigService.js";
+import { formatTimestamp } from "../providers/index.js";
+import type {
+  Episode,
+  Podcast,
+  PromptTemplate,
+  PromptVariable,
+} from "../../shared/types.js";
+
+export const DEFAULT_TEMPLATE_ID = "default";
+
+// Built-in template (written in Chinese, output in {{language}})
+const DEFAULT_PROMPT = `你是一個專業的 Podcast 摘要助手。請完整分析音頻內容，並依據以下結構生成摘要：
+
+## 節目資訊
+- 節目名稱
+- 主持人與嘉賓（如有）
+- 本集主題或標題
+
+## 重點議題
+詳細列出本期討論的主要主題與子主題。對於每個主題，說明：
+- 該主題的背景與脈絡
+- 主持人或嘉賓的核心觀點
+- 不同觀點之間的比較與碰撞
+- 討論的深入程度與範圍
+
+## 核心洞見
+歸納本期最具價值的洞見與啟發：
+- 解決了什麼問題或回答了什麼疑問
+- 提供了什麼新知識或新視角
+- 對聽眾可能產生的影響與啟發
+- 與當前趨勢或時事的關聯性
+
+## 行動建議
+列出所有可執行的建議與下一步行動：
+- 具體的行動步驟
+- 可以嘗試的方法或工具
+- 推薦的相關資源、書籍或網站
+- 值得追蹤的議題或人物
+
+## 關鍵字詞與概念
+3-5 個核心關鍵字詞，解釋每個詞在本集脈絡中的含義，幫助快速理解本期內容的核心概念。
+
+## 整體評價
+簡短評價本期內容的：
+- 內容品質與深度
+- 對目標受眾的價值
+- 有哪些值得一听的精彩時刻
+
+確保涵蓋本期內容的精髓，讓未收聽的讀者也能獲得 格式輸出，保持完整理解。使用 Markdown簡潔清晰的風格。
+
+請使用{{language}}撰寫整份摘要，包含所有標題。`;
+
+// Show notes longer than this are cut for the prompt
+const MAX_SHOW_NOTES_CHARS = 4000;
+
+// One prompt of a summary run; each lens is saved as its own document
+export interface SummaryLens {
+  label: string | null; // Template name; null = podcast's prompt
+  prompt: string;
+}
+
+export interface PromptTemplateInput {
+  id?: string | null; // Omit to create a new template
+  name: string;
+  content: string;
+}
+
+/**
+ * PromptTemplateService - Reusable summary prompts
+ *
+ * Responsibilities:
+ * - Store named prompt templates (prompt_templates table); the built-in
+ *   default template is created on first run and is read-only
+ * - Assign a template per podcast (podcasts.prompt_template_id)
+ * - Resolve the prompts (lenses) of a summary run and substitute their
+ *   {{variables}}; {{language}} is the podcast's / global summary language
+ *   (ConfigService)
+ *
+ * Prompt priority: templates picked for the run > podcast custom prompt >
+ * podcast template > built-in default. Unknown variables are left as-is.
+ */
+export class PromptTemplateService {
+  constructor(
+    private db: DatabaseManager,
+    private config: ConfigService,
+  ) {
+    const now = this.db.now();
+    this.db.insertPromptTemplate.run(
+      DEFAULT_TEMPLATE_ID,
+      "Default",
+      DEFAULT_PROMPT,
+      1,
+      now,
+      now,
+    );
+  }
+
+  /**
+   * All templates, built-in first, then by name
+   */
+  getTemplates(): PromptTemplate[] {
+    return this.db.getPromptTemplates.all() as PromptTemplate[];
+  }
+
+  /**
+   * Create a template, or update an existing one
+   *
+   * @returns The saved template
+   */
+  saveTemplate(input: PromptTemplateInput): PromptTemplate {
+    const name = input.name.trim();
+    if (!name) {
+      throw new Error("Template name is required");
+    }
+    if (!input.content.trim()) {
+      throw new Error("Template content is required");
+    }
+
+    const now = this.db.now();
+    let id = input.id;
+
+    if (id) {
+      const existing = this.getTemplate(id);
+      if (!existing) {
+        throw new Error(`Prompt template ${id} not found`);
+      }
+      if (existing.is_builtin) {
+        throw new Error("The built-in template cannot be edited");
+      }
+      this.db.updatePromptTemplate.run(name, input.content, now, id);
+    } else {
+      id = this.db.generateId();
+      this.db.insertPromptTemplate.run(id, name, input.content, 0, now, now);
+    }
+
+    return this.getTemplate(id)!;
+  }
+
+  /**
+   * Delete a template; podcasts and queued runs using it fall back to
+   * the default
+   */
+  deleteTemplate(id: string): void {
+    const template = this.getTemplate(id);
+    if (template?.is_builtin) {
+      throw new Error("The built-in template cannot be deleted");
+    }
+    this.db.deletePromptTemplate.run(id);
+  }
+
+  /**
+   * Assign a template to a podcast (null = built-in default)
+   */
+  setPodcastTemplate(podcastId: string, templateId: string | null): void {
+    if (templateId && !this.getTemplate(templateId)) {
+      throw new Error(`Prompt template ${templateId} not found`);
+    }
+    this.db.updatePodcastPromptTemplate.run(templateId, podcastId);
+  }
+
+  /**
+   * Prompts for summarizing an episode, with variables substituted
+   *
+   * Templates that no longer exist are skipped; without any picked
+   * template the run has a single unlabeled lens with the podcast's prompt.
+   *
+   * @param episodeId - Episode ID
+   * @param templateIds - Templates picked for this run, in order
+   */
+  resolveLenses(episodeId: string, templateIds: string[] = []): SummaryLens[] {
+    const episode = this.db.getEpisodeById.get(episodeId) as
+      Episode | undefined;
+
+    if (!episode) {
+      throw new Error(`Episode ${episodeId} not found`);
+    }
+
+    const podcast = this.db.getPodcastById.get(episode.podcast_id) as
+      Podcast | undefined;
+
+    let showNotes: string | undefined;
+    const values: Record<PromptVariable, string> = {
+      podcast_title: podcast?.title ?? "",
+      episode_title: episode.title,
+      pub_date: episode.pub_date.slice(0, 10),
+      duration: episode.duration > 0 ? formatTimestamp(episode.duration) : "",
+      language: this.config.getSummaryLanguageFor(podcast ?? null),
+      // Converted on first use, i.e. only for {{show_notes}} or the setting
+      get show_notes() {
+        return (showNotes ??= showNotesText(episode));
+      },
+    };
+
+    // With the setting on, show notes are appended to prompts that do not
+    // place {{show_notes}} themselves
+    const appendShowNotes =
+      this.config.getShowNotesContext() && values.show_notes !== "";
+    const render = (content: string) => {
+      const prompt = renderTemplate(content, values);
+      return appendShowNotes && !/\{\{\s*show_notes\s*\}\}/.test(content)
+        ? `${prompt}\n\n---\nShow notes from the podcast feed (context only, may be promotional):\n\n${values.show_notes}`
+        : prompt;
+    };
+
+    const lenses = [...new Set(templateIds)]
+      .map((id) => this.getTemplate(id))
+      .filter((template): template is PromptTemplate => !!template)
+      .map((template) => ({
+        label: template.name,
+        prompt: render(template.content),
+      }));
+    if (lenses.length > 0) {
+      return lenses;
+    }
+
+    // An empty custom prompt (cleared in the dialog) counts as none
+    const content =
+      podcast?.custom_prompt ||
+      (this.getTemplate(podcast?.prompt_template_id ?? DEFAULT_TEMPLATE_ID)
+        ?.content ??
+        DEFAULT_PROMPT);
+    return [{ label: null, prompt: render(content) }];
+  }
+
+  private getTemplate(id: string): PromptTemplate | undefined {
+    return this.db.getPromptTemplateById.get(id) as PromptTemplate | undefined;
+  }
+}
+
+/**
+ * Replace {{name}} placeholders (whitespace inside the braces is allowed)
+ */
+function renderTemplate(
+  content: string,
+  values: Record<PromptVariable, string>,
+): string {
+  return content.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    Object.hasOwn(values, name) ? values[name as PromptVariable] : match,
+  );
+}
+
+/**
+ * Plain text of an episode's show notes (full notes > short description),
+ * with paragraphs and list items kept on their own lines
+ */
+function showNotesText(episode: Episode): string {
+  const html = episode.content_html || episode.description || "";
+  const text = html
+    .replace(/<(br|hr)\b[^>]*>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/(p|div|li|ul|ol|h[1-6]|blockquote)>/gi, "\n")
+    .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#(\d+);/g, (_, code: string) => fromCodePoint(+code))
+    .replace(/&#x([\da-f]+);/gi, (_, code: string) =>
+      fromCodePoint(parseInt(code, 16)),
+    )
+    .replace(/&amp;/g, "&")
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return text.length > MAX_SHOW_NOTES_CHARS
+    ? `${text.slice(0, MAX_SHOW_NOTES_CHARS).trimEnd()}…`
+    : text;
+}
+
+// Character of a numeric entity; out-of-range codes (which would throw)
+// become the replacement character
+function fromCodePoint(code: number): string {
+  return code <= 0x10ffff ? String.fromCodePoint(code) : "\ufffd";
+}
@@ -0,0 +1,300 @@
+import Database from "better-sqlite3";
+import { DatabaseManager } from "../database/index.js";
+import { EmbeddingService } from "./EmbeddingService.js";
+import {
+  SEARCH_HIGHLIGHT_END,
+  SEARCH_HIGHLIGHT_START,
+} from "../../shared/types.js";
+import type {
+  SearchFilters,
+  SearchResult,
+  SearchResultType,
+} from "../../shared/types.js";
+
+const MAX_RESULTS = 50;
+// Keep one long transcript from filling the whole result list
+const MAX_TRANSCRIPT_HITS_PER_EPISODE = 3;
+// Rows fetched by the LIKE fallback before the remaining terms are checked
+const LIKE_CANDIDATES = 200;
+const SNIPPET_CONTEXT_CHARS = 60;
+const SEMANTIC_SNIPPET_CHARS = 240;
+// The trigram tokenizer cannot MATCH anything shorter
+const MIN_MATCH_TERM_LENGTH = 3;
+
+const ALL_TYPES: SearchResultType[] = ["summary", "transcript", "episode"];
+
+type SearchParams = {
+  podcastId: string | null;
+  from: string | null;
+  to: string | null;
+};
+
+type SearchRow = Omit<SearchResult, "type" | "snippet" | "rank"> & {
+  snippet?: string;
+  rank?: number;
+  text?: string;
+};
+
+/**
+ * SearchService - Full-text search across the library
+ *
+ * Responsibilities:
+ * - Search primary summaries, episode titles and transcript segments
+ *   through the FTS5 indexes (documents_fts, episodes_fts, transcripts_fts)
+ * - Filter by podcast, publication date range and result type
+ * - Return ranked hits with highlighted snippets
+ * - Semantic mode: rank summary / transcript chunks by embedding similarity
+ *   (EmbeddingService), so paraphrases match too
+ *
+ * Every term must match. Queries whose terms are all at least three
+ * characters use FTS MATCH and bm25 ranking; shorter terms (common for
+ * two-character CJK words) fall back to substring matching, newest first.
+ */
+export class SearchService {
+  constructor(
+    private db: DatabaseManager,
+    private embeddings: EmbeddingService,
+  ) {}
+
+  /**
+   * Search the library
+   *
+   * @param query - Free-form text; whitespace separates terms
+   * @param filters - Optional podcast / date / type filters
+   */
+  search(query: string, filters: SearchFilters = {}): SearchResult[] {
+    const terms = parseTerms(query);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const types = selectedTypes(filters);
+    const params = toParams(filters);
+
+    const useMatch = terms.every(
+      (term) => term.length >= MIN_MATCH_TERM_LENGTH,
+    );
+
+    const results: SearchResult[] = [];
+    for (const type of types) {
+      const rows = useMatch
+        ? this.searchMatch(type, terms, params)
+        : this.searchLike(type, terms, params);
+      results.push(...rows);
+    }
+
+    return limitTranscriptHits(
+      useMatch
+        ? results.sort((a, b) => a.rank - b.rank)
+        : results.sort((a, b) =>
+            b.episode_pub_date.localeCompare(a.episode_pub_date),
+          ),
+    ).slice(0, MAX_RESULTS);
+  }
+
+  /**
+   * Search by meaning instead of keywords
+   *
+   * Episode titles are not embedded, so the "episode" type never matches.
+   *
+   * @param query - Free-form text
+   * @param filters - Optional podcast / date / type filters
+   */
+  async searchSemantic(
+    query: string,
+    filters: SearchFilters = {},
+  ): Promise<SearchResult[]> {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      return [];
+    }
+
+    const types = selectedTypes(filters);
+    const matches = await this.embeddings.search(
+      trimmed,
+      toParams(filters),
+      MAX_RESULTS * 2,
+    );
+
+    const results: SearchResult[] = matches
+      .filter((match) => types.includes(match.source))
+      .map((match) => ({
+        type: match.source,
+        document_id: match.document_id,
+        episode_id: match.episode_id,
+        episode_title: match.episode_title,
+        episode_pub_date: match.episode_pub_date,
+        podcast_id: match.podcast_id,
+        podcast_title: match.podcast_title,
+        start_time: match.start_time,
+        snippet: truncate(match.text, SEMANTIC_SNIPPET_CHARS),
+        rank: 1 - match.score,
+      }));
+
+    return limitTranscriptHits(results).slice(0, MAX_RESULTS);
+  }
+
+  private statementsFor(type: SearchResultType): {
+    match: Database.Statement;
+    like: Database.Statement;
+  } {
+    switch (type) {
+      case "summary":
+        return {
+          match: this.db.searchDocuments,
+          like: this.db.searchDocumentsLike,
+        };
+      case "episode":
+        return {
+          match: this.db.searchEpisodes,
+          like: this.db.searchEpisodesLike,
+        };
+      case "transcript":
+        return {
+          match: this.db.searchTranscripts,
+          like: this.db.searchTranscriptsLike,
+        };
+    }
+  }
+
+  private searchMatch(
+    type: SearchResultType,
+    terms: string[],
+    params: SearchParams,
+  ): SearchResult[] {
+    // Quoted terms are matched literally; adjacent strings are ANDed
+    const query = terms
+      .map((term) => `"${term.replace(/"/g, '""')}"`)
+      .join(" ");
+
+    const rows = this.statementsFor(type).match.all({
+      ...params,
+      query,
+      limit: MAX_RESULTS,
+    }) as SearchRow[];
+
+    return rows.map((row) => ({
+      ...row,
+      type,
+      snippet: row.snippet ?? "",
+      rank: row.rank ?? 0,
+    }));
+  }
+
+  private searchLike(
+    type: SearchResultType,
+    terms: string[],
+    params: SearchParams,
+  ): SearchResult[] {
+    // Narrow down in SQL by the longest term, check the rest here
+    const [longest] = [...terms].sort((a, b) => b.length - a.length);
+    const pattern = `%${longest.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+
+    const rows = this.statementsFor(type).like.all({
+      ...params,
+      pattern,
+      limit: LIKE_CANDIDATES,
+    }) as SearchRow[];
+
+    return rows
+      .filter((row) => {
+        const text = (row.text ?? "").toLowerCase();
+        return terms.every((term) => text.includes(term.toLowerCase()));
+      })
+      .slice(0, MAX_RESULTS)
+      .map(({ text, ...row }) => ({
+        ...row,
+        type,
+        snippet: buildSnippet(text ?? "", terms),
+        rank: 0,
+      }));
+  }
+}
+
+function selectedTypes(filters: SearchFilters): SearchResultType[] {
+  return filters.types && filters.types.length > 0 ? filters.types : ALL_TYPES;
+}
+
+function toParams(filters: SearchFilters): SearchParams {
+  return {
+    podcastId: filters.podcastId || null,
+    from: filters.from || null,
+    to: filters.to ? nextDay(filters.to) : null,
+  };
+}
+
+function truncate(text: string, maxLength: number): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > maxLength ? `${flat.slice(0, maxLength)}…` : flat;
+}
+
+function parseTerms(query: string): string[] {
+  const terms = query
+    .split(/\s+/)
+    .map((term) => term.replace(/^["']+|["']+$/g, "").trim())
+    .filter(Boolean);
+  return [...new Set(terms)];
+}
+
+/**
+ * The day after a YYYY-MM-DD date, so an inclusive end date can be
+ * compared against full ISO timestamps with `<`
+ */
+function nextDay(date: string): string {
+  const next = new Date(`${date}T00:00:00.000Z`);
+  if (Number.isNaN(next.getTime())) {
+    return date;
+  }
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
+
+function limitTranscriptHits(results: SearchResult[]): SearchResult[] {
+  const perEpisode = new Map<string, number>();
+  return results.filter((result) => {
+    if (result.type !== "transcript") return true;
+    const count = perEpisode.get(result.episode_id) ?? 0;
+    perEpisode.set(result.episode_id, count + 1);
+    return count < MAX_TRANSCRIPT_HITS_PER_EPISODE;
+  });
+}
+
+/**
+ * Excerpt around the first match with every term occurrence highlighted,
+ * mirroring what FTS5 snippet() returns for MATCH queries
+ */
+function buildSnippet(text: string, terms: string[]): string {
+  const flat = text.replace(/\s+/g, " ");
+  const lower = flat.toLowerCase();
+  const lowerTerms = terms.map((term) => term.toLowerCase());
+
+  const first = Math.min(
+    ...lowerTerms.map((term) => {
+      const index = lower.indexOf(term);
+      return index === -1 ? flat.length : index;
+    }),
+  );
+  const start = Math.max(0, first - SNIPPET_CONTEXT_CHARS);
+  const end = Math.min(flat.length, first + SNIPPET_CONTEXT_CHARS * 2);
+
+  const excerpt = flat.slice(start, end);
+  const lowerExcerpt = excerpt.toLowerCase();
+
+  let highlighted = "";
+  let i = 0;
+  while (i < excerpt.length) {
+    const term = lowerTerms.find((t) => lowerExcerpt.startsWith(t, i));
+    if (term) {
+      highlighted +=
+        SEARCH_HIGHLIGHT_START +
+        excerpt.slice(i, i + term.length) +
+        SEARCH_HIGHLIGHT_END;
+      i += term.length;
+    } else {
+      highlighted += excerpt[i];
+      i++;
+    }
+  }
+
+  return (start > 0 ? "…" : "") + highlighted + (end < flat.length ? "…" : "");
+}
@@ -0,0 +1,332 @@
+import { Notification } from "electron";
+import { DatabaseManager } from "../database/index.js";
+import { GeminiService } from "./GeminiService.js";
+import { ConfigService } from "./ConfigService.js";
+import { GeminiAPIError, UsageLimitError } from "../../shared/types.js";
+import type {
+  Episode,
+  IPCEvent,
+  SummaryJob,
+  UsageLimitEvent,
+  UsageLimits,
+  UsageLimitStatus,
+} from "../../shared/types.js";
+
+// Streamed summary text is forwarded at most this often
+const CHUNK_EVENT_INTERVAL_MS = 100;
+// While a usage limit holds the queue, retry at least this often (limits
+// may have been raised elsewhere, or the clock changed)
+const LIMIT_RECHECK_MS = 60 * 60 * 1000;
+
+/**
+ * Delivers an IPC event to every open renderer window
+ */
+export type EventEmitterFn = (event: IPCEvent) => void;
+
+/**
+ * SummaryQueueService - Persistent background summary queue
+ *
+ * Responsibilities:
+ * - Persist run_ai_summary requests as rows in summary_jobs
+ * - Process pending jobs in FIFO order with configurable concurrency
+ * - Resume the queue after an app restart (interrupted jobs are re-queued)
+ * - Emit summary_queued / summary_started / summary_completed / summary_failed,
+ *   summary_progress (per chunk of long episodes) and summary_chunk
+ *   (summary text while it streams, throttled)
+ * - Cancel pending jobs, and abort running ones through an AbortSignal
+ *   (summary_cancelled is emitted once the job's cleanup has finished)
+ * - Hold pending jobs while a usage limit is used up (the job that hit it
+ *   goes back to pending) and emit usage_limit warnings once per period
+ * - Show a system notification when a job queued by an auto-summarize rule
+ *   is done (the user did not start it, so may not be watching)
+ *
+ * An episode can only have one active (pending or running) job at a time;
+ * enqueueing it again returns the existing job.
+ */
+export class SummaryQueueService {
+  private runningCount = 0;
+  // Abort controllers of running jobs, by job ID
+  private controllers = new Map<string, AbortController>();
+  // Set while a usage limit holds back pending jobs
+  private limitTimer: NodeJS.Timeout | null = null;
+  // usage_limit events already emitted, so each is shown once per period
+  private notifiedLimits = new Set<string>();
+
+  constructor(
+    private db: DatabaseManager,
+    private gemini: GeminiService,
+    private config: ConfigService,
+    private emit: EventEmitterFn,
+  ) {}
+
+  /**
+   * Recover jobs left running by a previous session and start processing
+   */
+  start(): void {
+    const { changes } = this.db.requeueRunningSummaryJobs.run();
+    if (changes > 0) {
+      console.log(`Re-queued ${changes} interrupted summary job(s)`);
+    }
+    this.pump();
+  }
+
+  /**
+   * Add an episode to the summary queue
+   *
+   * @param episodeId - Episode ID
+   * @param templateIds - Prompt templates (lenses) for this run, one
+   *   document each (empty = podcast's prompt)
+   * @param auto - Queued by an auto-summarize rule rather than the user
+   * @returns The new job, or the already active job for this episode
+   */
+  enqueue(
+    episodeId: string,
+    templateIds: string[] = [],
+    auto = false,
+  ): SummaryJob {
+    if (!this.db.getEpisodeById.get(episodeId)) {
+      throw new Error(`Episode ${episodeId} not found`);
+    }
+
+    const existing = this.db.getActiveSummaryJobByEpisode.get(episodeId) as
+      | SummaryJob
+      | undefined;
+    if (existing) {
+      return existing;
+    }
+
+    const job: SummaryJob = {
+      id: this.db.generateId(),
+      episode_id: episodeId,
+      status: "pending",
+      error: null,
+      created_at: this.db.now(),
+      started_at: null,
+      finished_at: null,
+      prompt_template_ids:
+        templateIds.length > 0 ? JSON.stringify(templateIds) : null,
+      is_auto: auto ? 1 : 0,
+    };
+    this.db.insertSummaryJob.run(
+      job.id,
+      job.episode_id,
+      job.created_at,
+      job.prompt_template_ids,
+      job.is_auto,
+    );
+
+    this.emit({ type: "summary_queued", jobId: job.id, episodeId });
+    this.pump();
+
+    return job;
+  }
+
+  /**
+   * Cancel the active job of an episode
+   *
+   * A pending job is cancelled immediately. A running job is aborted; it
+   * stops at its next await, cleans up its files and then emits
+   * summary_cancelled.
+   *
+   * @param episodeId - Episode ID
+   * @returns false if the episode has no active job
+   */
+  cancel(episodeId: string): boolean {
+    const job = this.db.getActiveSummaryJobByEpisode.get(episodeId) as
+      | SummaryJob
+      | undefined;
+    if (!job) {
+      return false;
+    }
+
+    const controller = this.controllers.get(job.id);
+    if (controller) {
+      console.log(`Cancelling running summary job ${job.id}`);
+      controller.abort();
+      return true;
+    }
+
+    this.db.finishSummaryJob.run("cancelled", null, this.db.now(), job.id);
+    this.emit({ type: "summary_cancelled", jobId: job.id, episodeId });
+    return true;
+  }
+
+  /**
+   * Get all pending and running jobs (oldest first)
+   */
+  getActiveJobs(): SummaryJob[] {
+    return this.db.getActiveSummaryJobs.all() as SummaryJob[];
+  }
+
+  /**
+   * Change how many jobs may run in parallel; takes effect immediately
+   */
+  setConcurrency(concurrency: number): void {
+    this.config.setSummaryConcurrency(concurrency);
+    this.pump();
+  }
+
+  /**
+   * Save usage limits; jobs held back by the old limits are retried
+   */
+  setUsageLimits(limits: UsageLimits): void {
+    this.config.setUsageLimits(limits);
+    this.notifiedLimits.clear();
+    if (this.limitTimer) {
+      clearTimeout(this.limitTimer);
+      this.limitTimer = null;
+    }
+    this.pump();
+  }
+
+  /**
+   * Start pending jobs until the concurrency limit is reached
+   */
+  private pump(): void {
+    if (this.limitTimer) return;
+    const limit = this.config.getSummaryConcurrency();
+
+    while (this.runningCount < limit) {
+      const next = this.db.getNextPendingSummaryJob.get() as
+        | SummaryJob
+        | undefined;
+      if (!next) return;
+
+      // runJob marks the job running synchronously, so the next
+      // iteration will not pick the same row again
+      void this.runJob(next);
+    }
+  }
+
+  /**
+   * Start no jobs until the limit resets (or the next periodic re-check)
+   */
+  private holdUntil(resetAt: string): void {
+    if (this.limitTimer) clearTimeout(this.limitTimer);
+    const delay = Math.max(Date.parse(resetAt) - Date.now(), 0);
+    this.limitTimer = setTimeout(
+      () => {
+        this.limitTimer = null;
+        this.pump();
+      },
+      Math.min(delay, LIMIT_RECHECK_MS),
+    );
+  }
+
+  private notifyLimit(
+    level: UsageLimitEvent["level"],
+    status: UsageLimitStatus,
+  ): void {
+    const key = `${level}:${status.period}:${status.metric}:${status.resetAt}`;
+    if (this.notifiedLimits.has(key)) return;
+    this.notifiedLimits.add(key);
+    this.emit({ type: "usage_limit", level, ...status });
+  }
+
+  private notifyReady(episodeId: string): void {
+    if (!Notification.isSupported()) return;
+    const episode = this.db.getEpisodeById.get(episodeId) as
+      | Episode
+      | undefined;
+    new Notification({
+      title: "New summary ready",
+      body: episode?.title ?? "A new episode was summarized",
+    }).show();
+  }
+
+  private async runJob(job: SummaryJob): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    let lastChunkAt = 0;
+    this.runningCount++;
+    this.db.markSummaryJobRunning.run(this.db.now(), job.id);
+    this.emit({
+      type: "summary_started",
+      jobId: job.id,
+      episodeId: job.episode_id,
+    });
+
+    try {
+      console.log(`Starting AI summary for episode: ${job.episode_id}`);
+      await this.gemini.generateSummary(job.episode_id, {
+        signal: controller.signal,
+        templateIds: job.prompt_template_ids
+          ? (JSON.parse(job.prompt_template_ids) as string[])
+          : [],
+        onProgress: (progress) =>
+          this.emit({
+            type: "summary_progress",
+            jobId: job.id,
+            episodeId: job.episode_id,
+            ...progress,
+          }),
+        onPartial: (text) => {
+          // The finished document follows with summary_completed, so
+          // skipping the last few updates loses nothing
+          const now = Date.now();
+          if (now - lastChunkAt < CHUNK_EVENT_INTERVAL_MS) return;
+          lastChunkAt = now;
+          this.emit({
+            type: "summary_chunk",
+            jobId: job.id,
+            episodeId: job.episode_id,
+            text,
+          });
+        },
+        onUsageWarning: (status) => this.notifyLimit("warning", status),
+      });
+
+      this.db.finishSummaryJob.run("completed", null, this.db.now(), job.id);
+      this.emit({
+        type: "summary_completed",
+        jobId: job.id,
+        episodeId: job.episode_id,
+      });
+      if (job.is_auto) {
+        this.notifyReady(job.episode_id);
+      }
+    } catch (error: unknown) {
+      if (error instanceof UsageLimitError) {
+        // Hard stop: the job waits in the queue instead of failing
+        console.log(`Summary job ${job.id} held back: ${error.message}`);
+        this.db.requeueSummaryJob.run(job.id);
+        this.holdUntil(error.status.resetAt);
+        this.notifyLimit("reached", error.status);
+        this.emit({
+          type: "summary_queued",
+          jobId: job.id,
+          episodeId: job.episode_id,
+        });
+        return;
+      }
+
+      if (controller.signal.aborted) {
+        console.log(`Summary job ${job.id} cancelled`);
+        this.db.finishSummaryJob.run("cancelled", null, this.db.now(), job.id);
+        this.emit({
+          type: "summary_cancelled",
+          jobId: job.id,
+          episodeId: job.episode_id,
+        });
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Summary job ${job.id} failed:`, error);
+
+      this.db.finishSummaryJob.run("failed", message, this.db.now(), job.id);
+      this.emit({
+        type: "summary_failed",
+        jobId: job.id,
+        episodeId: job.episode_id,
+        error: message,
+        // Lets the UI tell "fix your API key" from "try again later"
+        category: error instanceof GeminiAPIError ? error.category : "unknown",
+      });
+    } finally {
+      this.controllers.delete(job.id);
+      this.runningCount--;
+      this.pump();
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import axios from "axios";
+import { DatabaseManager } from "../database/index.js";
+import { formatTranscript } from "../providers/index.js";
+import { parseTranscriptFile } from "./podcastNamespace.js";
+import type {
+  Episode,
+  Transcript,
+  TranscriptSegment,
+} from "../../shared/types.js";
+
+/**
+ * TranscriptService - Episode Transcripts
+ *
+ * Responsibilities:
+ * - Persist timestamped transcript segments produced during a summary run
+ * - Serve stored transcripts to the UI and to later summary / chat runs,
+ *   so the audio does not have to be uploaded again
+ * - Import the publisher's transcript (<podcast:transcript>) when the feed
+ *   lists one (SRT, WebVTT, JSON or HTML)
+ *
+ * Each episode has at most one transcript; saving replaces the old one.
+ * Replacing or deleting a transcript drops its embeddings, which are
+ * rebuilt by EmbeddingService.
+ */
+export class TranscriptService {
+  constructor(private db: DatabaseManager) {}
+
+  /**
+   * Store (or replace) the transcript of an episode
+   *
+   * @param source - Provider ID that produced the segments
+   */
+  saveTranscript(
+    episodeId: string,
+    segments: TranscriptSegment[],
+    source: string,
+    model: string | null,
+  ): void {
+    this.db.transaction(() => {
+      this.db.deleteTranscriptSegments.run(episodeId);
+      this.db.deleteEmbeddingsBySource.run(episodeId, "transcript");
+      this.db.upsertTranscript.run(episodeId, source, model, this.db.now());
+
+      segments.forEach((seg, index) => {
+        this.db.insertTranscriptSegment.run(
+          episodeId,
+          index,
+          seg.start,
+          seg.end,
+          seg.speaker,
+          seg.text,
+        );
+      });
+    });
+  }
+
+  /**
+   * Download the transcript the feed lists for an episode and store it
+   * (source "publisher"), replacing any stored transcript
+   *
+   * @returns false if the feed lists no transcript for the episode
+   * @throws Error if the file cannot be fetched or holds no text
+   */
+  async importPublisherTranscript(
+    episodeId: string,
+    signal?: AbortSignal,
+  ): Promise<boolean> {
+    const episode = this.db.getEpisodeById.get(episodeId) as
+      | Episode
+      | undefined;
+    if (!episode?.transcript_url) return false;
+
+    const { data } = await axios.get<string>(episode.transcript_url, {
+      timeout: 30000,
+      responseType: "text",
+      maxContentLength: 20 * 1024 * 1024, // Max 20MB
+      signal,
+    });
+    const segments = parseTranscriptFile(data, episode.transcript_type);
+    if (segments.length === 0) {
+      throw new Error("The publisher transcript has no text");
+    }
+
+    this.saveTranscript(episodeId, segments, "publisher", null);
+    return true;
+  }
+
+  /**
+   * Get the stored transcript with its segments
+   *
+   * @returns Transcript, or null if the episode was never transcribed
+   */
+  getTranscript(episodeId: string): Transcript | null {
+    const row = this.db.getTranscriptByEpisode.get(episodeId) as
+      | Omit<Transcript, "segments">
+      | undefined;
+    if (!row) return null;
+
+    const segments = this.db.getTranscriptSegments.all(
+      episodeId,
+    ) as TranscriptSegment[];
+
+    return { ...row, segments };
+  }
+
+  /**
+   * Stored transcript as "[mm:ss] Speaker: text" lines, for prompts
+   *
+   * @returns Text, or null if there is no usable transcript
+   */
+  getTranscriptText(episodeId: string): string | null {
+    const transcript = this.getTranscript(episodeId);
+    if (!transcript || transcript.segments.length === 0) return null;
+    return formatTranscript(transcript.segments);
+  }
+
+  /**
+   * Delete the transcript (the next summary run transcribes again)
+   */
+  deleteTranscript(episodeId: string): void {
+    this.db.transaction(() => {
+      this.db.deleteEmbeddingsBySource.run(episodeId, "transcript");
+      this.db.deleteTranscript.run(episodeId);
+    });
+  }
+}
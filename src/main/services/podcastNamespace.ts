@@ -0,0 +1,245 @@
+import type { EpisodeChapter, TranscriptSegment } from "../../shared/types.js";
+
+/**
+ * Podcasting 2.0 namespace content (podcastindex.org/namespace/1.0):
+ * publisher transcripts and JSON chapters
+ */
+
+export type TranscriptFormat = "json" | "vtt" | "srt" | "html";
+
+// Most useful first: JSON and VTT can name speakers, HTML has the least timing
+export const TRANSCRIPT_FORMAT_PREFERENCE: TranscriptFormat[] = [
+  "json",
+  "vtt",
+  "srt",
+  "html",
+];
+
+// Consecutive cues of one speaker are merged up to this length, since
+// publisher files often have a cue per line or even per word
+const MAX_SEGMENT_SECONDS = 30;
+
+/**
+ * Transcript format of a <podcast:transcript type="..."> MIME type
+ *
+ * @returns Format, or null if the type is not supported
+ */
+export function transcriptFormat(
+  type: string | null | undefined,
+): TranscriptFormat | null {
+  const mime = (type ?? "").split(";")[0].trim().toLowerCase();
+  switch (mime) {
+    case "application/json":
+      return "json";
+    case "text/vtt":
+      return "vtt";
+    case "application/x-subrip":
+    case "application/srt":
+    case "text/srt":
+      return "srt";
+    case "text/html":
+      return "html";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a publisher transcript file into transcript segments
+ *
+ * @param type - MIME type from the feed; the content decides when it is
+ *   missing or unsupported
+ */
+export function parseTranscriptFile(
+  body: string,
+  type: string | null,
+): TranscriptSegment[] {
+  const text = body.trim();
+  const format =
+    transcriptFormat(type) ??
+    (text.startsWith("WEBVTT")
+      ? "vtt"
+      : text.startsWith("{")
+        ? "json"
+        : text.startsWith("<")
+          ? "html"
+          : "srt");
+
+  switch (format) {
+    case "json":
+      return mergeSegments(parseJSONTranscript(text));
+    case "vtt":
+    case "srt":
+      return mergeSegments(parseCues(text));
+    case "html":
+      return parseHTMLTranscript(text);
+  }
+}
+
+/**
+ * Parse a JSON chapters file (application/json+chapters)
+ */
+export function parseChapters(body: string): EpisodeChapter[] {
+  let json: any;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    throw new Error("Invalid chapters file: malformed JSON");
+  }
+  if (!Array.isArray(json?.chapters)) {
+    throw new Error("Invalid chapters file: missing chapters");
+  }
+
+  return json.chapters
+    .filter(
+      (chapter: any) =>
+        Number.isFinite(Number(chapter?.startTime)) &&
+        // toc: false marks chapters meant only for the player, not the list
+        chapter.toc !== false,
+    )
+    .map((chapter: any) => ({
+      startTime: Number(chapter.startTime),
+      endTime: Number.isFinite(Number(chapter.endTime))
+        ? Number(chapter.endTime)
+        : null,
+      title: String(chapter.title ?? "").trim(),
+      url: httpUrl(chapter.url),
+      img: httpUrl(chapter.img),
+    }))
+    .sort((a: EpisodeChapter, b: EpisodeChapter) => a.startTime - b.startTime);
+}
+
+/**
+ * A feed-supplied link or image URL, if it is http(s)
+ *
+ * Feeds are untrusted, so anything else (javascript:, file:, data:, ...)
+ * is dropped before it reaches the renderer.
+ */
+export function httpUrl(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const url = value.trim();
+  return /^https?:\/\//i.test(url) ? url : null;
+}
+
+// { "segments": [{ "startTime", "endTime", "speaker", "body" }] }
+function parseJSONTranscript(text: string): TranscriptSegment[] {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("Invalid transcript: malformed JSON");
+  }
+  if (!Array.isArray(json?.segments)) {
+    throw new Error("Invalid transcript: missing segments");
+  }
+
+  return json.segments
+    .map((seg: any) => ({
+      start: Number(seg?.startTime) || 0,
+      end: Number(seg?.endTime) || Number(seg?.startTime) || 0,
+      speaker: typeof seg?.speaker === "string" ? seg.speaker.trim() : null,
+      text: String(seg?.body ?? "").trim(),
+    }))
+    .filter((seg: TranscriptSegment) => seg.text);
+}
+
+// SRT and WebVTT cues: an optional ID line, "start --> end", then text
+function parseCues(text: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+
+  for (const block of text.split(/\r?\n\s*\r?\n/)) {
+    const lines = block.split(/\r?\n/);
+    const timing = lines.findIndex((line) => line.includes("-->"));
+    if (timing === -1) continue; // Header, NOTE or STYLE block
+
+    const [start, end] = lines[timing]
+      .split("-->")
+      .map((part) => parseCueTime(part.trim().split(/\s+/)[0]));
+    let speaker: string | null = null;
+    const cueText = lines
+      .slice(timing + 1)
+      .join(" ")
+      .replace(/<v(?:\.[^\s>]+)?\s+([^>]+)>/g, (_, name: string) => {
+        speaker = name.trim();
+        return "";
+      });
+
+    const plain = stripTags(cueText);
+    if (plain) segments.push({ start, end, speaker, text: plain });
+  }
+
+  return segments;
+}
+
+// "01:02:03,500", "01:02:03.500" or "02:03.500"
+function parseCueTime(value: string): number {
+  const parts = value.replace(",", ".").split(":").map(Number);
+  return parts.reduce((total, part) => total * 60 + (part || 0), 0);
+}
+
+// <cite>Speaker:</cite> <time>0:00</time> <p>Text</p>, repeated
+function parseHTMLTranscript(text: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  let speaker: string | null = null;
+  let start = 0;
+  let hasTimes = false;
+
+  const pattern = /<(cite|time|p)\b[^>]*>([\s\S]*?)<\/\1>/gi;
+  for (const match of text.matchAll(pattern)) {
+    const content = stripTags(match[2]);
+    const tag = match[1].toLowerCase();
+    if (tag === "cite") {
+      speaker = content.replace(/:\s*$/, "") || null;
+    } else if (tag === "time") {
+      start = parseCueTime(content);
+      hasTimes = true;
+    } else if (content) {
+      segments.push({ start, end: start, speaker, text: content });
+    }
+  }
+
+  // No known markup: keep the whole page text as one segment
+  if (segments.length === 0) {
+    const plain = stripTags(text);
+    return plain ? [{ start: 0, end: 0, speaker: null, text: plain }] : [];
+  }
+
+  // Each paragraph lasts until the next one starts
+  if (hasTimes) {
+    segments.forEach((seg, index) => {
+      seg.end = segments[index + 1]?.start ?? seg.start;
+    });
+  }
+  return segments;
+}
+
+function mergeSegments(segments: TranscriptSegment[]): TranscriptSegment[] {
+  const merged: TranscriptSegment[] = [];
+  for (const seg of segments) {
+    const last = merged[merged.length - 1];
+    if (
+      last &&
+      last.speaker === seg.speaker &&
+      seg.end - last.start <= MAX_SEGMENT_SECONDS
+    ) {
+      last.end = Math.max(last.end, seg.end);
+      last.text = `${last.text} ${seg.text}`;
+    } else {
+      merged.push({ ...seg });
+    }
+  }
+  return merged;
+}
+
+function stripTags(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
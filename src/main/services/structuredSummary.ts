@@ -0,0 +1,179 @@
+import type { StructuredSummary } from "../../shared/types.js";
+import type { JSONResponseSchema } from "../providers/AIProvider.js";
+
+const textField = { type: "string" };
+const nullableTextField = { type: ["string", "null"] };
+const textList = { type: "array", items: textField };
+const objectList = (properties: Record<string, unknown>) => ({
+  type: "array",
+  items: {
+    type: "object",
+    properties,
+    required: Object.keys(properties),
+    additionalProperties: false,
+  },
+});
+
+/**
+ * Schema of the structured reply, enforced by the provider's structured
+ * output (strict: every field required, nothing else allowed)
+ */
+export const STRUCTURED_SUMMARY_SCHEMA: JSONResponseSchema = {
+  name: "structured_summary",
+  schema: {
+    type: "object",
+    properties: {
+      overview: textField,
+      guests: objectList({ name: textField, role: nullableTextField }),
+      topics: textList,
+      key_insights: textList,
+      action_items: textList,
+      resources: objectList({ name: textField, url: nullableTextField }),
+      keywords: textList,
+      timestamps: objectList({ time: textField, description: textField }),
+    },
+    required: [
+      "overview",
+      "guests",
+      "topics",
+      "key_insights",
+      "action_items",
+      "resources",
+      "keywords",
+      "timestamps",
+    ],
+    additionalProperties: false,
+  },
+};
+
+/**
+ * Ask for the summary as JSON instead of Markdown. The original prompt
+ * still decides language, focus and level of detail.
+ */
+export function structuredPrompt(prompt: string): string {
+  return `${prompt}
+
+---
+Instead of Markdown, reply with a single JSON object with exactly these fields:
+{
+  "overview": string (one short paragraph),
+  "guests": [{ "name": string, "role": string or null }],
+  "topics": [string],
+  "key_insights": [string],
+  "action_items": [string],
+  "resources": [{ "name": string, "url": string or null }] (books, tools, websites mentioned),
+  "keywords": [string] (3-5),
+  "timestamps": [{ "time": "MM:SS" or "HH:MM:SS", "description": string }] (notable moments)
+}
+Use an empty array when the episode has nothing for a field. Write every
+text value in the language the instructions above ask for.`;
+}
+
+/**
+ * Parse the model's JSON reply, tolerating code fences and missing or
+ * mistyped fields
+ */
+export function parseStructuredSummary(text: string): StructuredSummary {
+  const json = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    data = null;
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("The model did not return a valid structured summary");
+  }
+
+  return {
+    overview: toText(data.overview),
+    guests: toList(data.guests)
+      .map((guest) =>
+        typeof guest === "string"
+          ? { name: guest.trim(), role: null }
+          : { name: toText(guest?.name), role: toText(guest?.role) || null },
+      )
+      .filter((guest) => guest.name),
+    topics: toTexts(data.topics),
+    key_insights: toTexts(data.key_insights),
+    action_items: toTexts(data.action_items),
+    resources: toList(data.resources)
+      .map((resource) =>
+        typeof resource === "string"
+          ? { name: resource.trim(), url: null }
+          : {
+              name: toText(resource?.name),
+              url: toText(resource?.url) || null,
+            },
+      )
+      .filter((resource) => resource.name),
+    keywords: toTexts(data.keywords),
+    timestamps: toList(data.timestamps)
+      .map((moment) => ({
+        time: toText(moment?.time),
+        description: toText(moment?.description),
+      }))
+      .filter((moment) => moment.time && moment.description),
+  };
+}
+
+/**
+ * Markdown rendering stored as the document content, so structured
+ * summaries display, search and export like any other version
+ */
+export function renderStructuredSummary(summary: StructuredSummary): string {
+  const sections: string[] = [];
+  const addList = (title: string, items: string[]) => {
+    if (items.length > 0) {
+      sections.push(`## ${title}\n\n${items.map((i) => `- ${i}`).join("\n")}`);
+    }
+  };
+
+  if (summary.overview) {
+    sections.push(`## Overview\n\n${summary.overview}`);
+  }
+  addList(
+    "Guests",
+    summary.guests.map((guest) =>
+      guest.role ? `**${guest.name}** — ${guest.role}` : `**${guest.name}**`,
+    ),
+  );
+  addList("Topics", summary.topics);
+  addList("Key Insights", summary.key_insights);
+  addList("Action Items", summary.action_items);
+  addList(
+    "Resources",
+    summary.resources.map((resource) =>
+      resource.url ? `[${resource.name}](${resource.url})` : resource.name,
+    ),
+  );
+  if (summary.keywords.length > 0) {
+    sections.push(`## Keywords\n\n${summary.keywords.join(" · ")}`);
+  }
+  addList(
+    "Notable Moments",
+    summary.timestamps.map(
+      (moment) => `**[${moment.time}]** ${moment.description}`,
+    ),
+  );
+
+  return sections.join("\n\n");
+}
+
+function toText(value: unknown): string {
+  return typeof value === "string" || typeof value === "number"
+    ? String(value).trim()
+    : "";
+}
+
+function toList(value: unknown): any[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function toTexts(value: unknown): string[] {
+  return toList(value).map(toText).filter(Boolean);
+}
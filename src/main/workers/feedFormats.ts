@@ -0,0 +1,298 @@
+import { XMLParser } from "fast-xml-parser";
+import {
+  TRANSCRIPT_FORMAT_PREFERENCE,
+  httpUrl,
+  transcriptFormat,
+} from "../services/podcastNamespace.js";
+import type { EpisodePerson, RSSFeed } from "../../shared/types.js";
+
+type FeedEpisode = RSSFeed["episodes"][number];
+
+/**
+ * Parse a podcast feed in any supported format (RSS 2.0, Atom or JSON
+ * Feed 1.0 / 1.1) into the same RSSFeed shape
+ *
+ * @param body - Response body of the feed request
+ * @param url - Feed URL (stored as podcast.feed_url)
+ * @throws Error if the body is not a recognizable feed
+ */
+export function parseFeed(body: string, url: string): RSSFeed {
+  const text = body.trim();
+
+  // JSON Feed: a JSON object with a jsonfeed.org version URL
+  if (text.startsWith("{")) {
+    let json: any;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw new Error("Invalid JSON Feed: malformed JSON");
+    }
+    if (!String(json?.version ?? "").startsWith("https://jsonfeed.org/")) {
+      throw new Error("Invalid JSON Feed: missing jsonfeed.org version");
+    }
+    return parseJSONFeed(json, url);
+  }
+
+  // XML parsing (CPU-intensive operation)
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    parseAttributeValue: false,
+    trimValues: true,
+  });
+  const xml = parser.parse(text);
+
+  if (xml?.rss?.channel) return parseRSS(xml.rss.channel, url);
+  if (xml?.feed) return parseAtom(xml.feed, url);
+
+  throw new Error(
+    "Invalid feed structure: expected an RSS channel, Atom feed or JSON Feed",
+  );
+}
+
+function parseRSS(channel: any, url: string): RSSFeed {
+  // Extract artwork from itunes:image or standard image tag
+  let artworkUrl: string | undefined;
+  if (channel["itunes:image"]?.["@_href"]) {
+    artworkUrl = channel["itunes:image"]["@_href"];
+  } else if (channel.image?.url) {
+    artworkUrl = channel.image.url;
+  }
+
+  const podcast = {
+    title: channel.title || "Untitled Podcast",
+    feed_url: url,
+    artwork_url: artworkUrl,
+  };
+
+  // Channel-level people (usually the hosts) apply to every episode
+  // that names none of its own
+  const channelPersons = parsePersons(channel["podcast:person"]);
+
+  const episodes = toArray(channel.item)
+    .filter((item: any) => {
+      // Must have either enclosure URL or link
+      const hasAudio =
+        item.enclosure?.["@_url"] ||
+        item["media:content"]?.["@_url"] ||
+        item.link;
+      return hasAudio && item.title;
+    })
+    .map((item: any): FeedEpisode => {
+      // Extract audio URL
+      const audioUrl =
+        item.enclosure?.["@_url"] ||
+        item["media:content"]?.["@_url"] ||
+        item.link ||
+        "";
+      const media = item.enclosure?.["@_url"]
+        ? item.enclosure
+        : item["media:content"];
+
+      // Extract GUID (fallback to audio URL or link)
+      const guid =
+        item.guid?.["#text"] ||
+        item.guid ||
+        audioUrl ||
+        item.link ||
+        `${podcast.title}-${item.title}`;
+
+      const transcript = pickTranscript(item["podcast:transcript"]);
+      const persons = parsePersons(item["podcast:person"]);
+
+      return {
+        guid,
+        title: item.title,
+        pub_date: toISODate(item.pubDate || item["dc:date"]),
+        duration: parseDuration(item["itunes:duration"]),
+        audio_url: audioUrl,
+        transcript_url: transcript?.["@_url"] ?? null,
+        transcript_type: transcript?.["@_type"] ?? null,
+        chapters_url: item["podcast:chapters"]?.["@_url"] || null,
+        persons: persons.length > 0 ? persons : channelPersons,
+        description:
+          textOf(item.description) || textOf(item["itunes:summary"]) || null,
+        content_html: textOf(item["content:encoded"]) || null,
+        ...itunesMetadata(item),
+        enclosure_length: toCount(media?.["@_length"] ?? media?.["@_fileSize"]),
+        enclosure_type: media?.["@_type"] || null,
+      };
+    });
+
+  return { podcast, episodes };
+}
+
+/**
+ * Atom (RFC 4287): audio comes from <link rel="enclosure"> or
+ * <media:content>; entries without either are skipped
+ */
+function parseAtom(feed: any, url: string): RSSFeed {
+  const podcast = {
+    title: textOf(feed.title) || "Untitled Podcast",
+    feed_url: url,
+    artwork_url:
+      feed["itunes:image"]?.["@_href"] ||
+      textOf(feed.logo) ||
+      textOf(feed.icon) ||
+      undefined,
+  };
+
+  const episodes: FeedEpisode[] = [];
+  for (const entry of toArray(feed.entry)) {
+    const title = textOf(entry.title);
+    const enclosures = toArray(entry.link).filter(
+      (link: any) => link?.["@_rel"] === "enclosure" && link["@_href"],
+    );
+    const enclosure =
+      enclosures.find((link: any) =>
+        String(link["@_type"] ?? "").startsWith("audio/"),
+      ) ?? enclosures[0];
+    const audioUrl =
+      enclosure?.["@_href"] || entry["media:content"]?.["@_url"] || "";
+    if (!title || !audioUrl) continue;
+
+    episodes.push({
+      guid: textOf(entry.id) || audioUrl,
+      title,
+      pub_date: toISODate(textOf(entry.published) || textOf(entry.updated)),
+      duration: parseDuration(entry["itunes:duration"]),
+      audio_url: audioUrl,
+      description: textOf(entry.summary) || null,
+      content_html: textOf(entry.content) || null,
+      ...itunesMetadata(entry),
+      enclosure_length: toCount(enclosure?.["@_length"]),
+      enclosure_type: enclosure?.["@_type"] || null,
+    });
+  }
+
+  return { podcast, episodes };
+}
+
+/**
+ * JSON Feed (jsonfeed.org, 1.0 and 1.1): audio comes from the first
+ * audio/* attachment; items without one are skipped
+ */
+function parseJSONFeed(json: any, url: string): RSSFeed {
+  const podcast = {
+    title: textOf(json.title) || "Untitled Podcast",
+    feed_url: url,
+    artwork_url: textOf(json.icon) || textOf(json.favicon) || undefined,
+  };
+
+  const episodes: FeedEpisode[] = [];
+  for (const item of toArray(json.items)) {
+    const title = textOf(item?.title);
+    const attachment = toArray(item?.attachments).find(
+      (candidate: any) =>
+        candidate?.url &&
+        String(candidate.mime_type ?? "").startsWith("audio/"),
+    );
+    if (!title || !attachment) continue;
+
+    episodes.push({
+      guid: textOf(item.id) || attachment.url,
+      title,
+      pub_date: toISODate(item.date_published || item.date_modified),
+      duration: Math.round(Number(attachment.duration_in_seconds) || 0),
+      audio_url: attachment.url,
+      description: textOf(item.summary) || textOf(item.content_text) || null,
+      content_html: textOf(item.content_html) || null,
+      artwork_url: textOf(item.image) || null,
+      enclosure_length: toCount(attachment.size_in_bytes),
+      enclosure_type: textOf(attachment.mime_type) || null,
+    });
+  }
+
+  return { podcast, episodes };
+}
+
+/**
+ * The most useful supported <podcast:transcript> of an item (a feed may
+ * list one per format and language)
+ */
+function pickTranscript(value: unknown): any | null {
+  const candidates = toArray(value).filter(
+    (tag: any) => tag?.["@_url"] && transcriptFormat(tag["@_type"]),
+  );
+  const rank = (tag: any) =>
+    TRANSCRIPT_FORMAT_PREFERENCE.indexOf(transcriptFormat(tag["@_type"])!);
+  return candidates.sort((a, b) => rank(a) - rank(b))[0] ?? null;
+}
+
+function parsePersons(value: unknown): EpisodePerson[] {
+  return toArray(value)
+    .map((tag: any) => ({
+      name: textOf(tag),
+      role: (tag?.["@_role"] || "host").toLowerCase(),
+      group: (tag?.["@_group"] || "cast").toLowerCase(),
+      img: httpUrl(tag?.["@_img"]),
+      href: httpUrl(tag?.["@_href"]),
+    }))
+    .filter((person) => person.name);
+}
+
+// iTunes episode tags, shared by RSS items and Atom entries
+function itunesMetadata(node: any) {
+  const episodeType = textOf(node["itunes:episodeType"]).toLowerCase();
+  return {
+    season: toCount(textOf(node["itunes:season"])),
+    episode_number: toCount(textOf(node["itunes:episode"])),
+    episode_type: episodeType || null,
+    is_explicit: parseExplicit(node["itunes:explicit"]),
+    artwork_url: node["itunes:image"]?.["@_href"] || null,
+  };
+}
+
+// itunes:explicit: "true" / "false" (older feeds: "yes", "explicit", "clean")
+// (the XML parser already turns "true" / "false" into booleans)
+function parseExplicit(value: unknown): boolean | null {
+  if (typeof value === "boolean") return value;
+  const flag = textOf(value).toLowerCase();
+  if (["true", "yes", "explicit"].includes(flag)) return true;
+  if (["false", "no", "clean"].includes(flag)) return false;
+  return null;
+}
+
+// Non-negative integer, or null when missing or invalid
+function toCount(value: unknown): number | null {
+  if (value === undefined || value === null || value === "") return null;
+  const count = Number(value);
+  return Number.isInteger(count) && count >= 0 ? count : null;
+}
+
+function toArray(value: unknown): any[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// Text of an XML node that may carry attributes ({ "#text": ..., "@_type": ... })
+function textOf(value: any): string {
+  if (typeof value === "string" || typeof value === "number") {
+    return String(value).trim();
+  }
+  if (value && typeof value === "object" && "#text" in value) {
+    return String(value["#text"]).trim();
+  }
+  return "";
+}
+
+// UTC ISO date; missing or invalid dates fall back to the current time
+function toISODate(value: unknown): string {
+  const date = value ? new Date(String(value)) : new Date();
+  return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
+
+// itunes:duration in seconds ("HH:MM:SS", "MM:SS" or plain seconds)
+function parseDuration(value: unknown): number {
+  if (!value) return 0;
+  const durationStr = String(value);
+  if (durationStr.includes(":")) {
+    const parts = durationStr.split(":").map(Number);
+    if (parts.length === 3) {
+      return parts[0] * 3600 + parts[1] * 60 + parts[2];
+    } else if (parts.length === 2) {
+      return parts[0] * 60 + parts[1];
+    }
+  }
+  return parseInt(durationStr, 10) || 0;
+}
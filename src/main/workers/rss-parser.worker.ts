@@ -1,153 +1,83 @@
 import { parentPort } from "worker_threads";
-import { XMLParser } from "fast-xml-parser";
-import axios from "axios";
-import type { RSSFeed } from "../../shared/types.js";
+import axios, { AxiosResponse } from "axios";
+import { parseFeed } from "./feedFormats.js";
+import type { RSSFeed, RSSFetchResult } from "../../shared/types.js";
 
 /**
  * RSS Parser Worker Thread
  *
- * Purpose: Offload CPU-intensive XML parsing from the main thread
- * to prevent UI freezing when parsing large RSS feeds (e.g., Joe Rogan feed ~5MB)
+ * Purpose: Offload CPU-intensive feed parsing from the main thread
+ * to prevent UI freezing when parsing large RSS feeds (e.g., Joe Rogan feed ~5MB).
+ * Atom and JSON Feed are normalized into the same RSSFeed shape.
  *
  * Communication:
- * - Receives: { url: string }
- * - Sends: RSSFeed | { error: string }
+ * - Receives: { url, etag, lastModified } (validators of the last full
+ *   fetch, sent as If-None-Match / If-Modified-Since)
+ * - Sends: RSSFetchResult (feed is null for 304 Not Modified and errors)
  */
 
-parentPort?.on("message", async ({ url }: { url: string }) => {
+interface FeedRequest {
+  url: string;
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+parentPort?.on("message", async (request: FeedRequest) => {
+  const { url, etag, lastModified } = request;
+  const startedAt = Date.now();
+  let response: AxiosResponse<string> | undefined;
+  let durationMs = 0;
+
+  const reply = (feed: RSSFeed | null, error: string | null = null) => {
+    const result: RSSFetchResult = {
+      feed,
+      error,
+      status: response?.status ?? null,
+      bytes:
+        typeof response?.data === "string"
+          ? Buffer.byteLength(response.data)
+          : 0,
+      durationMs: durationMs || Date.now() - startedAt,
+      etag: headerValue(response?.headers.etag),
+      lastModified: headerValue(response?.headers["last-modified"]),
+    };
+    parentPort?.postMessage(result);
+  };
+
   try {
-    // Step 1: Fetch RSS XML via HTTP
-    const response = await axios.get(url, {
+    // Step 1: Fetch the feed via HTTP (conditional when validators are known)
+    const headers: Record<string, string> = {
+      "User-Agent": "Podcast-AI-Orchestrator/1.0",
+      Accept:
+        "application/rss+xml, application/atom+xml, application/feed+json, application/xml, text/xml, application/json, */*",
+    };
+    if (etag) headers["If-None-Match"] = etag;
+    if (lastModified) headers["If-Modified-Since"] = lastModified;
+
+    response = await axios.get<string>(url, {
       timeout: 15000, // 15 second timeout
-      headers: {
-        "User-Agent": "Podcast-AI-Orchestrator/1.0",
-        Accept: "application/rss+xml, application/xml, text/xml, */*",
-      },
+      headers,
+      responseType: "text",
       maxContentLength: 10 * 1024 * 1024, // Max 10MB
-      validateStatus: (status) => status >= 200 && status < 300,
-    });
-
-    // Step 2: Parse XML (CPU-intensive operation)
-    const parser = new XMLParser({
-      ignoreAttributes: false,
-      attributeNamePrefix: "@_",
-      parseAttributeValue: false,
-      trimValues: true,
+      validateStatus: (status) =>
+        (status >= 200 && status < 300) || status === 304,
     });
+    durationMs = Date.now() - startedAt;
 
-    const feed = parser.parse(response.data);
-
-    // Step 3: Validate feed structure
-    if (!feed?.rss?.channel) {
-      throw new Error("Invalid RSS feed structure: missing channel");
-    }
-
-    const channel = feed.rss.channel;
-
-    // Step 4: Extract podcast metadata
-    // Extract artwork from itunes:image or standard image tag
-    let artworkUrl: string | undefined;
-    if (channel["itunes:image"]?.["@_href"]) {
-      artworkUrl = channel["itunes:image"]["@_href"];
-    } else if (channel.image?.url) {
-      artworkUrl = channel.image.url;
-    }
-
-    const podcast = {
-      title: channel.title || "Untitled Podcast",
-      feed_url: url,
-      artwork_url: artworkUrl,
-    };
-
-    // Step 5: Extract episodes
-    const items = channel.item;
-    if (!items) {
-      // Empty feed, but valid
-      parentPort?.postMessage({
-        podcast,
-        episodes: [],
-      } as RSSFeed);
+    // Unchanged since the last fetch: skip parsing entirely
+    if (response.status === 304) {
+      reply(null);
       return;
     }
 
-    // Ensure items is always an array
-    const itemsArray = Array.isArray(items) ? items : [items];
-
-    const episodes = itemsArray
-      .filter((item: any) => {
-        // Must have either enclosure URL or link
-        const hasAudio =
-          item.enclosure?.["@_url"] ||
-          item["media:content"]?.["@_url"] ||
-          item.link;
-        return hasAudio && item.title;
-      })
-      .map((item: any) => {
-        // Extract audio URL
-        const audioUrl =
-          item.enclosure?.["@_url"] ||
-          item["media:content"]?.["@_url"] ||
-          item.link ||
-          "";
+    // Step 2: Parse RSS, Atom or JSON Feed (CPU-intensive operation)
+    const feed = parseFeed(response.data, url);
 
-        // Extract GUID (fallback to audio URL or link)
-        const guid =
-          item.guid?.["#text"] ||
-          item.guid ||
-          audioUrl ||
-          item.link ||
-          `${podcast.title}-${item.title}`;
-
-        // Extract publication date
-        let pubDate: string;
-        try {
-          if (item.pubDate) {
-            pubDate = new Date(item.pubDate).toISOString();
-          } else if (item["dc:date"]) {
-            pubDate = new Date(item["dc:date"]).toISOString();
-          } else {
-            pubDate = new Date().toISOString();
-          }
-        } catch (err) {
-          // Invalid date format, use current time
-          pubDate = new Date().toISOString();
-        }
-
-        // Extract duration (in seconds)
-        let duration = 0;
-        if (item["itunes:duration"]) {
-          const durationStr = String(item["itunes:duration"]);
-          if (durationStr.includes(":")) {
-            const parts = durationStr.split(":").map(Number);
-            if (parts.length === 3) {
-              duration = parts[0] * 3600 + parts[1] * 60 + parts[2];
-            } else if (parts.length === 2) {
-              duration = parts[0] * 60 + parts[1];
-            } else {
-              duration = parseInt(durationStr, 10) || 0;
-            }
-          } else {
-            duration = parseInt(durationStr, 10) || 0;
-          }
-        }
-
-        return {
-          guid,
-          title: item.title,
-          pub_date: pubDate,
-          duration,
-          audio_url: audioUrl,
-        };
-      });
-
-    // Step 6: Send result back to main thread
-    parentPort?.postMessage({
-      podcast,
-      episodes,
-    } as RSSFeed);
+    // Step 3: Send result back to main thread
+    reply(feed);
   } catch (error: any) {
     // Send error back to main thread
-    let errorMessage = "Unknown error parsing RSS feed";
+    let errorMessage = "Unknown error parsing feed";
 
     if (axios.isAxiosError(error)) {
       if (error.code === "ENOTFOUND") {
@@ -157,6 +87,7 @@ parentPort?.on("message", async ({ url }: { url: string }) => {
       } else if (error.code === "ETIMEDOUT") {
         errorMessage = "Request timeout (> 15 seconds)";
       } else if (error.response) {
+        response = error.response;
         errorMessage = `HTTP ${error.response.status}: ${error.response.statusText}`;
       } else {
         errorMessage = error.message;
@@ -165,6 +96,10 @@ parentPort?.on("message", async ({ url }: { url: string }) => {
       errorMessage = error.message || errorMessage;
     }
 
-    parentPort?.postMessage({ error: errorMessage });
+    reply(null, errorMessage);
   }
 });
+
+function headerValue(value: unknown): string | null {
+  return typeof value === "string" && value ? value : null;
+}
@@ -17,6 +17,15 @@ contextBridge.exposeInMainWorld("api", {
   getEpisodes: (podcastId: string) =>
     ipcRenderer.invoke("get_episodes", podcastId),
 
+  getEpisodeChapters: (episodeId: string) =>
+    ipcRenderer.invoke("get_episode_chapters", episodeId),
+
+  markEpisodeSeen: (episodeId: string) =>
+    ipcRenderer.invoke("mark_episode_seen", episodeId),
+
+  markPodcastSeen: (podcastId: string) =>
+    ipcRenderer.invoke("mark_podcast_seen", podcastId),
+
   subscribePodcast: (url: string, artworkUrl?: string) =>
     ipcRenderer.invoke("subscribe_podcast", url, artworkUrl),
 
@@ -31,15 +40,106 @@ contextBridge.exposeInMainWorld("api", {
   updateCustomPrompt: (podcastId: string, prompt: string | null) =>
     ipcRenderer.invoke("update_custom_prompt", podcastId, prompt),
 
+  updatePodcastPromptTemplate: (podcastId: string, templateId: string | null) =>
+    ipcRenderer.invoke("update_podcast_prompt_template", podcastId, templateId),
+
+  getPromptTemplates: () => ipcRenderer.invoke("get_prompt_templates"),
+
+  savePromptTemplate: (template: {
+    id?: string | null;
+    name: string;
+    content: string;
+  }) => ipcRenderer.invoke("save_prompt_template", template),
+
+  deletePromptTemplate: (templateId: string) =>
+    ipcRenderer.invoke("delete_prompt_template", templateId),
+
+  updatePodcastAutoSummarize: (
+    podcastId: string,
+    rule: {
+      enabled: boolean;
+      minDurationMinutes: number | null;
+      titlePattern: string | null;
+      titleRegex: boolean;
+    },
+  ) => ipcRenderer.invoke("update_podcast_auto_summarize", podcastId, rule),
+
+  updatePodcastRefreshInterval: (podcastId: string, minutes: number | null) =>
+    ipcRenderer.invoke("update_podcast_refresh_interval", podcastId, minutes),
+
+  getFeedFetchLog: (podcastId: string) =>
+    ipcRenderer.invoke("get_feed_fetch_log", podcastId),
+
+  updatePodcastSummaryLanguage: (podcastId: string, language: string | null) =>
+    ipcRenderer.invoke("update_podcast_summary_language", podcastId, language),
+
+  updatePodcastAiProvider: (
+    podcastId: string,
+    provider: string | null,
+    model: string | null,
+  ) =>
+    ipcRenderer.invoke(
+      "update_podcast_ai_provider",
+      podcastId,
+      provider,
+      model,
+    ),
+
   deletePodcast: (podcastId: string, permanent: boolean) =>
     ipcRenderer.invoke("delete_podcast", podcastId, permanent),
 
   // ===== AI Summary Methods =====
 
-  runAiSummary: (episodeId: string) =>
-    ipcRenderer.invoke("run_ai_summary", episodeId),
+  runAiSummary: (episodeId: string, templateIds?: string[]) =>
+    ipcRenderer.invoke("run_ai_summary", episodeId, templateIds),
+
+  cancelAiSummary: (episodeId: string) =>
+    ipcRenderer.invoke("cancel_ai_summary", episodeId),
+
+  getSummaryJobs: () => ipcRenderer.invoke("get_summary_jobs"),
+
+  getSummaryConcurrency: () => ipcRenderer.invoke("get_summary_concurrency"),
+
+  setSummaryConcurrency: (concurrency: number) =>
+    ipcRenderer.invoke("set_summary_concurrency", concurrency),
+
+  getSummaryFormat: () => ipcRenderer.invoke("get_summary_format"),
+
+  setSummaryFormat: (format: "markdown" | "structured") =>
+    ipcRenderer.invoke("set_summary_format", format),
+
+  getShowNotesContext: () => ipcRenderer.invoke("get_show_notes_context"),
 
-  getGeneratingStatus: () => ipcRenderer.invoke("get_generating_status"),
+  setShowNotesContext: (enabled: boolean) =>
+    ipcRenderer.invoke("set_show_notes_context", enabled),
+
+  getSummaryLanguage: () => ipcRenderer.invoke("get_summary_language"),
+
+  setSummaryLanguage: (language: string) =>
+    ipcRenderer.invoke("set_summary_language", language),
+
+  getFeedRefreshSettings: () => ipcRenderer.invoke("get_feed_refresh_settings"),
+
+  setFeedRefreshSettings: (settings: {
+    intervalMinutes: number;
+    pauseOnBattery: boolean;
+  }) => ipcRenderer.invoke("set_feed_refresh_settings", settings),
+
+  getUsageLimits: () => ipcRenderer.invoke("get_usage_limits"),
+
+  setUsageLimits: (limits: {
+    daily: {
+      tokens: number | null;
+      audioHours: number | null;
+      cost: number | null;
+    };
+    monthly: {
+      tokens: number | null;
+      audioHours: number | null;
+      cost: number | null;
+    };
+    warnAtPercent: number;
+  }) => ipcRenderer.invoke("set_usage_limits", limits),
 
   getDocuments: (episodeId: string) =>
     ipcRenderer.invoke("get_documents", episodeId),
@@ -50,6 +150,54 @@ contextBridge.exposeInMainWorld("api", {
   deleteSummary: (documentId: string) =>
     ipcRenderer.invoke("delete_summary", documentId),
 
+  setPrimaryDocument: (documentId: string) =>
+    ipcRenderer.invoke("set_primary_document", documentId),
+
+  setDocumentPinned: (documentId: string, pinned: boolean) =>
+    ipcRenderer.invoke("set_document_pinned", documentId, pinned),
+
+  translateSummary: (documentId: string, language: string) =>
+    ipcRenderer.invoke("translate_summary", documentId, language),
+
+  getTranscript: (episodeId: string) =>
+    ipcRenderer.invoke("get_transcript", episodeId),
+
+  deleteTranscript: (episodeId: string) =>
+    ipcRenderer.invoke("delete_transcript", episodeId),
+
+  importPublisherTranscript: (episodeId: string) =>
+    ipcRenderer.invoke("import_publisher_transcript", episodeId),
+
+  chatWithEpisode: (episodeId: string, question: string) =>
+    ipcRenderer.invoke("chat_with_episode", episodeId, question),
+
+  cancelEpisodeChat: (episodeId: string) =>
+    ipcRenderer.invoke("cancel_episode_chat", episodeId),
+
+  getEpisodeChat: (episodeId: string) =>
+    ipcRenderer.invoke("get_episode_chat", episodeId),
+
+  clearEpisodeChat: (episodeId: string) =>
+    ipcRenderer.invoke("clear_episode_chat", episodeId),
+
+  askLibrary: (question: string) => ipcRenderer.invoke("ask_library", question),
+
+  cancelLibraryQuestion: () => ipcRenderer.invoke("cancel_library_question"),
+
+  searchLibrary: (
+    query: string,
+    filters?: {
+      podcastId?: string | null;
+      from?: string | null;
+      to?: string | null;
+      types?: string[];
+      mode?: string;
+    },
+  ) => ipcRenderer.invoke("search_library", query, filters),
+
+  getRelatedEpisodes: (episodeId: string) =>
+    ipcRenderer.invoke("get_related_episodes", episodeId),
+
   // ===== Download Methods =====
 
   downloadEpisode: (episodeId: string, destDir: string) =>
@@ -68,13 +216,23 @@ contextBridge.exposeInMainWorld("api", {
 
   getDbStats: () => ipcRenderer.invoke("get_db_stats"),
 
-  // ===== API Key Methods =====
+  // ===== AI Provider Methods =====
+
+  getAiSettings: () => ipcRenderer.invoke("get_ai_settings"),
 
-  saveApiKey: (apiKey: string) => ipcRenderer.invoke("save_api_key", apiKey),
+  saveAiSettings: (settings: {
+    provider: string;
+    model: string;
+    baseUrl: string;
+    transcriptionModel: string;
+    embeddingModel: string;
+  }) => ipcRenderer.invoke("save_ai_settings", settings),
 
-  getApiKey: () => ipcRenderer.invoke("get_api_key"),
+  saveApiKey: (provider: string, apiKey: string) =>
+    ipcRenderer.invoke("save_api_key", provider, apiKey),
 
-  removeApiKey: () => ipcRenderer.invoke("remove_api_key"),
+  removeApiKey: (provider: string) =>
+    ipcRenderer.invoke("remove_api_key", provider),
 
   openEnvFolder: () => ipcRenderer.invoke("open_env_folder"),
 
@@ -87,6 +245,8 @@ contextBridge.exposeInMainWorld("api", {
       type: string;
       podcastId: string;
       newCount: number;
+      updatedCount: number;
+      removedCount: number;
     }) => void,
   ) => {
     const subscription = (_: any, data: any) => callback(data);
@@ -94,19 +254,112 @@ contextBridge.exposeInMainWorld("api", {
     return () => ipcRenderer.removeListener("feed_synced", subscription);
   },
 
+  onSummaryQueued: (
+    callback: (data: {
+      type: string;
+      jobId: string;
+      episodeId: string;
+    }) => void,
+  ) => {
+    const subscription = (_: any, data: any) => callback(data);
+    ipcRenderer.on("summary_queued", subscription);
+    return () => ipcRenderer.removeListener("summary_queued", subscription);
+  },
+
+  onSummaryStarted: (
+    callback: (data: {
+      type: string;
+      jobId: string;
+      episodeId: string;
+    }) => void,
+  ) => {
+    const subscription = (_: any, data: any) => callback(data);
+    ipcRenderer.on("summary_started", subscription);
+    return () => ipcRenderer.removeListener("summary_started", subscription);
+  },
+
   onSummaryCompleted: (
-    callback: (data: { type: string; episodeId: string }) => void,
+    callback: (data: {
+      type: string;
+      jobId: string;
+      episodeId: string;
+    }) => void,
   ) => {
     const subscription = (_: any, data: any) => callback(data);
     ipcRenderer.on("summary_completed", subscription);
     return () => ipcRenderer.removeListener("summary_completed", subscription);
   },
 
+  onSummaryCancelled: (
+    callback: (data: {
+      type: string;
+      jobId: string;
+      episodeId: string;
+    }) => void,
+  ) => {
+    const subscription = (_: any, data: any) => callback(data);
+    ipcRenderer.on("summary_cancelled", subscription);
+    return () => ipcRenderer.removeListener("summary_cancelled", subscription);
+  },
+
+  onSummaryChunk: (
+    callback: (data: {
+      type: string;
+      jobId: string;
+      episodeId: string;
+      text: string;
+    }) => void,
+  ) => {
+    const subscription = (_: any, data: any) => callback(data);
+    ipcRenderer.on("summary_chunk", subscription);
+    return () => ipcRenderer.removeListener("summary_chunk", subscription);
+  },
+
+  onUsageLimit: (
+    callback: (data: {
+      type: string;
+      level: "warning" | "reached";
+      period: "daily" | "monthly";
+      metric: "tokens" | "audioHours" | "cost";
+      used: number;
+      limit: number;
+      resetAt: string;
+    }) => void,
+  ) => {
+    const subscription = (_: any, data: any) => callback(data);
+    ipcRenderer.on("usage_limit", subscription);
+    return () => ipcRenderer.removeListener("usage_limit", subscription);
+  },
+
+  onSummaryProgress: (
+    callback: (data: {
+      type: string;
+      jobId: string;
+      episodeId: string;
+      stage: "transcribing" | "summarizing" | "merging";
+      chunk: number;
+      totalChunks: number;
+    }) => void,
+  ) => {
+    const subscription = (_: any, data: any) => callback(data);
+    ipcRenderer.on("summary_progress", subscription);
+    return () => ipcRenderer.removeListener("summary_progress", subscription);
+  },
+
   onSummaryFailed: (
     callback: (data: {
       type: string;
+      jobId: string;
       episodeId: string;
       error: string;
+      category:
+        | "auth"
+        | "quota"
+        | "safety"
+        | "timeout"
+        | "network"
+        | "unavailable"
+        | "unknown";
     }) => void,
   ) => {
     const subscription = (_: any, data: any) => callback(data);
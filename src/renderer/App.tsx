@@ -2,25 +2,31 @@ import { useState, useEffect, useRef } from "react";
 import { QueryClient, QueryClientProvider, useQueryClient } from "@tanstack/react-query";
 import { useAppStore } from "./stores/useAppStore";
 import { useToastStore } from "./stores/useToastStore";
+import { useGeneratingStore } from "./stores/useGeneratingStore";
 import { Sidebar } from "./components/Sidebar";
 import { TabNavigation } from "./components/TabNavigation";
 import { GlobalToast } from "./components/GlobalToast";
 import { SubscribeDialog } from "./components/SubscribeDialog";
 import { SearchResults } from "./components/SearchResults";
 import { CustomPromptDialog } from "./components/CustomPromptDialog";
+import { PromptTemplatesDialog } from "./components/PromptTemplatesDialog";
 import { ApiKeyModal } from "./components/ApiKeyModal";
 import { SummaryModal } from "./components/SummaryModal";
 import { OverwriteAlertDialog } from "./components/OverwriteAlertDialog";
 import { EpisodesTabContent } from "./components/EpisodesTabContent";
 import { LocalUploadTabContent } from "./components/LocalUploadTabContent";
 import { KnowledgeContent } from "./components/KnowledgeContent";
+import { LibrarySearchTabContent } from "./components/LibrarySearchTabContent";
+import { UsageTabContent } from "./components/UsageTabContent";
 import {
   usePodcasts,
   useDownloadEpisode,
-  useGetApiKey,
+  useAiSettings,
   useRunAiSummary,
   useSyncAllPodcasts,
+  useMarkEpisodeSeen,
 } from "./hooks/useQueries";
+import type { SearchResult } from "../shared/types";
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -36,6 +42,8 @@ function AppContent() {
   // Dialog state
   const [subscribeDialogOpen, setSubscribeDialogOpen] = useState(false);
   const [customPromptDialogOpen, setCustomPromptDialogOpen] = useState(false);
+  const [promptTemplatesDialogOpen, setPromptTemplatesDialogOpen] =
+    useState(false);
   const [apiKeyModalOpen, setApiKeyModalOpen] = useState(false);
   const [summaryModalOpen, setSummaryModalOpen] = useState(false);
   const [overwriteDialogOpen, setOverwriteDialogOpen] = useState(false);
@@ -44,6 +52,9 @@ function AppContent() {
   >(null);
   const [selectedEpisodeIdForSummary, setSelectedEpisodeIdForSummary] =
     useState<string | null>(null);
+  const [summaryModalView, setSummaryModalView] = useState<
+    "summary" | "transcript"
+  >("summary");
 
   // Global store
   const {
@@ -57,13 +68,18 @@ function AppContent() {
   } = useAppStore();
   const addToast = useToastStore((s) => s.addToast);
   const removeToast = useToastStore((s) => s.removeToast);
+  const setJobStatus = useGeneratingStore((s) => s.setJobStatus);
+  const setJobs = useGeneratingStore((s) => s.setJobs);
+  const setProgress = useGeneratingStore((s) => s.setProgress);
+  const setStreamingText = useGeneratingStore((s) => s.setStreamingText);
 
   // Data
   const { data: podcasts = [] } = usePodcasts();
-  const { data: apiKey } = useGetApiKey();
+  const { data: aiSettings } = useAiSettings();
   const downloadMutation = useDownloadEpisode();
   const runSummary = useRunAiSummary();
   const syncAll = useSyncAllPodcasts();
+  const markEpisodeSeen = useMarkEpisodeSeen();
   const hasSynced = useRef(false);
   const qc = useQueryClient();
   // Auto-sync all podcasts on startup
@@ -74,16 +90,59 @@ function AppContent() {
     }
   }, [podcasts]);
 
-    // Global listener: when backend emits summary_completed, force-refresh all document queries
+  // Global listener: when backend emits summary_completed, force-refresh all document queries
   useEffect(() => {
     const unsub = window.api.onSummaryCompleted((data) => {
       qc.invalidateQueries({ queryKey: ["documents", data.episodeId] });
+      qc.invalidateQueries({ queryKey: ["transcript", data.episodeId] });
       qc.invalidateQueries({ queryKey: ["documents-by-podcast"] });
       qc.invalidateQueries({ queryKey: ["episodes"] });
+      qc.invalidateQueries({ queryKey: ["related-episodes"] });
+      qc.invalidateQueries({ queryKey: ["db-stats"] });
     });
     return unsub;
   }, [qc]);
-  
+
+  // Feeds are also refreshed in the background by the main process
+  useEffect(() => {
+    const unsub = window.api.onFeedSynced((data) => {
+      qc.invalidateQueries({ queryKey: ["podcasts"] });
+      qc.invalidateQueries({ queryKey: ["podcast", data.podcastId] });
+      qc.invalidateQueries({ queryKey: ["episodes", data.podcastId] });
+    });
+    return unsub;
+  }, [qc]);
+
+  // Mirror the backend summary queue (survives reloads via get_summary_jobs)
+  useEffect(() => {
+    window.api.getSummaryJobs().then((result) => {
+      if (result.success) setJobs(result.data);
+    });
+
+    const unsubs = [
+      window.api.onSummaryQueued((data) =>
+        setJobStatus(data.episodeId, "pending"),
+      ),
+      window.api.onSummaryStarted((data) =>
+        setJobStatus(data.episodeId, "running"),
+      ),
+      window.api.onSummaryCompleted((data) =>
+        setJobStatus(data.episodeId, null),
+      ),
+      window.api.onSummaryProgress(({ episodeId, stage, chunk, totalChunks }) =>
+        setProgress(episodeId, { stage, chunk, totalChunks }),
+      ),
+      window.api.onSummaryFailed((data) => setJobStatus(data.episodeId, null)),
+      window.api.onSummaryChunk((data) =>
+        setStreamingText(data.episodeId, data.text),
+      ),
+      window.api.onSummaryCancelled((data) =>
+        setJobStatus(data.episodeId, null),
+      ),
+    ];
+    return () => unsubs.forEach((unsub) => unsub());
+  }, [setJobStatus, setJobs, setProgress, setStreamingText]);
+
   const activePodcast =
     podcasts.find((p: any) => p.id === activePodcastId) || null;
 
@@ -91,6 +150,9 @@ function AppContent() {
 
   const handleEpisodeClick = (episode: any) => {
     setActiveEpisode(episode.id);
+    if (episode.is_new) {
+      markEpisodeSeen.mutate({ episodeId: episode.id });
+    }
   };
 
   const handleDownload = (episodeId: string, episodeTitle: string) => {
@@ -128,27 +190,25 @@ function AppContent() {
 
   const handleReadSummary = (episodeId: string) => {
     setSelectedEpisodeIdForSummary(episodeId);
+    setSummaryModalView("summary");
     setSummaryModalOpen(true);
   };
 
   const executeSummary = async (episodeId: string) => {
-    const loadingToastId = addToast({
-      type: "loading",
-      title: "Generating AI summary...",
-      duration: 60000,
-    });
-
     try {
-      await runSummary.mutateAsync(episodeId);
-      removeToast(loadingToastId);
-      addToast({ type: "success", title: "Summary generated", duration: 3000 });
+      await runSummary.mutateAsync({ episodeId });
+      addToast({
+        type: "info",
+        title: "Added to summary queue",
+        description: "You will be notified when the summary is ready",
+        duration: 3000,
+      });
     } catch (error: any) {
-      removeToast(loadingToastId);
       if (error.message === "API_KEY_MISSING") {
         addToast({
           type: "warning",
-          title: "API Key required",
-          description: "Please set your Gemini API Key",
+          title: "AI provider required",
+          description: "Please configure an AI provider",
           duration: 5000,
         });
         setApiKeyModalOpen(true);
@@ -164,12 +224,11 @@ function AppContent() {
   };
 
   const onAiSummaryClick = async (episodeId: string) => {
-    if (!apiKey) {
+    if (!aiSettings?.isConfigured) {
       addToast({
         type: "warning",
-        title: "API Key required",
-        description:
-          "Please set your Gemini API Key first to generate summaries",
+        title: "AI provider required",
+        description: "Please configure an AI provider first to generate summaries",
         duration: 5000,
       });
       setApiKeyModalOpen(true);
@@ -197,6 +256,15 @@ function AppContent() {
 
   const handleKnowledgeDocClick = (doc: any) => {
     setSelectedEpisodeIdForSummary(doc.episode_id);
+    setSummaryModalView("summary");
+    setSummaryModalOpen(true);
+  };
+
+  const handleSearchResultClick = (result: SearchResult) => {
+    setSelectedEpisodeIdForSummary(result.episode_id);
+    setSummaryModalView(
+      result.type === "transcript" ? "transcript" : "summary",
+    );
     setSummaryModalOpen(true);
   };
 
@@ -247,6 +315,12 @@ function AppContent() {
             <KnowledgeContent onDocumentClick={handleKnowledgeDocClick} />
           </div>
         );
+      case "search":
+        return (
+          <LibrarySearchTabContent onResultClick={handleSearchResultClick} />
+        );
+      case "usage":
+        return <UsageTabContent />;
       default:
         return null;
     }
@@ -275,13 +349,23 @@ function AppContent() {
           open={customPromptDialogOpen}
           onOpenChange={setCustomPromptDialogOpen}
           podcastId={activePodcastId}
+          onManageTemplates={() => setPromptTemplatesDialogOpen(true)}
         />
       )}
+      <PromptTemplatesDialog
+        open={promptTemplatesDialogOpen}
+        onOpenChange={setPromptTemplatesDialogOpen}
+      />
       <ApiKeyModal open={apiKeyModalOpen} onOpenChange={setApiKeyModalOpen} />
       <SummaryModal
         open={summaryModalOpen}
         onOpenChange={setSummaryModalOpen}
         episodeId={selectedEpisodeIdForSummary}
+        initialView={summaryModalView}
+        onOpenEpisode={(episodeId) => {
+          setSelectedEpisodeIdForSummary(episodeId);
+          setSummaryModalView("summary");
+        }}
       />
       <OverwriteAlertDialog
         open={overwriteDialogOpen}
@@ -1,14 +1,80 @@
 import React, { useState, useEffect } from "react";
 import * as Dialog from "@radix-ui/react-dialog";
-import { useSaveApiKey, useRemoveApiKey } from "../hooks/useQueries";
-import { useQueryClient } from "@tanstack/react-query";
+import {
+  useAiSettings,
+  useSaveAiSettings,
+  useSaveApiKey,
+  useRemoveApiKey,
+  useSummaryConcurrency,
+  useSetSummaryConcurrency,
+  useSummaryLanguage,
+  useSetSummaryLanguage,
+  useSummaryFormat,
+  useSetSummaryFormat,
+  useShowNotesContext,
+  useSetShowNotesContext,
+  useFeedRefreshSettings,
+  useSetFeedRefreshSettings,
+} from "../hooks/useQueries";
+import { formatRefreshInterval } from "../utils/feedRefresh";
+import { FEED_REFRESH_INTERVALS, SUMMARY_LANGUAGES } from "../../shared/types";
+import type { AIProviderId, SummaryFormat } from "../../shared/types";
 
 interface ApiKeyModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
+const SUMMARY_FORMATS: { id: SummaryFormat; label: string; title: string }[] = [
+  {
+    id: "markdown",
+    label: "Markdown",
+    title: "Free-form summary following the prompt",
+  },
+  {
+    id: "structured",
+    label: "Structured",
+    title:
+      "Guests, topics, insights, action items, resources, keywords and timestamps as filterable fields",
+  },
+];
+
+const PROVIDERS: {
+  id: AIProviderId;
+  label: string;
+  defaultModel: string;
+  defaultEmbeddingModel: string;
+  usesKey: boolean;
+}[] = [
+  {
+    id: "gemini",
+    label: "Google Gemini",
+    defaultModel: "gemini-2.5-flash",
+    defaultEmbeddingModel: "text-embedding-004",
+    usesKey: true,
+  },
+  {
+    id: "openai",
+    label: "OpenAI-compatible",
+    defaultModel: "gpt-4o-mini",
+    defaultEmbeddingModel: "text-embedding-3-small",
+    usesKey: true,
+  },
+  {
+    id: "fake",
+    label: "Offline (fake)",
+    defaultModel: "fake-1",
+    defaultEmbeddingModel: "fake-embedding-1",
+    usesKey: false,
+  },
+];
+
 export function ApiKeyModal({ open, onOpenChange }: ApiKeyModalProps) {
+  const [provider, setProvider] = useState<AIProviderId>("gemini");
+  const [model, setModel] = useState("");
+  const [baseUrl, setBaseUrl] = useState("");
+  const [transcriptionModel, setTranscriptionModel] = useState("");
+  const [embeddingModel, setEmbeddingModel] = useState("");
   const [apiKey, setApiKey] = useState("");
   const [showKey, setShowKey] = useState(false);
   const [status, setStatus] = useState<
@@ -16,37 +82,64 @@ export function ApiKeyModal({ open, onOpenChange }: ApiKeyModalProps) {
   >("idle");
   const [statusMessage, setStatusMessage] = useState("");
 
-  const queryClient = useQueryClient();
+  const { data: aiSettings } = useAiSettings();
+  const saveAiSettingsMutation = useSaveAiSettings();
   const saveApiKeyMutation = useSaveApiKey();
   const removeApiKeyMutation = useRemoveApiKey();
+  const { data: concurrency = 1 } = useSummaryConcurrency();
+  const setConcurrencyMutation = useSetSummaryConcurrency();
+  const { data: summaryLanguage = "" } = useSummaryLanguage();
+  const setSummaryLanguageMutation = useSetSummaryLanguage();
+  const [language, setLanguage] = useState("");
+  const { data: summaryFormat = "markdown" } = useSummaryFormat();
+  const setSummaryFormatMutation = useSetSummaryFormat();
+  const { data: showNotesContext = false } = useShowNotesContext();
+  const setShowNotesContextMutation = useSetShowNotesContext();
+  const { data: feedRefresh } = useFeedRefreshSettings();
+  const setFeedRefreshMutation = useSetFeedRefreshSettings();
+
+  const providerInfo = PROVIDERS.find((p) => p.id === provider)!;
+  const storedKey = aiSettings?.apiKeys[provider] ?? "";
 
   useEffect(() => {
-    if (open) {
-      loadApiKey();
+    if (open && aiSettings) {
+      setProvider(aiSettings.provider);
+      setModel(aiSettings.model);
+      setBaseUrl(aiSettings.baseUrl);
+      setTranscriptionModel(aiSettings.transcriptionModel);
+      setEmbeddingModel(aiSettings.embeddingModel);
     }
-  }, [open]);
+  }, [open, aiSettings]);
 
-  const loadApiKey = async () => {
-    try {
-      const result = await window.api.getApiKey();
-      if (result.success && result.data) {
-        setApiKey(result.data);
-        setStatus("valid");
-        setStatusMessage("Valid - Connected to Gemini 2.5 Flash");
-      } else {
-        setApiKey("");
-        setStatus("idle");
-        setStatusMessage("");
-      }
-    } catch (error) {
-      setApiKey("");
+  useEffect(() => {
+    if (open) setLanguage(summaryLanguage);
+  }, [open, summaryLanguage]);
+
+  // Saved when the field loses focus
+  const handleLanguageBlur = () => {
+    const value = language.trim();
+    if (!value) {
+      setLanguage(summaryLanguage);
+    } else if (value !== summaryLanguage) {
+      setSummaryLanguageMutation.mutate(value);
+    }
+  };
+
+  // Show the stored key of whichever provider is selected
+  useEffect(() => {
+    if (!open) return;
+    setApiKey(storedKey);
+    if (storedKey) {
+      setStatus("valid");
+      setStatusMessage(`Key saved for ${providerInfo.label}`);
+    } else {
       setStatus("idle");
       setStatusMessage("");
     }
-  };
+  }, [open, providerInfo.label, storedKey]);
 
   const handleSave = async () => {
-    if (!apiKey.trim()) {
+    if (provider === "gemini" && !apiKey.trim()) {
       setStatus("invalid");
       setStatusMessage("Please enter a valid API key");
       return;
@@ -55,28 +148,41 @@ export function ApiKeyModal({ open, onOpenChange }: ApiKeyModalProps) {
     setStatus("checking");
     setStatusMessage("Validating...");
 
-    saveApiKeyMutation.mutate(apiKey.trim(), {
-      onSuccess: () => {
-        setStatus("valid");
-        setStatusMessage("Valid - Connected to Gemini 2.5 Flash");
-        queryClient.invalidateQueries({ queryKey: ["api-key"] });
-        onOpenChange(false);
-      },
-      onError: (error: Error) => {
-        setStatus("invalid");
-        setStatusMessage(error.message || "Invalid API key");
-      },
-    });
+    try {
+      if (
+        providerInfo.usesKey &&
+        apiKey.trim() &&
+        apiKey.trim() !== storedKey
+      ) {
+        await saveApiKeyMutation.mutateAsync({
+          provider,
+          apiKey: apiKey.trim(),
+        });
+      }
+      await saveAiSettingsMutation.mutateAsync({
+        provider,
+        model,
+        baseUrl,
+        transcriptionModel,
+        embeddingModel,
+      });
+      setStatus("valid");
+      setStatusMessage(
+        `Using ${providerInfo.label} (${model.trim() || providerInfo.defaultModel})`,
+      );
+      onOpenChange(false);
+    } catch (error) {
+      setStatus("invalid");
+      setStatusMessage((error as Error).message || "Invalid settings");
+    }
   };
 
   const handleRemove = () => {
-    removeApiKeyMutation.mutate(undefined, {
+    removeApiKeyMutation.mutate(provider, {
       onSuccess: () => {
         setApiKey("");
         setStatus("idle");
         setStatusMessage("");
-        queryClient.invalidateQueries({ queryKey: ["api-key"] });
-        onOpenChange(false);
       },
       onError: (error: Error) => {
         setStatus("invalid");
@@ -91,6 +197,9 @@ export function ApiKeyModal({ open, onOpenChange }: ApiKeyModalProps) {
     }
   };
 
+  const inputClassName =
+    "w-full h-11 px-4 rounded-md bg-[#00000080] border border-[#27272a] text-[#e4e4e7] text-sm outline-none focus:border-accent-primary transition-colors placeholder-[#52525b]";
+
   return (
     <Dialog.Root open={open} onOpenChange={onOpenChange}>
       <Dialog.Portal>
@@ -99,7 +208,7 @@ export function ApiKeyModal({ open, onOpenChange }: ApiKeyModalProps) {
           {/* Header */}
           <div className="flex items-center justify-between h-14 px-6 border-b border-[#27272a]">
             <Dialog.Title className="text-[#f4f4f5] font-medium text-base">
-              API Settings
+              AI Settings
             </Dialog.Title>
             <Dialog.Close asChild>
               <button
@@ -123,58 +232,145 @@ export function ApiKeyModal({ open, onOpenChange }: ApiKeyModalProps) {
 
           {/* Body */}
           <div className="p-6 space-y-4">
-            {/* Label */}
-            <div className="text-[#a1a1aa] text-sm font-medium">
-              Google Gemini API Key
-            </div>
-
-            {/* Input Row */}
-            <div className="flex gap-2">
-              <div className="flex-1 relative">
-                <input
-                  type={showKey ? "text" : "password"}
-                  value={apiKey}
-                  onChange={(e) => {
-                    setApiKey(e.target.value);
-                    if (status !== "idle") {
-                      setStatus("idle");
-                      setStatusMessage("");
-                    }
-                  }}
-                  onKeyDown={handleKeyDown}
-                  placeholder="Enter your API key..."
-                  className="w-full h-11 px-4 pr-12 rounded-md bg-[#00000080] border border-[#27272a] text-[#e4e4e7] text-sm outline-none focus:border-accent-primary transition-colors placeholder-[#52525b]"
-                />
+            {/* Provider */}
+            <div className="text-[#a1a1aa] text-sm font-medium">Provider</div>
+            <div className="flex gap-1">
+              {PROVIDERS.map((p) => (
                 <button
+                  key={p.id}
                   type="button"
-                  onClick={() => setShowKey(!showKey)}
-                  className="absolute right-2 top-1/2 -translate-y-1/2 w-8 h-8 flex items-center justify-center rounded-md hover:bg-[#27272a] transition-colors"
+                  onClick={() => setProvider(p.id)}
+                  className={`flex-1 h-9 rounded-md text-sm transition-colors ${
+                    provider === p.id
+                      ? "bg-accent-primary text-white"
+                      : "text-[#a1a1aa] hover:bg-[#27272a]"
+                  }`}
                 >
-                  <svg
-                    className="w-4 h-4 text-[#a1a1aa]"
-                    fill="none"
-                    stroke="currentColor"
-                    strokeWidth="2"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    viewBox="0 0 24 24"
-                  >
-                    {showKey ? (
-                      <>
-                        <path d="M17.94 17.94A10.07 10.07 0 0 1 12 20c-7 0-11-8-11-8a18.45 18.45 0 0 1 5.06-5.94M9.9 4.24A9.12 9.12 0 0 1 12 4c7 0 11 8 11 8a18.5 18.5 0 0 1-2.16 3.19m-6.72-1.07a3 3 0 1 1-4.24-4.24" />
-                        <line x1="1" y1="1" x2="23" y2="23" />
-                      </>
-                    ) : (
-                      <>
-                        <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z" />
-                        <circle cx="12" cy="12" r="3" />
-                      </>
-                    )}
-                  </svg>
+                  {p.label}
                 </button>
+              ))}
+            </div>
+
+            {/* Model */}
+            <div className="space-y-1.5">
+              <div className="text-[#a1a1aa] text-sm font-medium">Model</div>
+              <input
+                type="text"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder={providerInfo.defaultModel}
+                className={inputClassName}
+              />
+            </div>
+
+            {/* Embedding model */}
+            <div className="space-y-1.5">
+              <div className="text-[#a1a1aa] text-sm font-medium">
+                Embedding model
+              </div>
+              <input
+                type="text"
+                value={embeddingModel}
+                onChange={(e) => setEmbeddingModel(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder={providerInfo.defaultEmbeddingModel}
+                className={inputClassName}
+              />
+              <div className="text-[#52525b] text-xs">
+                Used for semantic search and related episodes. Changing it
+                re-indexes the library in the background.
               </div>
             </div>
 
+            {provider === "openai" && (
+              <>
+                <div className="space-y-1.5">
+                  <div className="text-[#a1a1aa] text-sm font-medium">
+                    Base URL
+                  </div>
+                  <input
+                    type="text"
+                    value={baseUrl}
+                    onChange={(e) => setBaseUrl(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder="https://api.openai.com/v1"
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <div className="text-[#a1a1aa] text-sm font-medium">
+                    Transcription model
+                  </div>
+                  <input
+                    type="text"
+                    value={transcriptionModel}
+                    onChange={(e) => setTranscriptionModel(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder="whisper-1"
+                    className={inputClassName}
+                  />
+                </div>
+              </>
+            )}
+
+            {providerInfo.usesKey && (
+              <div className="text-[#a1a1aa] text-sm font-medium">
+                {provider === "gemini"
+                  ? "Google Gemini API Key"
+                  : "API Key (optional for local servers)"}
+              </div>
+            )}
+
+            {/* Input Row */}
+            {providerInfo.usesKey && (
+              <div className="flex gap-2">
+                <div className="flex-1 relative">
+                  <input
+                    type={showKey ? "text" : "password"}
+                    value={apiKey}
+                    onChange={(e) => {
+                      setApiKey(e.target.value);
+                      if (status !== "idle") {
+                        setStatus("idle");
+                        setStatusMessage("");
+                      }
+                    }}
+                    onKeyDown={handleKeyDown}
+                    placeholder="Enter your API key..."
+                    className="w-full h-11 px-4 pr-12 rounded-md bg-[#00000080] border border-[#27272a] text-[#e4e4e7] text-sm outline-none focus:border-accent-primary transition-colors placeholder-[#52525b]"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowKey(!showKey)}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 w-8 h-8 flex items-center justify-center rounded-md hover:bg-[#27272a] transition-colors"
+                  >
+                    <svg
+                      className="w-4 h-4 text-[#a1a1aa]"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      viewBox="0 0 24 24"
+                    >
+                      {showKey ? (
+                        <>
+                          <path d="M17.94 17.94A10.07 10.07 0 0 1 12 20c-7 0-11-8-11-8a18.45 18.45 0 0 1 5.06-5.94M9.9 4.24A9.12 9.12 0 0 1 12 4c7 0 11 8 11 8a18.5 18.5 0 0 1-2.16 3.19m-6.72-1.07a3 3 0 1 1-4.24-4.24" />
+                          <line x1="1" y1="1" x2="23" y2="23" />
+                        </>
+                      ) : (
+                        <>
+                          <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z" />
+                          <circle cx="12" cy="12" r="3" />
+                        </>
+                      )}
+                    </svg>
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* Status */}
             {status !== "idle" && (
               <div className="flex items-center gap-2">
@@ -234,16 +430,143 @@ export function ApiKeyModal({ open, onOpenChange }: ApiKeyModalProps) {
               </div>
             )}
 
+            {/* Summary output language */}
+            <div className="flex items-center justify-between gap-4 pt-2">
+              <div className="text-[#a1a1aa] text-sm font-medium whitespace-nowrap">
+                Summary language
+              </div>
+              <input
+                type="text"
+                list="summary-languages"
+                value={language}
+                onChange={(e) => setLanguage(e.target.value)}
+                onBlur={handleLanguageBlur}
+                className={`${inputClassName} max-w-[220px]`}
+              />
+              <datalist id="summary-languages">
+                {SUMMARY_LANGUAGES.map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+            </div>
+
+            {/* Summary output format */}
+            <div className="flex items-center justify-between pt-2">
+              <div className="text-[#a1a1aa] text-sm font-medium">
+                Summary format
+              </div>
+              <div className="flex gap-1">
+                {SUMMARY_FORMATS.map((format) => (
+                  <button
+                    key={format.id}
+                    type="button"
+                    title={format.title}
+                    onClick={() => setSummaryFormatMutation.mutate(format.id)}
+                    className={`h-8 px-3 rounded-md text-sm transition-colors ${
+                      summaryFormat === format.id
+                        ? "bg-accent-primary text-white"
+                        : "text-[#a1a1aa] hover:bg-[#27272a]"
+                    }`}
+                  >
+                    {format.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Show notes as extra prompt context */}
+            <div className="flex items-center justify-between pt-2">
+              <div className="text-[#a1a1aa] text-sm font-medium">
+                Show notes in prompt
+              </div>
+              <label className="flex items-center gap-1.5 text-xs text-[#a1a1aa] cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showNotesContext}
+                  onChange={(e) =>
+                    setShowNotesContextMutation.mutate(e.target.checked)
+                  }
+                />
+                Add as context
+              </label>
+            </div>
+
+            {/* Summary queue concurrency */}
+            <div className="flex items-center justify-between pt-2">
+              <div className="text-[#a1a1aa] text-sm font-medium">
+                Parallel summaries
+              </div>
+              <div className="flex gap-1">
+                {[1, 2, 3, 4].map((value) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => setConcurrencyMutation.mutate(value)}
+                    className={`w-8 h-8 rounded-md text-sm transition-colors ${
+                      concurrency === value
+                        ? "bg-accent-primary text-white"
+                        : "text-[#a1a1aa] hover:bg-[#27272a]"
+                    }`}
+                  >
+                    {value}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Scheduled background feed refresh */}
+            {feedRefresh && (
+              <div className="flex items-center justify-between gap-4 pt-2">
+                <div className="text-[#a1a1aa] text-sm font-medium whitespace-nowrap">
+                  Refresh feeds
+                </div>
+                <div className="flex items-center gap-3">
+                  <label className="flex items-center gap-1.5 text-xs text-[#a1a1aa] cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={feedRefresh.pauseOnBattery}
+                      onChange={(e) =>
+                        setFeedRefreshMutation.mutate({
+                          ...feedRefresh,
+                          pauseOnBattery: e.target.checked,
+                        })
+                      }
+                    />
+                    Pause on battery
+                  </label>
+                  <select
+                    value={feedRefresh.intervalMinutes}
+                    onChange={(e) =>
+                      setFeedRefreshMutation.mutate({
+                        ...feedRefresh,
+                        intervalMinutes: Number(e.target.value),
+                      })
+                    }
+                    className={`${inputClassName} max-w-[140px]`}
+                  >
+                    <option value={0}>Off</option>
+                    {FEED_REFRESH_INTERVALS.map((minutes) => (
+                      <option key={minutes} value={minutes}>
+                        Every {formatRefreshInterval(minutes)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+
             {/* Links */}
             <div className="flex flex-col gap-1.5">
-              <a
-                href="https://makersuite.google.com/app/apikey"
-                target="_blank"
-                rel="noopener noreferrer"
-                className="inline-flex items-center text-accent-primary hover:text-accent-primary/80 text-sm transition-colors"
-              >
-                Get API Key from Google AI Studio →
-              </a>
+              {provider === "gemini" && (
+                <a
+                  href="https://makersuite.google.com/app/apikey"
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center text-accent-primary hover:text-accent-primary/80 text-sm transition-colors"
+                >
+                  Get API Key from Google AI Studio →
+                </a>
+              )}
               <button
                 type="button"
                 onClick={() => window.api.openEnvFolder()}
@@ -257,7 +580,7 @@ export function ApiKeyModal({ open, onOpenChange }: ApiKeyModalProps) {
           {/* Footer */}
           <div className="flex justify-between px-6 py-4 border-t border-[#27272a]">
             <div>
-              {status === "valid" && (
+              {providerInfo.usesKey && storedKey && (
                 <button
                   onClick={handleRemove}
                   className="px-4 py-2 rounded-lg text-status-error hover:bg-[#f43f5e1a] transition-colors text-sm"
@@ -277,7 +600,10 @@ export function ApiKeyModal({ open, onOpenChange }: ApiKeyModalProps) {
               </Dialog.Close>
               <button
                 onClick={handleSave}
-                disabled={status === "checking" || !apiKey.trim()}
+                disabled={
+                  status === "checking" ||
+                  (provider === "gemini" && !apiKey.trim())
+                }
                 className="px-4 py-2 rounded-lg bg-accent-primary hover:bg-accent-primary/90 disabled:bg-[#27272a] disabled:text-[#52525b] text-white text-sm transition-colors"
               >
                 {status === "checking" ? "Validating..." : "Save"}
@@ -0,0 +1,154 @@
+import { useEffect, useRef, useState } from "react";
+import { marked } from "marked";
+import DOMPurify from "dompurify";
+import {
+  useEpisodeChat,
+  useChatWithEpisode,
+  useClearEpisodeChat,
+} from "../hooks/useQueries";
+import { useToastStore } from "../stores/useToastStore";
+
+interface ChatPanelProps {
+  episodeId: string | null;
+}
+
+/**
+ * Follow-up Q&A about one episode, grounded in its transcript and summary.
+ * The conversation is stored per episode and reloaded when reopened.
+ */
+export function ChatPanel({ episodeId }: ChatPanelProps) {
+  const { data: messages = [], isLoading } = useEpisodeChat(episodeId);
+  const chat = useChatWithEpisode();
+  const clearChat = useClearEpisodeChat();
+  const addToast = useToastStore((state) => state.addToast);
+  const [question, setQuestion] = useState("");
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  // Episode whose chat is open; closing the panel or switching episodes
+  // aborts its unanswered question
+  const openEpisodeRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    openEpisodeRef.current = episodeId;
+    return () => {
+      openEpisodeRef.current = null;
+      if (episodeId) window.api?.cancelEpisodeChat(episodeId);
+    };
+  }, [episodeId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [messages.length, pendingQuestion]);
+
+  const renderMarkdown = (markdown: string) => {
+    const html = marked(markdown, {
+      breaks: true,
+      gfm: true,
+    });
+    return DOMPurify.sanitize(html as string);
+  };
+
+  const handleSend = async () => {
+    const text = question.trim();
+    if (!episodeId || !text || chat.isPending) return;
+
+    setPendingQuestion(text);
+    setQuestion("");
+    try {
+      await chat.mutateAsync({ episodeId, question: text });
+    } catch (error: any) {
+      // Aborted because the chat was closed
+      if (openEpisodeRef.current !== episodeId) return;
+      setQuestion(text);
+      addToast({
+        type: "error",
+        title: "Chat failed",
+        description: error.message,
+        duration: 5000,
+      });
+    } finally {
+      setPendingQuestion(null);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      {isLoading ? (
+        <div className="text-sm text-[#a1a1aa]">Loading conversation...</div>
+      ) : messages.length === 0 && !pendingQuestion ? (
+        <div className="text-sm text-[#a1a1aa]">
+          Ask anything about this episode. Answers are based on its transcript
+          and summary and cite timestamps like [12:34].
+        </div>
+      ) : (
+        <div className="flex flex-col gap-3">
+          {messages.map((msg) =>
+            msg.role === "user" ? (
+              <div
+                key={msg.id}
+                className="self-end max-w-[80%] px-4 py-2 rounded-lg bg-[#6366f1] text-white text-sm whitespace-pre-wrap"
+              >
+                {msg.content}
+              </div>
+            ) : (
+              <div
+                key={msg.id}
+                className="self-start max-w-[90%] px-4 py-3 rounded-lg bg-[#27272a] prose prose-invert prose-sm text-[#e4e4e7] prose-p:text-[#e4e4e7] prose-li:text-[#e4e4e7] prose-strong:text-[#f4f4f5]"
+                dangerouslySetInnerHTML={{
+                  __html: renderMarkdown(msg.content),
+                }}
+              />
+            ),
+          )}
+          {pendingQuestion && (
+            <>
+              <div className="self-end max-w-[80%] px-4 py-2 rounded-lg bg-[#6366f1] text-white text-sm whitespace-pre-wrap">
+                {pendingQuestion}
+              </div>
+              <div className="self-start px-4 py-2 rounded-lg bg-[#27272a] text-sm text-[#a1a1aa]">
+                Thinking...
+              </div>
+            </>
+          )}
+          <div ref={bottomRef} />
+        </div>
+      )}
+
+      <div className="flex gap-2 items-end">
+        <textarea
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={2}
+          placeholder="Ask a question about this episode..."
+          className="flex-1 px-3 py-2 rounded-md bg-[#00000080] border border-[#27272a] text-[#e4e4e7] text-sm outline-none focus:border-accent-primary resize-none placeholder-[#52525b]"
+        />
+        <div className="flex flex-col gap-1">
+          <button
+            onClick={handleSend}
+            disabled={!question.trim() || chat.isPending}
+            className="h-9 px-4 rounded-lg bg-[#6366f1] hover:bg-[#5558e3] disabled:bg-[#27272a] disabled:text-[#52525b] text-white text-sm transition-colors"
+          >
+            Send
+          </button>
+          {messages.length > 0 && (
+            <button
+              onClick={() => episodeId && clearChat.mutate(episodeId)}
+              disabled={clearChat.isPending || chat.isPending}
+              className="h-7 px-4 rounded-lg text-xs text-[#a1a1aa] hover:bg-[#27272a] transition-colors disabled:opacity-50"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
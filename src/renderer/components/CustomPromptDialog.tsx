@@ -3,83 +3,130 @@ import * as Dialog from "@radix-ui/react-dialog";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToastStore } from "../stores/useToastStore";
 import { UnsavedChangesDialog } from "./UnsavedChangesDialog";
+import {
+  useFeedRefreshSettings,
+  usePromptTemplates,
+  useSummaryLanguage,
+} from "../hooks/useQueries";
+import { formatRefreshInterval, isSyncFailing } from "../utils/feedRefresh";
+import {
+  FEED_REFRESH_INTERVALS,
+  MAX_TITLE_PATTERN_LENGTH,
+  PROMPT_VARIABLES,
+  SUMMARY_LANGUAGES,
+} from "../../shared/types";
+import type { AIProviderId, Podcast } from "../../shared/types";
 
 interface CustomPromptDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   podcastId: string;
+  onManageTemplates?: () => void;
 }
 
-const DEFAULT_PROMPT = `你是一個專業的 Podcast 摘要助手。請完整分析音頻內容，並依據以下結構生成摘要：
-
-## 節目資訊
-- 節目名稱
-- 主持人與嘉賓（如有）
-- 本集主題或標題
-
-## 重點議題
-詳細列出本期討論的主要主題與子主題。對於每個主題，說明：
-- 該主題的背景與脈絡
-- 主持人或嘉賓的核心觀點
-- 不同觀點之間的比較與碰撞
-- 討論的深入程度與範圍
-
-## 核心洞見
-歸納本期最具價值的洞見與啟發：
-- 解決了什麼問題或回答了什麼疑問
-- 提供了什麼新知識或新視角
-- 對聽眾可能產生的影響與啟發
-- 與當前趨勢或時事的關聯性
-
-## 行動建議
-列出所有可執行的建議與下一步行動：
-- 具體的行動步驟
-- 可以嘗試的方法或工具
-- 推薦的相關資源、書籍或網站
-- 值得追蹤的議題或人物
-
-## 關鍵字詞與概念
-3-5 個核心關鍵字詞，解釋每個詞在本集脈絡中的含義，幫助快速理解本期內容的核心概念。
-
-## 整體評價
-簡短評價本期內容的：
-- 內容品質與深度
-- 對目標受眾的價值
-- 有哪些值得一听的精彩時刻
-
-確保涵蓋本期內容的精髓，讓未收聽的讀者也能獲得完整理解。使用 Markdown 格式輸出，保持簡潔清晰的風格。`;
+// Prompt source value for a podcast-specific prompt (not a template)
+const CUSTOM_PROMPT = "custom";
+
+// A podcast-specific prompt wins over the podcast's template
+function savedPromptSource(podcast: Podcast, builtinTemplateId: string) {
+  return podcast.custom_prompt
+    ? CUSTOM_PROMPT
+    : (podcast.prompt_template_id ?? builtinTemplateId);
+}
 
 export function CustomPromptDialog({
   open,
   onOpenChange,
   podcastId,
+  onManageTemplates,
 }: CustomPromptDialogProps) {
+  const [promptSource, setPromptSource] = useState("");
   const [prompt, setPrompt] = useState("");
+  const [aiProvider, setAiProvider] = useState<AIProviderId | "">("");
+  const [aiModel, setAiModel] = useState("");
+  const [summaryLanguage, setSummaryLanguage] = useState("");
+  const [autoSummarize, setAutoSummarize] = useState(false);
+  const [autoMinMinutes, setAutoMinMinutes] = useState("");
+  const [autoTitlePattern, setAutoTitlePattern] = useState("");
+  const [autoTitleRegex, setAutoTitleRegex] = useState(false);
+  // "" = global interval, "0" = never
+  const [refreshInterval, setRefreshInterval] = useState("");
   const [isDirty, setIsDirty] = useState(false);
   const [showUnsavedChanges, setShowUnsavedChanges] = useState(false);
   const queryClient = useQueryClient();
   const addToast = useToastStore((state) => state.addToast);
 
-  const { data: savedPrompt, isLoading } = useQuery({
+  const { data: podcast, isLoading } = useQuery({
     queryKey: ["podcast", podcastId],
     queryFn: async () => {
       const result = await window.api.getPodcast(podcastId);
       if (!result.success) throw new Error(result.error);
-      return result.data.custom_prompt;
+      return result.data;
     },
     enabled: open && !!podcastId,
   });
+  const { data: templates = [] } = usePromptTemplates();
+  const { data: globalLanguage } = useSummaryLanguage();
+  const { data: feedRefresh } = useFeedRefreshSettings();
+  const builtinTemplateId =
+    templates.find((template) => template.is_builtin)?.id ?? "";
+  const selectedTemplate = templates.find(
+    (template) => template.id === promptSource,
+  );
 
   const updateMutation = useMutation({
-    mutationFn: async (newPrompt: string | null) => {
-      const result = await window.api.updateCustomPrompt(podcastId, newPrompt);
+    mutationFn: async () => {
+      const isCustom = promptSource === CUSTOM_PROMPT;
+      const result = await window.api.updateCustomPrompt(
+        podcastId,
+        isCustom && prompt.trim() ? prompt : null,
+      );
       if (!result.success) throw new Error(result.error);
+
+      const templateResult = await window.api.updatePodcastPromptTemplate(
+        podcastId,
+        isCustom || selectedTemplate?.is_builtin ? null : promptSource,
+      );
+      if (!templateResult.success) throw new Error(templateResult.error);
+
+      const providerResult = await window.api.updatePodcastAiProvider(
+        podcastId,
+        aiProvider || null,
+        aiModel.trim() || null,
+      );
+      if (!providerResult.success) throw new Error(providerResult.error);
+
+      const languageResult = await window.api.updatePodcastSummaryLanguage(
+        podcastId,
+        summaryLanguage.trim() || null,
+      );
+      if (!languageResult.success) throw new Error(languageResult.error);
+
+      const autoResult = await window.api.updatePodcastAutoSummarize(
+        podcastId,
+        {
+          enabled: autoSummarize,
+          minDurationMinutes: autoMinMinutes.trim()
+            ? Number(autoMinMinutes)
+            : null,
+          titlePattern: autoTitlePattern.trim() || null,
+          titleRegex: autoTitleRegex,
+        },
+      );
+      if (!autoResult.success) throw new Error(autoResult.error);
+
+      const refreshResult = await window.api.updatePodcastRefreshInterval(
+        podcastId,
+        refreshInterval ? Number(refreshInterval) : null,
+      );
+      if (!refreshResult.success) throw new Error(refreshResult.error);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["podcast", podcastId] });
+      queryClient.invalidateQueries({ queryKey: ["podcasts"] });
       addToast({
         type: "success",
-        title: "Custom prompt saved",
+        title: "Podcast settings saved",
       });
       onOpenChange(false);
     },
@@ -92,22 +139,40 @@ export function CustomPromptDialog({
     },
   });
 
-  // Reset state when dialog opens or savedPrompt changes
+  // Reset state when dialog opens or the saved podcast changes
   useEffect(() => {
-    if (open && savedPrompt !== undefined) {
-      setPrompt(savedPrompt ?? DEFAULT_PROMPT);
+    if (open && podcast) {
+      setPromptSource(savedPromptSource(podcast, builtinTemplateId));
+      setPrompt(podcast.custom_prompt ?? "");
+      setAiProvider(podcast.ai_provider ?? "");
+      setAiModel(podcast.ai_model ?? "");
+      setSummaryLanguage(podcast.summary_language ?? "");
+      setAutoSummarize(!!podcast.auto_summarize);
+      setAutoMinMinutes(podcast.auto_summarize_min_minutes?.toString() ?? "");
+      setAutoTitlePattern(podcast.auto_summarize_title_pattern ?? "");
+      setAutoTitleRegex(!!podcast.auto_summarize_title_regex);
+      setRefreshInterval(podcast.refresh_interval_minutes?.toString() ?? "");
       setIsDirty(false);
     }
-  }, [open, savedPrompt]);
+  }, [open, podcast, builtinTemplateId]);
 
   const handleSave = () => {
-    const value = prompt === DEFAULT_PROMPT ? null : prompt;
-    updateMutation.mutate(value);
+    updateMutation.mutate();
     setIsDirty(false);
   };
 
   const handleReset = () => {
-    setPrompt(DEFAULT_PROMPT);
+    setPromptSource(builtinTemplateId);
+    setIsDirty(true);
+  };
+
+  const handleSourceChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const source = e.target.value;
+    // Start a custom prompt from the template that was selected
+    if (source === CUSTOM_PROMPT && !prompt.trim()) {
+      setPrompt(selectedTemplate?.content ?? "");
+    }
+    setPromptSource(source);
     setIsDirty(true);
   };
 
@@ -125,7 +190,18 @@ export function CustomPromptDialog({
   };
 
   const handleDiscardChanges = () => {
-    setPrompt(savedPrompt ?? DEFAULT_PROMPT);
+    if (podcast) {
+      setPromptSource(savedPromptSource(podcast, builtinTemplateId));
+    }
+    setPrompt(podcast?.custom_prompt ?? "");
+    setAiProvider(podcast?.ai_provider ?? "");
+    setAiModel(podcast?.ai_model ?? "");
+    setSummaryLanguage(podcast?.summary_language ?? "");
+    setAutoSummarize(!!podcast?.auto_summarize);
+    setAutoMinMinutes(podcast?.auto_summarize_min_minutes?.toString() ?? "");
+    setAutoTitlePattern(podcast?.auto_summarize_title_pattern ?? "");
+    setAutoTitleRegex(!!podcast?.auto_summarize_title_regex);
+    setRefreshInterval(podcast?.refresh_interval_minutes?.toString() ?? "");
     setIsDirty(false);
     setShowUnsavedChanges(false);
     onOpenChange(false);
@@ -145,7 +221,7 @@ export function CustomPromptDialog({
             {/* Header */}
             <div className="flex items-center justify-between px-6 py-4 border-b border-white/10 h-14">
               <Dialog.Title className="text-base font-medium text-white">
-                Custom System Prompt
+                Podcast AI Settings
               </Dialog.Title>
               <Dialog.Close asChild>
                 <button className="w-8 h-8 flex items-center justify-center rounded-md hover:bg-white/10 transition-colors">
@@ -165,18 +241,200 @@ export function CustomPromptDialog({
             </div>
 
             {/* Body */}
-            <div className="px-6 pt-6 pb-4">
+            <div className="px-6 pt-6 pb-4 flex flex-col gap-5 max-h-[70vh] overflow-y-auto">
+              {/* AI provider override */}
+              <div className="flex flex-col gap-3">
+                <span className="text-sm text-white font-medium">
+                  AI Provider
+                </span>
+                <div className="flex gap-2">
+                  <select
+                    value={aiProvider}
+                    onChange={(e) => {
+                      setAiProvider(e.target.value as AIProviderId | "");
+                      setIsDirty(true);
+                    }}
+                    className="h-10 px-3 bg-[#00000080] rounded-lg text-white text-sm focus:outline-none"
+                  >
+                    <option value="">Global default</option>
+                    <option value="gemini">Google Gemini</option>
+                    <option value="openai">OpenAI-compatible</option>
+                    <option value="fake">Offline (fake)</option>
+                  </select>
+                  <input
+                    type="text"
+                    value={aiModel}
+                    onChange={(e) => {
+                      setAiModel(e.target.value);
+                      setIsDirty(true);
+                    }}
+                    placeholder="Model (default)"
+                    className="flex-1 h-10 px-3 bg-[#00000080] rounded-lg text-white text-sm focus:outline-none placeholder:text-zinc-600"
+                  />
+                </div>
+              </div>
+
+              {/* Summary language override, used for {{language}} */}
               <div className="flex flex-col gap-3">
                 <span className="text-sm text-white font-medium">
-                  System Prompt
+                  Summary Language
                 </span>
+                <input
+                  type="text"
+                  list="podcast-summary-languages"
+                  value={summaryLanguage}
+                  onChange={(e) => {
+                    setSummaryLanguage(e.target.value);
+                    setIsDirty(true);
+                  }}
+                  placeholder={`Global default${globalLanguage ? ` (${globalLanguage})` : ""}`}
+                  className="h-10 px-3 bg-[#00000080] rounded-lg text-white text-sm focus:outline-none placeholder:text-zinc-600"
+                />
+                <datalist id="podcast-summary-languages">
+                  {SUMMARY_LANGUAGES.map((name) => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
+              </div>
+
+              {/* Background refresh interval and last sync result */}
+              <div className="flex flex-col gap-3">
+                <span className="text-sm text-white font-medium">
+                  Feed Refresh
+                </span>
+                <select
+                  value={refreshInterval}
+                  onChange={(e) => {
+                    setRefreshInterval(e.target.value);
+                    setIsDirty(true);
+                  }}
+                  className="h-10 px-3 bg-[#00000080] rounded-lg text-white text-sm focus:outline-none"
+                >
+                  <option value="">
+                    Global default
+                    {feedRefresh
+                      ? ` (${formatRefreshInterval(feedRefresh.intervalMinutes)})`
+                      : ""}
+                  </option>
+                  <option value="0">Never</option>
+                  {FEED_REFRESH_INTERVALS.map((minutes) => (
+                    <option key={minutes} value={minutes}>
+                      Every {formatRefreshInterval(minutes)}
+                    </option>
+                  ))}
+                </select>
+                {podcast && (
+                  <span className="text-xs text-zinc-500">
+                    Last refreshed:{" "}
+                    {podcast.last_fetched_at
+                      ? new Date(podcast.last_fetched_at).toLocaleString()
+                      : "never"}
+                    {isSyncFailing(podcast) && (
+                      <span className="text-status-error">
+                        {" "}
+                        · Last attempt failed (
+                        {new Date(podcast.last_sync_error_at!).toLocaleString()}
+                        ): {podcast.last_sync_error}
+                      </span>
+                    )}
+                  </span>
+                )}
+              </div>
+
+              {/* Auto-summarize rule, evaluated after each feed sync */}
+              <div className="flex flex-col gap-3">
+                <label className="flex items-center gap-2 text-sm text-white font-medium cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={autoSummarize}
+                    onChange={(e) => {
+                      setAutoSummarize(e.target.checked);
+                      setIsDirty(true);
+                    }}
+                  />
+                  Summarize new episodes automatically
+                </label>
+                {autoSummarize && (
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min={0}
+                      value={autoMinMinutes}
+                      onChange={(e) => {
+                        setAutoMinMinutes(e.target.value);
+                        setIsDirty(true);
+                      }}
+                      placeholder="Min. minutes (any)"
+                      className="w-40 h-10 px-3 bg-[#00000080] rounded-lg text-white text-sm focus:outline-none placeholder:text-zinc-600"
+                    />
+                    <input
+                      type="text"
+                      value={autoTitlePattern}
+                      maxLength={MAX_TITLE_PATTERN_LENGTH}
+                      onChange={(e) => {
+                        setAutoTitlePattern(e.target.value);
+                        setIsDirty(true);
+                      }}
+                      placeholder={
+                        autoTitleRegex
+                          ? "Title matches regex (any title)"
+                          : "Title contains (any title)"
+                      }
+                      className="flex-1 h-10 px-3 bg-[#00000080] rounded-lg text-white text-sm font-mono focus:outline-none placeholder:text-zinc-600 placeholder:font-sans"
+                    />
+                    <label className="flex items-center gap-1.5 text-xs text-zinc-400 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={autoTitleRegex}
+                        onChange={(e) => {
+                          setAutoTitleRegex(e.target.checked);
+                          setIsDirty(true);
+                        }}
+                      />
+                      Regex
+                    </label>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex flex-col gap-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-white font-medium">
+                    System Prompt
+                  </span>
+                  {onManageTemplates && (
+                    <button
+                      onClick={onManageTemplates}
+                      className="text-xs text-[#a1a1aa] hover:text-white transition-colors"
+                    >
+                      Manage templates
+                    </button>
+                  )}
+                </div>
+                <select
+                  value={promptSource}
+                  onChange={handleSourceChange}
+                  className="h-10 px-3 bg-[#00000080] rounded-lg text-white text-sm focus:outline-none"
+                >
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      Template: {template.name}
+                    </option>
+                  ))}
+                  <option value={CUSTOM_PROMPT}>Custom prompt</option>
+                </select>
                 {isLoading ? (
                   <div className="text-zinc-400 text-center py-8">
                     Loading...
                   </div>
                 ) : (
                   <textarea
-                    value={prompt}
+                    value={
+                      promptSource === CUSTOM_PROMPT
+                        ? prompt
+                        : (selectedTemplate?.content ?? "")
+                    }
+                    readOnly={promptSource !== CUSTOM_PROMPT}
                     onChange={handleChange}
                     className="w-full h-[256px] bg-[#00000080] rounded-lg p-4 text-white text-sm font-sans leading-relaxed resize-none focus:outline-none transition-colors placeholder:text-zinc-600"
                     style={{
@@ -186,6 +444,10 @@ export function CustomPromptDialog({
                     placeholder="Enter custom prompt..."
                   />
                 )}
+                <span className="text-xs text-zinc-500">
+                  Variables:{" "}
+                  {PROMPT_VARIABLES.map((name) => `{{${name}}}`).join(" ")}
+                </span>
               </div>
             </div>
 
@@ -0,0 +1,69 @@
+import { useMemo } from "react";
+import { diffLines } from "../utils/diff";
+import type { DiffRowType } from "../utils/diff";
+
+interface DocumentDiffViewProps {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+const LEFT_STYLES: Record<DiffRowType, string> = {
+  same: "text-[#a1a1aa]",
+  removed: "bg-[#f43f5e1a] text-[#fda4af]",
+  changed: "bg-[#f43f5e1a] text-[#fda4af]",
+  added: "",
+};
+
+const RIGHT_STYLES: Record<DiffRowType, string> = {
+  same: "text-[#a1a1aa]",
+  added: "bg-[#10b9811a] text-[#6ee7b7]",
+  changed: "bg-[#10b9811a] text-[#6ee7b7]",
+  removed: "",
+};
+
+/**
+ * Side-by-side Markdown source diff between two summary versions
+ */
+export function DocumentDiffView({
+  before,
+  after,
+  beforeLabel,
+  afterLabel,
+}: DocumentDiffViewProps) {
+  const rows = useMemo(() => diffLines(before, after), [before, after]);
+  const changedCount = rows.filter((row) => row.type !== "same").length;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="grid grid-cols-2 gap-4 text-xs text-[#a1a1aa]">
+        <span>{beforeLabel}</span>
+        <span>
+          {afterLabel}
+          <span className="ml-2 text-[#52525b]">
+            {changedCount === 0
+              ? "No differences"
+              : `${changedCount} changed lines`}
+          </span>
+        </span>
+      </div>
+      <div className="grid grid-cols-2 gap-x-4 font-mono text-[12px] leading-relaxed">
+        {rows.map((row, index) => (
+          <div key={index} className="contents">
+            <div
+              className={`px-2 whitespace-pre-wrap break-words min-h-[1.5em] ${LEFT_STYLES[row.type]}`}
+            >
+              {row.left}
+            </div>
+            <div
+              className={`px-2 whitespace-pre-wrap break-words min-h-[1.5em] ${RIGHT_STYLES[row.type]}`}
+            >
+              {row.right}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
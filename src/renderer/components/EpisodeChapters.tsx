@@ -0,0 +1,81 @@
+import { useEpisodeChapters } from "../hooks/useQueries";
+import { formatTimestamp } from "../utils/time";
+
+interface EpisodeChaptersProps {
+  episodeId: string;
+}
+
+/**
+ * Chapters from the feed's chapters file (Podcasting 2.0)
+ */
+export function EpisodeChapters({ episodeId }: EpisodeChaptersProps) {
+  const {
+    data: chapters = [],
+    isLoading,
+    error,
+  } = useEpisodeChapters(episodeId);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-48 text-sm text-[#a1a1aa]">
+        Loading chapters...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center h-48 text-center">
+        <h3 className="text-lg font-medium text-[#f4f4f5] mb-2">
+          Could not load chapters
+        </h3>
+        <p className="text-sm text-[#a1a1aa]">{(error as Error).message}</p>
+      </div>
+    );
+  }
+
+  if (chapters.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-48 text-sm text-[#52525b]">
+        The chapters file lists no chapters
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {chapters.map((chapter, index) => (
+        <div key={index} className="flex gap-3 text-sm leading-relaxed">
+          <span className="w-14 flex-shrink-0 font-mono text-xs text-[#818cf8] pt-0.5">
+            {formatTimestamp(chapter.startTime)}
+          </span>
+          {chapter.img && (
+            <img
+              src={chapter.img}
+              alt=""
+              className="w-8 h-8 rounded object-cover flex-shrink-0"
+              onError={(e) => {
+                e.currentTarget.style.display = "none";
+              }}
+            />
+          )}
+          <div className="min-w-0">
+            <span className="text-[#e4e4e7]">
+              {chapter.title || `Chapter ${index + 1}`}
+            </span>
+            {chapter.url && (
+              <a
+                href={chapter.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="ml-2 text-xs text-[#818cf8] hover:underline"
+              >
+                Link
+              </a>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -4,40 +4,63 @@ import DOMPurify from "dompurify";
 import {
   useDocuments,
   useRunAiSummary,
-  useGetApiKey,
+  useCancelAiSummary,
+  useAiSettings,
 } from "../hooks/useQueries";
 import { useToastStore } from "../stores/useToastStore";
 import { useGeneratingStore } from "../stores/useGeneratingStore";
+import { formatSummaryProgress } from "../utils/summaryProgress";
+import { parsePersons } from "../utils/persons";
+import { renderShowNotes, formatEpisodeNumber } from "../utils/showNotes";
+import { formatBytes } from "../utils/feedRefresh";
 import type { Episode } from "../../shared/types";
 import { OverwriteAlertDialog } from "./OverwriteAlertDialog";
-import { useQueryClient } from "@tanstack/react-query";
+import { TranscriptView } from "./TranscriptView";
+import { EpisodeChapters } from "./EpisodeChapters";
+import { PromptTemplateSelect } from "./PromptTemplateSelect";
+import { ChatPanel } from "./ChatPanel";
+import { RelatedEpisodes } from "./RelatedEpisodes";
 
 interface EpisodeDetailProps {
   episode: Episode | null;
   onMissingApiKey?: () => void;
+  onRelatedEpisodeClick?: (episodeId: string) => void;
 }
 
 export function EpisodeDetail({
   episode,
   onMissingApiKey,
+  onRelatedEpisodeClick,
 }: EpisodeDetailProps) {
-  const queryClient = useQueryClient();
-  const {
-    data: documents,
-    isLoading: documentsLoading,
-    refetch: refetchDocuments,
-  } = useDocuments(episode?.id || null);
-  const { data: apiKey } = useGetApiKey();
+  const { data: documents, isLoading: documentsLoading } = useDocuments(
+    episode?.id || null,
+  );
+  const { data: aiSettings } = useAiSettings();
   const runSummary = useRunAiSummary();
-  const [selectedDocIndex, setSelectedDocIndex] = useState(0);
+  const cancelSummary = useCancelAiSummary();
+  const [selectedDocId, setSelectedDocId] = useState<string | null>(null);
   const [showOverwriteDialog, setShowOverwriteDialog] = useState(false);
+  const [templateIds, setTemplateIds] = useState<string[]>([]);
+  const [view, setView] = useState<
+    "summary" | "transcript" | "chat" | "notes" | "chapters"
+  >("summary");
   const addToast = useToastStore((state) => state.addToast);
-  const removeToast = useToastStore((state) => state.removeToast);
-  const isGenerating = useGeneratingStore((state) => state.isGenerating);
+  const jobStatus = useGeneratingStore((state) =>
+    episode ? state.jobs[episode.id] : undefined,
+  );
+  const progress = useGeneratingStore((state) =>
+    episode ? state.progress[episode.id] : undefined,
+  );
+  const streamingText = useGeneratingStore((state) =>
+    episode ? state.streamingText[episode.id] : undefined,
+  );
+  const isGenerating = !!jobStatus || runSummary.isPending;
 
-  // Reset selected document when episode changes
+  // Reset selected document and view when episode changes
   useEffect(() => {
-    setSelectedDocIndex(0);
+    setSelectedDocId(null);
+    setView("summary");
+    setTemplateIds([]);
   }, [episode?.id]);
 
   if (!episode) {
@@ -51,8 +74,19 @@ export function EpisodeDetail({
     );
   }
 
+  const persons = parsePersons(episode.persons);
+  const showNotes = renderShowNotes(episode);
+  const episodeNumber = formatEpisodeNumber(episode);
+  const tabs: (typeof view)[] = ["summary", "transcript", "chat"];
+  if (showNotes) tabs.push("notes");
+  if (episode.chapters_url) tabs.push("chapters");
+
+  // Versions are sorted newest first; default to the primary version
   const currentDocument =
-    documents && documents.length > 0 ? documents[selectedDocIndex] : null;
+    documents?.find((doc) => doc.id === selectedDocId) ??
+    documents?.find((doc) => doc.is_primary) ??
+    documents?.[0] ??
+    null;
 
   const renderMarkdown = (markdown: string) => {
     const html = marked(markdown, {
@@ -62,35 +96,15 @@ export function EpisodeDetail({
     return DOMPurify.sanitize(html as string);
   };
 
-  const handleGenerateSummary = async () => {
-    if (!apiKey) {
-      onMissingApiKey?.();
-      return;
-    }
-
-    if (documents && documents.length > 0) {
-      setShowOverwriteDialog(true);
-      return;
-    }
-
-    const loadingToastId = addToast({
-      type: "loading",
-      title: "Generating AI summary...",
-      duration: 60000,
-    });
-
+  const queueSummary = async (episodeId: string) => {
     try {
-      await runSummary.mutateAsync(episode.id);
-      removeToast(loadingToastId);
+      await runSummary.mutateAsync({ episodeId, templateIds });
       addToast({
-        type: "success",
-        title: "Summary generated",
+        type: "info",
+        title: "Added to summary queue",
         duration: 3000,
       });
-      await queryClient.invalidateQueries({ queryKey: ["documents", episode.id] });
-      await refetchDocuments();
     } catch (error: any) {
-      removeToast(loadingToastId);
       if (error.message === "API_KEY_MISSING") {
         onMissingApiKey?.();
       } else {
@@ -104,47 +118,57 @@ export function EpisodeDetail({
     }
   };
 
+  const handleGenerateSummary = async () => {
+    if (!aiSettings?.isConfigured) {
+      onMissingApiKey?.();
+      return;
+    }
+
+    if (documents && documents.length > 0) {
+      setShowOverwriteDialog(true);
+      return;
+    }
+
+    await queueSummary(episode.id);
+  };
+
   const handleOverwriteConfirm = async () => {
     if (!episode?.id) return;
     setShowOverwriteDialog(false);
-
-    const loadingToastId = addToast({
-      type: "loading",
-      title: "Generating AI summary...",
-      duration: 60000,
-    });
-
-    try {
-      await runSummary.mutateAsync(episode.id);
-      removeToast(loadingToastId);
-      addToast({
-        type: "success",
-        title: "Summary generated",
-        duration: 3000,
-      });
-      await queryClient.invalidateQueries({ queryKey: ["documents", episode.id] });
-      await refetchDocuments();
-    } catch (error: any) {
-      removeToast(loadingToastId);
-      if (error.message === "API_KEY_MISSING") {
-        onMissingApiKey?.();
-      } else {
-        addToast({
-          type: "error",
-          title: "Generation failed",
-          description: error.message,
-          duration: 5000,
-        });
-      }
-    }
+    await queueSummary(episode.id);
   };
 
   return (
     <div className="h-full flex flex-col bg-gray-900">
       {/* Episode Header */}
       <div className="p-6 border-b border-gray-800">
-        <h2 className="text-2xl font-bold text-white mb-2">{episode.title}</h2>
-        <div className="flex items-center gap-4 text-sm text-gray-400">
+        <div className="flex items-start gap-4">
+          {episode.artwork_url && (
+            <img
+              src={episode.artwork_url}
+              alt=""
+              className="w-16 h-16 rounded-lg object-cover flex-shrink-0"
+            />
+          )}
+          <h2 className="text-2xl font-bold text-white mb-2">
+            {episode.title}
+          </h2>
+        </div>
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-400">
+          {episodeNumber && <span>{episodeNumber}</span>}
+          {episode.episode_type && episode.episode_type !== "full" && (
+            <span className="px-1.5 py-0.5 rounded bg-gray-800 text-xs capitalize text-gray-300">
+              {episode.episode_type}
+            </span>
+          )}
+          {episode.is_explicit === 1 && (
+            <span
+              title="Marked explicit by the feed"
+              className="px-1.5 py-0.5 rounded bg-gray-800 text-xs text-gray-300"
+            >
+              Explicit
+            </span>
+          )}
           <span>
             {new Date(episode.pub_date).toLocaleDateString("zh-TW", {
               year: "numeric",
@@ -158,6 +182,14 @@ export function EpisodeDetail({
               <span>{Math.floor(episode.duration / 60)} min</span>
             </>
           )}
+          {!!episode.enclosure_length && (
+            <>
+              <span>•</span>
+              <span title={episode.enclosure_type ?? undefined}>
+                {formatBytes(episode.enclosure_length)}
+              </span>
+            </>
+          )}
           {episode.is_downloaded && (
             <>
               <span>•</span>
@@ -181,20 +213,67 @@ export function EpisodeDetail({
           )}
         </div>
 
-        {/* Document Tabs (if multiple summaries) */}
-        {documents && documents.length > 1 && (
-          <div className="mt-4 flex gap-2">
+        {/* People (<podcast:person>) */}
+        {persons.length > 0 && (
+          <div className="mt-3 flex flex-wrap gap-2">
+            {persons.map((person, index) => (
+              <a
+                key={index}
+                href={person.href ?? undefined}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={`flex items-center gap-1.5 h-7 pl-1 pr-2.5 rounded-full bg-gray-800 text-xs text-gray-300 ${
+                  person.href ? "hover:bg-gray-700" : "pointer-events-none"
+                }`}
+              >
+                {person.img ? (
+                  <img
+                    src={person.img}
+                    alt=""
+                    className="w-5 h-5 rounded-full object-cover"
+                  />
+                ) : (
+                  <span className="w-5 h-5 rounded-full bg-gray-700" />
+                )}
+                {person.name}
+                <span className="text-gray-500 capitalize">{person.role}</span>
+              </a>
+            ))}
+          </div>
+        )}
+
+        {/* Summary / Transcript switch */}
+        <div className="mt-4 flex gap-2">
+          {tabs.map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setView(tab)}
+              className={`px-3 py-1.5 rounded-lg text-sm capitalize transition-colors ${
+                view === tab
+                  ? "bg-gray-700 text-white"
+                  : "text-gray-400 hover:bg-gray-800"
+              }`}
+            >
+              {tab}
+            </button>
+          ))}
+        </div>
+
+        {/* Version Tabs (if multiple summaries) */}
+        {view === "summary" && documents && documents.length > 1 && (
+          <div className="mt-4 flex gap-2 overflow-x-auto">
             {documents.map((doc, index) => (
               <button
                 key={doc.id}
-                onClick={() => setSelectedDocIndex(index)}
+                onClick={() => setSelectedDocId(doc.id)}
                 className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
-                  selectedDocIndex === index
+                  currentDocument?.id === doc.id
                     ? "bg-blue-600 text-white"
                     : "bg-gray-800 text-gray-400 hover:bg-gray-700"
                 }`}
               >
-                Summary {index + 1}
+                v{documents.length - index}
+                {doc.is_primary ? " ★" : ""}
                 <span className="ml-2 text-xs opacity-70">
                   {new Date(doc.created_at).toLocaleDateString("zh-TW", {
                     month: "numeric",
@@ -209,17 +288,50 @@ export function EpisodeDetail({
 
       {/* Content Area */}
       <div className="flex-1 overflow-auto p-6">
-        {documentsLoading ? (
+        {view === "transcript" ? (
+          <TranscriptView
+            episodeId={episode.id}
+            hasPublisherTranscript={!!episode.transcript_url}
+          />
+        ) : view === "chapters" ? (
+          <EpisodeChapters episodeId={episode.id} />
+        ) : view === "notes" && showNotes ? (
+          <div
+            className="prose prose-invert max-w-none prose-headings:text-white prose-p:text-gray-300 prose-strong:text-white prose-ul:text-gray-300 prose-ol:text-gray-300 prose-a:text-blue-400"
+            dangerouslySetInnerHTML={{ __html: showNotes }}
+          />
+        ) : view === "chat" ? (
+          <ChatPanel episodeId={episode.id} />
+        ) : documentsLoading ? (
           <div className="flex items-center justify-center h-full">
             <div className="text-gray-400">Loading summary...</div>
           </div>
+        ) : streamingText ? (
+          <div className="flex flex-col gap-4">
+            <div className="flex items-center gap-2 text-xs text-gray-400">
+              <span className="w-2 h-2 rounded-full bg-blue-500 animate-pulse" />
+              Generating... (saved when complete)
+            </div>
+            <div
+              className="prose prose-invert max-w-none prose-headings:text-white prose-p:text-gray-300 prose-strong:text-white prose-ul:text-gray-300 prose-ol:text-gray-300"
+              dangerouslySetInnerHTML={{
+                __html: renderMarkdown(streamingText),
+              }}
+            />
+          </div>
         ) : currentDocument ? (
-          <div
-            className="prose prose-invert max-w-none prose-headings:text-white prose-p:text-gray-300 prose-strong:text-white prose-ul:text-gray-300 prose-ol:text-gray-300"
-            dangerouslySetInnerHTML={{
-              __html: renderMarkdown(currentDocument.content),
-            }}
-          />
+          <>
+            <div
+              className="prose prose-invert max-w-none prose-headings:text-white prose-p:text-gray-300 prose-strong:text-white prose-ul:text-gray-300 prose-ol:text-gray-300"
+              dangerouslySetInnerHTML={{
+                __html: renderMarkdown(currentDocument.content),
+              }}
+            />
+            <RelatedEpisodes
+              episodeId={episode.id}
+              onEpisodeClick={onRelatedEpisodeClick}
+            />
+          </>
         ) : (
           <div className="flex items-center justify-center h-full">
             <div className="text-center max-w-md">
@@ -230,12 +342,17 @@ export function EpisodeDetail({
               <p className="text-gray-400 mb-6 text-sm">
                 Click the button below to generate AI summary for this episode
               </p>
+              <PromptTemplateSelect
+                value={templateIds}
+                onChange={setTemplateIds}
+                className="mb-4 px-3 py-2 bg-gray-800 text-gray-300 text-sm rounded-lg focus:outline-none"
+              />
               <button
                 onClick={handleGenerateSummary}
-                disabled={runSummary.isPending}
+                disabled={isGenerating}
                 className="px-6 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded-lg transition-colors flex items-center gap-2 mx-auto"
               >
-                {runSummary.isPending ? (
+                {isGenerating ? (
                   <>
                     <svg
                       className="animate-spin h-5 w-5"
@@ -257,7 +374,9 @@ export function EpisodeDetail({
                         d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                       ></path>
                     </svg>
-                    Generating...
+                    {jobStatus === "pending"
+                      ? "Queued..."
+                      : formatSummaryProgress(progress)}
                   </>
                 ) : (
                   <>
@@ -278,18 +397,27 @@ export function EpisodeDetail({
                   </>
                 )}
               </button>
-              {runSummary.isPending && (
+              {isGenerating && (
                 <p className="text-xs text-gray-500 mt-4">
-                  This may take a few minutes, please wait...
+                  This may take a few minutes, you can keep browsing...
                 </p>
               )}
+              {jobStatus && (
+                <button
+                  onClick={() => cancelSummary.mutate(episode.id)}
+                  disabled={cancelSummary.isPending}
+                  className="mt-2 text-xs text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+              )}
             </div>
           </div>
         )}
       </div>
 
       {/* Footer Actions */}
-      {currentDocument && (
+      {view === "summary" && currentDocument && (
         <div className="p-4 border-t border-gray-800 flex justify-between items-center">
           <div className="text-xs text-gray-500">
             Generated: {new Date(currentDocument.created_at).toLocaleString()}
@@ -303,18 +431,34 @@ export function EpisodeDetail({
             >
               Copy
             </button>
+            {jobStatus && (
+              <button
+                onClick={() => cancelSummary.mutate(currentDocument.episode_id)}
+                disabled={cancelSummary.isPending}
+                className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white text-sm rounded-lg transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            )}
+            <PromptTemplateSelect
+              value={templateIds}
+              onChange={setTemplateIds}
+              className="px-3 py-2 bg-gray-800 text-gray-300 text-sm rounded-lg focus:outline-none"
+            />
             <button
               onClick={handleGenerateSummary}
-              disabled={isGenerating || runSummary.isPending}
+              disabled={isGenerating}
               className={`px-4 py-2 text-white text-sm rounded-lg transition-colors ${
-                isGenerating || runSummary.isPending
+                isGenerating
                   ? "bg-blue-600/50 cursor-not-allowed"
                   : "bg-blue-600 hover:bg-blue-700"
               }`}
             >
-              {isGenerating || runSummary.isPending
-                ? "Generating..."
-                : "Regenerate"}
+              {jobStatus === "pending"
+                ? "Queued..."
+                : isGenerating
+                  ? formatSummaryProgress(progress)
+                  : "Regenerate"}
             </button>
           </div>
         </div>
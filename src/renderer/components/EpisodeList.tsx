@@ -30,7 +30,7 @@ export function EpisodeList({
   onReadSummary,
 }: EpisodeListProps) {
   const parentRef = useRef<HTMLDivElement>(null);
-  const isGenerating = useGeneratingStore((state) => state.isGenerating);
+  const summaryJobs = useGeneratingStore((state) => state.jobs);
   const addToast = useToastStore((state) => state.addToast);
   const [hasDocumentMap, setHasDocumentMap] = useState<Record<string, boolean>>(
     {},
@@ -136,7 +136,9 @@ export function EpisodeList({
       >
         {rowVirtualizer.getVirtualItems().map((virtualRow) => {
           const episode = episodes[virtualRow.index];
-          const isNew = !episode.is_downloaded; // simplified: treat non-downloaded as "new"
+          const isNew = !!episode.is_new; // found by a sync, not yet viewed
+          const jobStatus = summaryJobs[episode.id];
+          const isGenerating = !!jobStatus;
 
           return (
             <div
@@ -155,6 +157,7 @@ export function EpisodeList({
                     className={`w-2 h-2 rounded-full flex-shrink-0 ${
                       isNew ? "bg-status-success" : "bg-zinc-700"
                     }`}
+                    title={isNew ? "New since last viewed" : undefined}
                   />
                   <div className="min-w-0 flex flex-col gap-1">
                     <div className="text-[13px] font-medium text-[#f4f4f5] truncate">
@@ -164,6 +167,11 @@ export function EpisodeList({
                       {formatDate(episode.pub_date)}
                       {episode.duration > 0 &&
                         ` · ${formatDuration(episode.duration)}`}
+                      {isNew && (
+                        <span className="ml-2 px-1.5 rounded bg-status-success/15 text-status-success text-[11px] font-medium">
+                          New
+                        </span>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -183,9 +191,11 @@ export function EpisodeList({
                         : "hover:bg-white-10"
                     }`}
                     title={
-                      isGenerating
-                        ? "Generating summary..."
-                        : "Generate AI summary"
+                      jobStatus === "pending"
+                        ? "Queued for summary..."
+                        : isGenerating
+                          ? "Generating summary..."
+                          : "Generate AI summary"
                     }
                   >
                     <svg
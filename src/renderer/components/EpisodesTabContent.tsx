@@ -1,13 +1,20 @@
 import { useState } from "react";
 import { EpisodeList } from "./EpisodeList";
-import { useEpisodes } from "../hooks/useQueries";
+import { FeedFetchLogDialog } from "./FeedFetchLogDialog";
+import { useEpisodes, useMarkPodcastSeen } from "../hooks/useQueries";
 
 function PodcastDetailHeader({
   podcast,
   episodeCount,
+  newCount,
+  onMarkAllSeen,
+  onFetchLogClick,
 }: {
   podcast: any;
   episodeCount: number;
+  newCount: number;
+  onMarkAllSeen: () => void;
+  onFetchLogClick: () => void;
 }) {
   return (
     <div
@@ -39,6 +46,25 @@ function PodcastDetailHeader({
           <span className="text-[13px] text-[#a1a1aa]">
             {episodeCount} Episodes
           </span>
+          {newCount > 0 && (
+            <>
+              <span className="text-[13px] text-status-success">
+                {newCount} new
+              </span>
+              <button
+                onClick={onMarkAllSeen}
+                className="text-[12px] text-[#a1a1aa] hover:text-[#f4f4f5] underline-offset-2 hover:underline transition-colors"
+              >
+                Mark all as read
+              </button>
+            </>
+          )}
+          <button
+            onClick={onFetchLogClick}
+            className="text-[12px] text-[#a1a1aa] hover:text-[#f4f4f5] underline-offset-2 hover:underline transition-colors"
+          >
+            Fetch log
+          </button>
         </div>
       </div>
     </div>
@@ -153,6 +179,8 @@ export function EpisodesTabContent({
   const [searchQuery, setSearchQuery] = useState("");
   const { data: episodes = [], isLoading: episodesLoading } =
     useEpisodes(activePodcastId);
+  const markPodcastSeen = useMarkPodcastSeen();
+  const [fetchLogOpen, setFetchLogOpen] = useState(false);
 
   const filteredEpisodes = episodes.filter((ep: any) =>
     ep.title.toLowerCase().includes(searchQuery.toLowerCase()),
@@ -211,6 +239,19 @@ export function EpisodesTabContent({
         <PodcastDetailHeader
           podcast={activePodcast}
           episodeCount={episodes.length}
+          newCount={episodes.filter((ep) => ep.is_new).length}
+          onMarkAllSeen={() =>
+            markPodcastSeen.mutate({ podcastId: activePodcast.id })
+          }
+          onFetchLogClick={() => setFetchLogOpen(true)}
+        />
+      )}
+      {activePodcast && (
+        <FeedFetchLogDialog
+          podcastId={activePodcast.id}
+          podcastTitle={activePodcast.title}
+          open={fetchLogOpen}
+          onOpenChange={setFetchLogOpen}
         />
       )}
 
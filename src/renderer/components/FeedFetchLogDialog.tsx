@@ -0,0 +1,124 @@
+import * as Dialog from "@radix-ui/react-dialog";
+import { useFeedFetchLog } from "../hooks/useQueries";
+import { formatBytes } from "../utils/feedRefresh";
+import { FEED_FETCH_LOG_SIZE } from "../../shared/types";
+import type { FeedFetchLogEntry } from "../../shared/types";
+
+interface FeedFetchLogDialogProps {
+  podcastId: string;
+  podcastTitle: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function statusLabel(entry: FeedFetchLogEntry): string {
+  if (entry.status === 304) return "304 Not Modified";
+  if (entry.status === null) return "No response";
+  return String(entry.status);
+}
+
+/**
+ * The latest HTTP requests for one feed: status, size and duration
+ */
+export function FeedFetchLogDialog({
+  podcastId,
+  podcastTitle,
+  open,
+  onOpenChange,
+}: FeedFetchLogDialogProps) {
+  const { data: entries = [], isLoading } = useFeedFetchLog(podcastId, open);
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/60 data-[state=open]:animate-fadeIn z-50" />
+        <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[640px] max-w-[90vw] bg-[#1a1a1a] rounded-xl border border-white/10 shadow-xl z-50 focus:outline-none">
+          {/* Header */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-white/10 h-14">
+            <Dialog.Title className="text-base font-medium text-white truncate">
+              Fetch Log · {podcastTitle}
+            </Dialog.Title>
+            <Dialog.Close asChild>
+              <button className="w-8 h-8 flex items-center justify-center rounded-md hover:bg-white/10 transition-colors">
+                <svg
+                  className="w-4.5 h-4.5 text-[#a1a1aa]"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth={2}
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  viewBox="0 0 24 24"
+                >
+                  <path d="M18 6L6 18M6 6l12 12" />
+                </svg>
+              </button>
+            </Dialog.Close>
+          </div>
+
+          {/* Body */}
+          <div className="max-h-[60vh] overflow-y-auto px-6 py-4">
+            {isLoading ? (
+              <div className="text-sm text-[#a1a1aa]">Loading...</div>
+            ) : entries.length === 0 ? (
+              <div className="text-sm text-[#52525b]">
+                No requests logged yet
+              </div>
+            ) : (
+              <table className="w-full text-[12px]">
+                <thead>
+                  <tr className="text-left text-[#71717a]">
+                    <th className="font-medium pb-2">Time</th>
+                    <th className="font-medium pb-2">Status</th>
+                    <th className="font-medium pb-2 text-right">Size</th>
+                    <th className="font-medium pb-2 text-right">Duration</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map((entry) => (
+                    <tr
+                      key={entry.id}
+                      className="border-t border-white-5 text-[#d4d4d8] align-top"
+                    >
+                      <td className="py-2 pr-3 whitespace-nowrap">
+                        {new Date(entry.fetched_at).toLocaleString()}
+                      </td>
+                      <td className="py-2 pr-3">
+                        <span
+                          className={
+                            entry.error
+                              ? "text-status-error"
+                              : entry.status === 304
+                                ? "text-[#a1a1aa]"
+                                : "text-status-success"
+                          }
+                        >
+                          {statusLabel(entry)}
+                        </span>
+                        {entry.error && (
+                          <div className="text-[11px] text-[#71717a] break-all">
+                            {entry.error}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-3 text-right whitespace-nowrap">
+                        {formatBytes(entry.bytes)}
+                      </td>
+                      <td className="py-2 text-right whitespace-nowrap">
+                        {entry.duration_ms} ms
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="px-6 py-3 border-t border-white/10 text-[11px] text-[#52525b]">
+            The latest {FEED_FETCH_LOG_SIZE} requests are kept. A 304 means the
+            feed had not changed and was not downloaded again.
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
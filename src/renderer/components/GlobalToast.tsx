@@ -1,6 +1,8 @@
 import { useEffect } from "react";
 import * as Toast from "@radix-ui/react-toast";
 import { useToastStore } from "../stores/useToastStore";
+import { AI_ERROR_MESSAGES } from "../../shared/types";
+import { formatUsageLimit } from "../utils/usageLimits";
 
 export function GlobalToast() {
   const { toasts, removeToast } = useToastStore();
@@ -22,20 +24,55 @@ export function GlobalToast() {
       });
     });
 
-    // Summary failed event
+    // Summary failed event (known categories get an actionable message)
     const unsubscribeSummaryFailed = window.api.onSummaryFailed((data) => {
       useToastStore.getState().addToast({
         type: "error",
         title: "AI Summary failed",
-        description: data.error || "Error generating summary",
+        description:
+          data.category && data.category !== "unknown"
+            ? AI_ERROR_MESSAGES[data.category]
+            : data.error || AI_ERROR_MESSAGES.unknown,
       });
     });
 
-    // Feed synced event is handled by SubscribeDialog.tsx
+    // Summary cancelled event
+    const unsubscribeSummaryCancelled = window.api.onSummaryCancelled(() => {
+      useToastStore.getState().addToast({
+        type: "info",
+        title: "AI Summary cancelled",
+      });
+    });
+
+    // Usage limit: warning near a limit, or queued summaries on hold
+    const unsubscribeUsageLimit = window.api.onUsageLimit((data) => {
+      const resetAt = new Date(data.resetAt).toLocaleString("en-US", {
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+      });
+      useToastStore.getState().addToast({
+        type: "warning",
+        title:
+          data.level === "reached"
+            ? "Usage limit reached"
+            : "Approaching usage limit",
+        description:
+          data.level === "reached"
+            ? `${formatUsageLimit(data)}. Queued summaries wait until ${resetAt}.`
+            : `${formatUsageLimit(data)}.`,
+        duration: 8000,
+      });
+    });
+
+    // Feed synced event is handled by App.tsx (refreshes podcast queries)
 
     return () => {
       unsubscribeSummaryCompleted();
       unsubscribeSummaryFailed();
+      unsubscribeSummaryCancelled();
+      unsubscribeUsageLimit();
     };
   }, []);
 
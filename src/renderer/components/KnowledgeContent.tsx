@@ -1,10 +1,20 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { marked } from "marked";
+import DOMPurify from "dompurify";
 import {
   usePodcasts,
   useAllDocumentsGrouped,
   useDeleteSummary,
+  useAskLibrary,
 } from "../hooks/useQueries";
 import { useToastStore } from "../stores/useToastStore";
+import {
+  STRUCTURED_FIELD_LABELS,
+  STRUCTURED_FIELDS,
+  parseStructured,
+  structuredValues,
+} from "../utils/structuredSummary";
+import type { StructuredField } from "../utils/structuredSummary";
 import { DeleteDocumentAlertDialog } from "./DeleteDocumentAlertDialog";
 
 interface KnowledgeContentProps {
@@ -28,12 +38,33 @@ function formatDate(dateStr: string): string {
   });
 }
 
+/**
+ * Values of a structured summary matching the filter. Without a query,
+ * every value of the field(s); empty for Markdown summaries.
+ */
+function matchStructured(
+  doc: any,
+  field: StructuredField | "all",
+  query: string,
+): string[] {
+  const summary = parseStructured(doc.structured);
+  if (!summary) return [];
+
+  const fields = field === "all" ? STRUCTURED_FIELDS : [field];
+  const needle = query.trim().toLowerCase();
+  return fields
+    .flatMap((f) => structuredValues(summary, f))
+    .filter((value) => value.toLowerCase().includes(needle));
+}
+
 function DocumentItem({
   doc,
+  matches,
   onClick,
   onDelete,
 }: {
   doc: any;
+  matches?: string[];
   onClick?: () => void;
   onDelete?: (doc: any) => void;
 }) {
@@ -60,7 +91,16 @@ function DocumentItem({
       </svg>
       <span className="text-[#a1a1aa] text-[13px] flex-1 truncate">
         {doc.episode_title}
+        {doc.label && <span className="text-[#52525b]"> · {doc.label}</span>}
       </span>
+      {matches && matches.length > 0 && (
+        <span
+          className="text-[#818cf8] text-[12px] truncate max-w-[40%]"
+          title={matches.join("\n")}
+        >
+          {matches.join(" · ")}
+        </span>
+      )}
       <span className="text-[#52525b] text-[12px] flex-shrink-0">
         {formatDate(doc.created_at)}
       </span>
@@ -98,11 +138,13 @@ function DocumentItem({
 function PodcastGroup({
   podcast,
   documents,
+  matches,
   onDocumentClick,
   onDocumentDelete,
 }: {
   podcast: any;
   documents: any[];
+  matches?: Map<string, string[]>;
   onDocumentClick?: (doc: any) => void;
   onDocumentDelete?: (doc: any) => void;
 }) {
@@ -174,6 +216,7 @@ function PodcastGroup({
             <DocumentItem
               key={doc.id}
               doc={doc}
+              matches={matches?.get(doc.id)}
               onClick={() => onDocumentClick?.(doc)}
               onDelete={onDocumentDelete}
             />
@@ -184,6 +227,100 @@ function PodcastGroup({
   );
 }
 
+function LibraryAsk({
+  onSourceClick,
+}: {
+  onSourceClick?: (doc: any) => void;
+}) {
+  const [question, setQuestion] = useState("");
+  const askMutation = useAskLibrary();
+  const result = askMutation.data;
+
+  // Leaving the view aborts an unanswered question
+  useEffect(
+    () => () => {
+      window.api?.cancelLibraryQuestion();
+    },
+    [],
+  );
+
+  const handleAsk = () => {
+    if (!question.trim() || askMutation.isPending) return;
+    askMutation.mutate(question.trim());
+  };
+
+  return (
+    <div className="rounded-lg bg-[#18181b] border border-[#ffffff1a] p-4 flex flex-col gap-3">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.nativeEvent.isComposing) handleAsk();
+          }}
+          placeholder="Ask your library, e.g. what have my shows said about interest rates this quarter?"
+          className="flex-1 h-10 px-3 rounded-md bg-[#00000080] border border-[#27272a] text-[#e4e4e7] text-sm outline-none focus:border-accent-primary placeholder-[#52525b]"
+        />
+        <button
+          onClick={handleAsk}
+          disabled={!question.trim() || askMutation.isPending}
+          className="h-10 px-4 rounded-md bg-[#6366f1] hover:bg-[#5558e3] disabled:bg-[#27272a] disabled:text-[#52525b] text-white text-sm transition-colors"
+        >
+          {askMutation.isPending ? "Thinking..." : "Ask"}
+        </button>
+      </div>
+
+      {askMutation.isError && (
+        <div className="text-sm text-status-error">
+          {askMutation.error.message}
+        </div>
+      )}
+
+      {result && !askMutation.isPending && (
+        <div className="flex flex-col gap-3">
+          <div
+            className="prose prose-invert prose-sm max-w-none text-[#e4e4e7] prose-p:text-[#e4e4e7] prose-li:text-[#e4e4e7] prose-strong:text-[#f4f4f5]"
+            dangerouslySetInnerHTML={{
+              __html: DOMPurify.sanitize(
+                marked(result.answer, { breaks: true, gfm: true }) as string,
+              ),
+            }}
+          />
+          {result.sources.length > 0 && (
+            <div className="flex flex-col gap-1 border-t border-[#27272a] pt-3">
+              <span className="text-xs text-[#52525b]">Sources</span>
+              {result.sources.map((source) => (
+                <button
+                  key={source.document_id}
+                  onClick={() =>
+                    onSourceClick?.({
+                      id: source.document_id,
+                      episode_id: source.episode_id,
+                      episode_title: source.episode_title,
+                    })
+                  }
+                  className="flex items-center gap-2 text-left text-[13px] text-[#a1a1aa] hover:text-[#f4f4f5] transition-colors"
+                >
+                  <span className="text-[#818cf8] font-mono">
+                    [{source.ref}]
+                  </span>
+                  <span className="truncate">
+                    {source.podcast_title} — {source.episode_title}
+                  </span>
+                  <span className="text-[#52525b] text-[12px] flex-shrink-0">
+                    {formatDate(source.episode_pub_date)}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function KnowledgeContent({ onDocumentClick }: KnowledgeContentProps) {
   const { data: podcasts, isLoading: podcastsLoading } = usePodcasts();
   const {
@@ -196,6 +333,28 @@ export function KnowledgeContent({ onDocumentClick }: KnowledgeContentProps) {
 
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [documentToDelete, setDocumentToDelete] = useState<any>(null);
+  const [filterField, setFilterField] = useState<StructuredField | "all">(
+    "all",
+  );
+  const [filterQuery, setFilterQuery] = useState("");
+  const [structuredOnly, setStructuredOnly] = useState(false);
+  const isFiltering = structuredOnly || filterQuery.trim() !== "";
+
+  // Structured summaries whose fields match, per document ID
+  const matches = new Map<string, string[]>();
+  if (isFiltering) {
+    for (const docs of documentsByPodcast.values()) {
+      for (const doc of docs) {
+        const values = matchStructured(doc, filterField, filterQuery);
+        if (values.length > 0) matches.set(doc.id, values);
+      }
+    }
+  }
+
+  const visibleDocs = (podcastId: string) => {
+    const docs = documentsByPodcast.get(podcastId) || [];
+    return isFiltering ? docs.filter((doc) => matches.has(doc.id)) : docs;
+  };
 
   const handleDocumentDelete = (doc: any) => {
     setDocumentToDelete(doc);
@@ -300,18 +459,65 @@ export function KnowledgeContent({ onDocumentClick }: KnowledgeContentProps) {
         </span>
       </div>
 
+      {/* Cross-library question answering */}
+      <LibraryAsk onSourceClick={onDocumentClick} />
+
+      {/* Structured summary filters */}
+      <div className="flex items-center gap-2">
+        <select
+          value={filterField}
+          onChange={(e) =>
+            setFilterField(e.target.value as StructuredField | "all")
+          }
+          className="h-9 px-3 rounded-md bg-[#00000080] border border-[#27272a] text-[#e4e4e7] text-[13px] outline-none focus:border-accent-primary"
+        >
+          <option value="all">All fields</option>
+          {STRUCTURED_FIELDS.map((field) => (
+            <option key={field} value={field}>
+              {STRUCTURED_FIELD_LABELS[field]}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={filterQuery}
+          onChange={(e) => setFilterQuery(e.target.value)}
+          placeholder="Filter structured summaries by guest, topic, action item..."
+          className="flex-1 h-9 px-3 rounded-md bg-[#00000080] border border-[#27272a] text-[#e4e4e7] text-[13px] outline-none focus:border-accent-primary placeholder-[#52525b]"
+        />
+        <button
+          onClick={() => setStructuredOnly(!structuredOnly)}
+          title="Only summaries generated in structured mode"
+          className={`h-9 px-3 rounded-md text-[12px] transition-colors ${
+            structuredOnly
+              ? "bg-white-10 text-[#f4f4f5]"
+              : "text-[#71717a] hover:text-[#d4d4d8] hover:bg-white-5"
+          }`}
+        >
+          Structured only
+        </button>
+      </div>
+
       {/* Accordion List */}
       <div className="flex-1 overflow-y-auto">
         <div className="flex flex-col gap-2">
-          {podcastsWithDocs.map((podcast: any) => (
-            <PodcastGroup
-              key={podcast.id}
-              podcast={podcast}
-              documents={documentsByPodcast.get(podcast.id) || []}
-              onDocumentClick={onDocumentClick}
-              onDocumentDelete={handleDocumentDelete}
-            />
-          ))}
+          {podcastsWithDocs
+            .filter((podcast: any) => visibleDocs(podcast.id).length > 0)
+            .map((podcast: any) => (
+              <PodcastGroup
+                key={podcast.id}
+                podcast={podcast}
+                documents={visibleDocs(podcast.id)}
+                matches={isFiltering ? matches : undefined}
+                onDocumentClick={onDocumentClick}
+                onDocumentDelete={handleDocumentDelete}
+              />
+            ))}
+          {isFiltering && matches.size === 0 && (
+            <div className="flex items-center justify-center py-16 text-[#52525b] text-sm">
+              No structured summaries match
+            </div>
+          )}
         </div>
       </div>
 
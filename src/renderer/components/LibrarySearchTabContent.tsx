@@ -0,0 +1,288 @@
+import { useEffect, useState } from "react";
+import { usePodcasts, useSearchLibrary } from "../hooks/useQueries";
+import { formatTimestamp } from "../utils/time";
+import {
+  SEARCH_HIGHLIGHT_END,
+  SEARCH_HIGHLIGHT_START,
+} from "../../shared/types";
+import type {
+  SearchMode,
+  SearchResult,
+  SearchResultType,
+} from "../../shared/types";
+
+interface LibrarySearchTabContentProps {
+  onResultClick: (result: SearchResult) => void;
+}
+
+const TYPE_OPTIONS: { id: SearchResultType; label: string }[] = [
+  { id: "summary", label: "Summaries" },
+  { id: "transcript", label: "Transcripts" },
+  { id: "episode", label: "Episode titles" },
+];
+
+const TYPE_BADGES: Record<SearchResultType, string> = {
+  summary: "Summary",
+  transcript: "Transcript",
+  episode: "Episode",
+};
+
+// Wait for typing to pause before querying; semantic queries call the
+// embedding API, so wait longer
+const SEARCH_DEBOUNCE_MS: Record<SearchMode, number> = {
+  keyword: 250,
+  semantic: 700,
+};
+
+const MODE_OPTIONS: { id: SearchMode; label: string; title: string }[] = [
+  {
+    id: "keyword",
+    label: "Keyword",
+    title: "Exact words, ranked by relevance",
+  },
+  {
+    id: "semantic",
+    label: "Semantic",
+    title: "Similar meaning, including paraphrases",
+  },
+];
+
+function formatDate(dateString: string): string {
+  const date = new Date(dateString);
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/**
+ * Snippets are plain text with matches wrapped in marker characters;
+ * render them as React nodes so stored content is never parsed as HTML
+ */
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(SEARCH_HIGHLIGHT_START);
+
+  return (
+    <>
+      {parts.map((part, index) => {
+        if (index === 0) return <span key={index}>{part}</span>;
+        const [match, rest = ""] = part.split(SEARCH_HIGHLIGHT_END);
+        return (
+          <span key={index}>
+            <mark className="bg-[#6366f133] text-[#c7d2fe] rounded-sm px-0.5">
+              {match}
+            </mark>
+            {rest}
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
+/**
+ * Full-text search over summaries, transcripts and episode titles of all
+ * subscribed podcasts, with podcast / date / type filters. Semantic mode
+ * matches summary / transcript passages by meaning instead of keywords.
+ */
+export function LibrarySearchTabContent({
+  onResultClick,
+}: LibrarySearchTabContentProps) {
+  const { data: podcasts = [] } = usePodcasts();
+  const [mode, setMode] = useState<SearchMode>("keyword");
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+  const [podcastId, setPodcastId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [types, setTypes] = useState<SearchResultType[]>(
+    TYPE_OPTIONS.map((option) => option.id),
+  );
+
+  useEffect(() => {
+    const timer = setTimeout(
+      () => setQuery(input.trim()),
+      SEARCH_DEBOUNCE_MS[mode],
+    );
+    return () => clearTimeout(timer);
+  }, [input, mode]);
+
+  const {
+    data: results = [],
+    isFetching,
+    isError,
+    error,
+  } = useSearchLibrary(query, {
+    mode,
+    podcastId: podcastId || null,
+    from: from || null,
+    to: to || null,
+    types,
+  });
+
+  const toggleType = (type: SearchResultType) => {
+    setTypes((current) =>
+      current.includes(type)
+        ? current.filter((t) => t !== type)
+        : [...current, type],
+    );
+  };
+
+  const inputClass =
+    "h-9 px-3 rounded-md bg-[#00000080] border border-[#27272a] text-[#e4e4e7] text-[13px] outline-none focus:border-accent-primary";
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 p-8 gap-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-[20px] font-medium text-[#f4f4f5]">Search</h2>
+        {query && !isFetching && (
+          <span className="text-[#a1a1aa] text-[13px]">
+            {results.length} results
+          </span>
+        )}
+      </div>
+
+      {/* Query + filters */}
+      <div className="rounded-lg bg-[#18181b] border border-[#ffffff1a] p-4 flex flex-col gap-3">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={
+              mode === "semantic"
+                ? "Describe what you are looking for..."
+                : "Search summaries, transcripts and episode titles..."
+            }
+            autoFocus
+            className={`${inputClass} flex-1 h-10 text-sm placeholder-[#52525b]`}
+          />
+          <div className="flex items-center gap-1 p-1 rounded-md bg-[#00000080] border border-[#27272a]">
+            {MODE_OPTIONS.map((option) => (
+              <button
+                key={option.id}
+                onClick={() => setMode(option.id)}
+                title={option.title}
+                className={`h-8 px-3 rounded text-[12px] transition-colors ${
+                  mode === option.id
+                    ? "bg-white-10 text-[#f4f4f5]"
+                    : "text-[#71717a] hover:text-[#d4d4d8]"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={podcastId}
+            onChange={(e) => setPodcastId(e.target.value)}
+            className={`${inputClass} max-w-[220px]`}
+          >
+            <option value="">All podcasts</option>
+            {podcasts.map((podcast) => (
+              <option key={podcast.id} value={podcast.id}>
+                {podcast.title}
+              </option>
+            ))}
+          </select>
+          <div className="flex items-center gap-2 text-[13px] text-[#a1a1aa]">
+            <input
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => setFrom(e.target.value)}
+              className={inputClass}
+              title="Published from"
+            />
+            <span>–</span>
+            <input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => setTo(e.target.value)}
+              className={inputClass}
+              title="Published until"
+            />
+          </div>
+          <div className="flex items-center gap-1 ml-auto">
+            {TYPE_OPTIONS.map((option) => {
+              // Episode titles are not embedded
+              if (mode === "semantic" && option.id === "episode") return null;
+              const isActive = types.includes(option.id);
+              return (
+                <button
+                  key={option.id}
+                  onClick={() => toggleType(option.id)}
+                  className={`h-8 px-3 rounded-md text-[12px] transition-colors ${
+                    isActive
+                      ? "bg-white-10 text-[#f4f4f5]"
+                      : "text-[#71717a] hover:text-[#d4d4d8] hover:bg-white-5"
+                  }`}
+                >
+                  {option.label}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      {/* Results */}
+      <div className="flex-1 overflow-y-auto">
+        {!query ? (
+          <div className="flex items-center justify-center h-full text-[#52525b] text-sm">
+            Type to search your library
+          </div>
+        ) : isError ? (
+          <div className="text-sm text-status-error">{error.message}</div>
+        ) : results.length === 0 && !isFetching ? (
+          <div className="flex items-center justify-center h-full text-[#52525b] text-sm">
+            No matches
+          </div>
+        ) : (
+          <div className="flex flex-col gap-2">
+            {results.map((result, index) => (
+              <button
+                key={`${result.type}-${result.document_id ?? result.episode_id}-${result.start_time ?? index}`}
+                onClick={() => onResultClick(result)}
+                className="text-left rounded-lg bg-[#18181b] border border-[#ffffff1a] px-4 py-3 hover:bg-white-5 transition-colors flex flex-col gap-1"
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="h-5 px-2 flex items-center rounded-full bg-[#ffffff1a] text-[#a1a1aa] text-[11px] flex-shrink-0">
+                    {TYPE_BADGES[result.type]}
+                  </span>
+                  <span className="text-[#f4f4f5] text-[13px] font-medium truncate">
+                    {result.type === "episode" ? (
+                      <HighlightedSnippet snippet={result.snippet} />
+                    ) : (
+                      result.episode_title
+                    )}
+                  </span>
+                  {result.start_time !== null && (
+                    <span className="text-[#818cf8] font-mono text-[12px] flex-shrink-0">
+                      [{formatTimestamp(result.start_time)}]
+                    </span>
+                  )}
+                  <span className="ml-auto text-[#52525b] text-[12px] flex-shrink-0">
+                    {formatDate(result.episode_pub_date)}
+                  </span>
+                </div>
+                <span className="text-[#71717a] text-[12px] truncate">
+                  {result.podcast_title}
+                </span>
+                {result.type !== "episode" && (
+                  <p className="text-[#a1a1aa] text-[13px] leading-relaxed line-clamp-3">
+                    <HighlightedSnippet snippet={result.snippet} />
+                  </p>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -45,7 +45,8 @@ function EpisodeRow({
   onDeleteDownload: (episode: Episode) => void;
   isActive: boolean;
 }) {
-  const isGenerating = useGeneratingStore((state) => state.isGenerating);
+  const jobStatus = useGeneratingStore((state) => state.jobs[episode.id]);
+  const isGenerating = !!jobStatus;
 
   return (
     <div
@@ -75,7 +76,13 @@ function EpisodeRow({
           className={`w-8 h-8 flex items-center justify-center rounded-md transition-colors ${
             isGenerating ? "opacity-50 cursor-not-allowed" : "hover:bg-white-10"
           }`}
-          title={isGenerating ? "Generating summary" : "Generate AI summary"}
+          title={
+            jobStatus === "pending"
+              ? "Queued for summary"
+              : isGenerating
+                ? "Generating summary"
+                : "Generate AI summary"
+          }
         >
           <svg
             className={`w-[18px] h-[18px] ${
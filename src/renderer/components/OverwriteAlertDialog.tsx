@@ -40,8 +40,8 @@ export function OverwriteAlertDialog({
                   Regenerate Summary?
                 </Dialog.Title>
                 <Dialog.Description className="text-[14px] text-[#a1a1aa] leading-relaxed">
-                  Existing summary will be overwritten. This operation will
-                  consume Gemini API quota.
+                  A new version will be added. Existing versions are kept in
+                  the history. This operation will consume Gemini API quota.
                 </Dialog.Description>
               </div>
             </div>
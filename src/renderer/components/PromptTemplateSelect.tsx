@@ -0,0 +1,90 @@
+import { useEffect, useRef, useState } from "react";
+import { usePromptTemplates } from "../hooks/useQueries";
+
+interface PromptTemplateSelectProps {
+  value: string[]; // Picked templates ("lenses"); [] = the podcast's prompt
+  onChange: (templateIds: string[]) => void;
+  className?: string;
+}
+
+/**
+ * Pick the prompt templates for one summary run. Each picked template
+ * ("lens") becomes its own document, generated from the same upload.
+ */
+export function PromptTemplateSelect({
+  value,
+  onChange,
+  className = "",
+}: PromptTemplateSelectProps) {
+  const { data: templates = [] } = usePromptTemplates();
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleMouseDown);
+    return () => document.removeEventListener("mousedown", handleMouseDown);
+  }, [open]);
+
+  // Templates deleted since they were picked are ignored
+  const picked = templates.filter((template) => value.includes(template.id));
+  const label =
+    picked.length === 0
+      ? "Podcast prompt"
+      : picked.length === 1
+        ? picked[0].name
+        : `${picked.length} lenses`;
+
+  const toggle = (templateId: string) =>
+    onChange(
+      value.includes(templateId)
+        ? value.filter((id) => id !== templateId)
+        : [...value, templateId],
+    );
+
+  return (
+    <div ref={containerRef} className="relative inline-block">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        title="Prompt templates for this run (one summary each)"
+        className={className}
+      >
+        {label} ▾
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-1 z-50 w-56 max-h-64 overflow-y-auto rounded-lg bg-[#18181b] border border-[#27272a] shadow-xl p-1 text-left">
+          <button
+            type="button"
+            onClick={() => onChange([])}
+            className={`w-full h-8 px-2 rounded-md text-left text-xs transition-colors ${
+              value.length === 0
+                ? "bg-white-10 text-white"
+                : "text-[#a1a1aa] hover:bg-white-5 hover:text-white"
+            }`}
+          >
+            Podcast prompt
+          </button>
+          {templates.map((template) => (
+            <label
+              key={template.id}
+              className="flex items-center gap-2 h-8 px-2 rounded-md text-xs text-[#d4d4d8] hover:bg-white-5 cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={value.includes(template.id)}
+                onChange={() => toggle(template.id)}
+              />
+              <span className="truncate">{template.name}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
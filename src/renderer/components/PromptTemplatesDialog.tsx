@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import * as Dialog from "@radix-ui/react-dialog";
+import {
+  useDeletePromptTemplate,
+  usePromptTemplates,
+  useSavePromptTemplate,
+} from "../hooks/useQueries";
+import { useToastStore } from "../stores/useToastStore";
+import { PROMPT_VARIABLES } from "../../shared/types";
+
+interface PromptTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Create, edit and delete prompt templates. The built-in template can be
+ * viewed and copied but not changed.
+ */
+export function PromptTemplatesDialog({
+  open,
+  onOpenChange,
+}: PromptTemplatesDialogProps) {
+  const { data: templates = [] } = usePromptTemplates();
+  const saveTemplate = useSavePromptTemplate();
+  const deleteTemplate = useDeletePromptTemplate();
+  const addToast = useToastStore((state) => state.addToast);
+
+  // null = new template
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [content, setContent] = useState("");
+
+  const selected = templates.find((template) => template.id === selectedId);
+  const isReadOnly = !!selected?.is_builtin;
+
+  useEffect(() => {
+    if (!open) return;
+    setSelectedId(null);
+    setName("");
+    setContent("");
+  }, [open]);
+
+  const handleSelect = (templateId: string) => {
+    const template = templates.find((t) => t.id === templateId);
+    if (!template) return;
+    setSelectedId(template.id);
+    setName(template.name);
+    setContent(template.content);
+  };
+
+  const handleNew = (copyFrom?: string) => {
+    setSelectedId(null);
+    setName(copyFrom ? `${name} (copy)` : "");
+    setContent(copyFrom ?? "");
+  };
+
+  const handleSave = async () => {
+    try {
+      const saved = await saveTemplate.mutateAsync({
+        id: selectedId,
+        name,
+        content,
+      });
+      setSelectedId(saved.id);
+      addToast({ type: "success", title: "Template saved" });
+    } catch (error) {
+      addToast({
+        type: "error",
+        title: "Save failed",
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId) return;
+    try {
+      await deleteTemplate.mutateAsync(selectedId);
+      handleNew();
+    } catch (error) {
+      addToast({
+        type: "error",
+        title: "Delete failed",
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/60 data-[state=open]:animate-fadeIn z-50" />
+        <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[800px] max-w-[90vw] bg-[#1a1a1a] rounded-xl border border-white/10 shadow-xl z-50 focus:outline-none">
+          {/* Header */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-white/10 h-14">
+            <Dialog.Title className="text-base font-medium text-white">
+              Prompt Templates
+            </Dialog.Title>
+            <Dialog.Close asChild>
+              <button className="w-8 h-8 flex items-center justify-center rounded-md hover:bg-white/10 transition-colors">
+                <svg
+                  className="w-4.5 h-4.5 text-[#a1a1aa]"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth={2}
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  viewBox="0 0 24 24"
+                >
+                  <path d="M18 6L6 18M6 6l12 12" />
+                </svg>
+              </button>
+            </Dialog.Close>
+          </div>
+
+          {/* Body */}
+          <div className="flex h-[420px]">
+            <div className="w-[220px] border-r border-white/10 p-3 flex flex-col gap-1 overflow-y-auto">
+              <button
+                onClick={() => handleNew()}
+                className={`h-9 px-3 rounded-md text-left text-sm transition-colors ${
+                  selectedId === null
+                    ? "bg-white-10 text-white"
+                    : "text-[#a1a1aa] hover:bg-white-5 hover:text-white"
+                }`}
+              >
+                + New template
+              </button>
+              {templates.map((template) => (
+                <button
+                  key={template.id}
+                  onClick={() => handleSelect(template.id)}
+                  className={`h-9 px-3 rounded-md text-left text-sm truncate transition-colors ${
+                    selectedId === template.id
+                      ? "bg-white-10 text-white"
+                      : "text-[#a1a1aa] hover:bg-white-5 hover:text-white"
+                  }`}
+                >
+                  {template.name}
+                  {template.is_builtin ? " (built-in)" : ""}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex-1 p-6 flex flex-col gap-3 min-w-0">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                readOnly={isReadOnly}
+                placeholder="Template name"
+                className="h-10 px-3 bg-[#00000080] rounded-lg text-white text-sm focus:outline-none placeholder:text-zinc-600"
+              />
+              <textarea
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                readOnly={isReadOnly}
+                placeholder="Prompt..."
+                className="flex-1 w-full bg-[#00000080] rounded-lg p-4 text-white text-sm leading-relaxed resize-none focus:outline-none placeholder:text-zinc-600"
+              />
+              <span className="text-xs text-zinc-500">
+                Variables:{" "}
+                {PROMPT_VARIABLES.map((variable) => `{{${variable}}}`).join(
+                  " ",
+                )}
+              </span>
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="flex items-center justify-between px-6 py-4 border-t border-white/10">
+            {selectedId && !isReadOnly ? (
+              <button
+                onClick={handleDelete}
+                disabled={deleteTemplate.isPending}
+                className="h-10 px-5 flex items-center justify-center rounded-md bg-[#f43f5e] text-white text-sm font-medium hover:bg-[#e11d48] transition-colors disabled:opacity-50"
+              >
+                Delete
+              </button>
+            ) : (
+              <span />
+            )}
+            <div className="flex gap-3">
+              {selectedId && (
+                <button
+                  onClick={() => handleNew(content)}
+                  className="h-10 px-5 rounded-md text-[#a1a1aa] hover:text-white hover:bg-white/5 transition-colors text-sm font-medium"
+                >
+                  Duplicate
+                </button>
+              )}
+              {!isReadOnly && (
+                <button
+                  onClick={handleSave}
+                  disabled={
+                    saveTemplate.isPending || !name.trim() || !content.trim()
+                  }
+                  className="h-10 px-5 flex items-center justify-center rounded-md bg-[#6366f1] hover:bg-[#5558e3] transition-colors disabled:opacity-50"
+                >
+                  <span className="text-sm text-white font-medium">
+                    {saveTemplate.isPending ? "Saving..." : "Save Template"}
+                  </span>
+                </button>
+              )}
+            </div>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,54 @@
+import { useRelatedEpisodes } from "../hooks/useQueries";
+
+interface RelatedEpisodesProps {
+  episodeId: string | null;
+  onEpisodeClick?: (episodeId: string) => void;
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/**
+ * Episodes whose summaries are closest in meaning to this one (embeddings).
+ * Renders nothing until the episode has been indexed.
+ */
+export function RelatedEpisodes({
+  episodeId,
+  onEpisodeClick,
+}: RelatedEpisodesProps) {
+  const { data: related = [] } = useRelatedEpisodes(episodeId);
+
+  if (related.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-1 border-t border-[#27272a] pt-4 mt-6">
+      <span className="text-xs text-[#52525b] mb-1">Related episodes</span>
+      {related.map((episode) => (
+        <button
+          key={episode.episode_id}
+          onClick={() => onEpisodeClick?.(episode.episode_id)}
+          disabled={!onEpisodeClick}
+          className="flex items-center gap-2 text-left text-[13px] text-[#a1a1aa] enabled:hover:text-[#f4f4f5] transition-colors"
+        >
+          <span className="truncate">
+            {episode.podcast_title} — {episode.episode_title}
+          </span>
+          <span className="ml-auto text-[#52525b] text-[12px] flex-shrink-0">
+            {formatDate(episode.episode_pub_date)}
+          </span>
+          <span
+            className="text-[#818cf8] font-mono text-[12px] flex-shrink-0"
+            title="Similarity"
+          >
+            {Math.round(episode.score * 100)}%
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -2,11 +2,12 @@ import React, { useState } from "react";
 import {
   usePodcasts,
   useDeletePodcast,
-  useGetApiKey,
+  useAiSettings,
 } from "../hooks/useQueries";
 import { useAppStore } from "../stores/useAppStore";
 import { useToastStore } from "../stores/useToastStore";
 import { DeletePodcastAlertDialog } from "./DeletePodcastAlertDialog";
+import { isSyncFailing } from "../utils/feedRefresh";
 
 interface SidebarProps {
   onSubscribeClick: () => void;
@@ -16,7 +17,7 @@ interface SidebarProps {
 export function Sidebar({ onApiKeyClick }: SidebarProps) {
   const { data: podcasts, isLoading } = usePodcasts();
   const deleteMutation = useDeletePodcast();
-  const { data: apiKey } = useGetApiKey();
+  const { data: aiSettings } = useAiSettings();
   const {
     activePodcastId,
     setActivePodcast,
@@ -201,6 +202,22 @@ export function Sidebar({ onApiKeyClick }: SidebarProps) {
                     >
                       {podcast.title}
                     </span>
+                    {isSyncFailing(podcast) && (
+                      <span
+                        title={`Refresh failed: ${podcast.last_sync_error}`}
+                        className="text-status-error text-[12px] flex-shrink-0"
+                      >
+                        ⚠
+                      </span>
+                    )}
+                    {!!podcast.new_count && (
+                      <span
+                        title={`${podcast.new_count} new since last viewed`}
+                        className="min-w-[18px] h-[18px] px-1 rounded-full bg-status-success text-[11px] font-medium text-black flex items-center justify-center flex-shrink-0"
+                      >
+                        {podcast.new_count > 99 ? "99+" : podcast.new_count}
+                      </span>
+                    )}
                     <button
                       onClick={(e) =>
                         handleUnsubscribe(podcast.id, podcast.title, e)
@@ -265,7 +282,7 @@ export function Sidebar({ onApiKeyClick }: SidebarProps) {
         >
           {/* Lucide key icon */}
           <svg
-            className={`w-3.5 h-3.5 ${apiKey ? "text-status-success" : "text-status-error"}`}
+            className={`w-3.5 h-3.5 ${aiSettings?.isConfigured ? "text-status-success" : "text-status-error"}`}
             fill="none"
             stroke="currentColor"
             strokeWidth="2"
@@ -278,7 +295,9 @@ export function Sidebar({ onApiKeyClick }: SidebarProps) {
             <circle cx="7.5" cy="15.5" r="5.5" />
           </svg>
           <span className="text-[#a1a1aa] text-xs">
-            {apiKey ? "API Connected" : "API Disconnected"}
+            {aiSettings?.isConfigured
+              ? `AI: ${aiSettings.provider}`
+              : "AI Not Configured"}
           </span>
         </button>
       </div>
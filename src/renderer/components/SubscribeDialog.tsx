@@ -139,7 +139,8 @@ export function SubscribeDialog({ open, onOpenChange }: SubscribeDialogProps) {
               Search Podcast
             </Dialog.Title>
             <Dialog.Description className="text-sm text-secondary">
-              Enter a podcast name or paste RSS feed URL to subscribe
+              Enter a podcast name or paste a feed URL (RSS, Atom or JSON Feed)
+              to subscribe
             </Dialog.Description>
           </div>
 
@@ -150,7 +151,7 @@ export function SubscribeDialog({ open, onOpenChange }: SubscribeDialogProps) {
                 type="text"
                 value={query}
                 onChange={(e) => setQuery(e.target.value)}
-                placeholder="Search podcasts or paste RSS URL..."
+                placeholder="Search podcasts or paste feed URL..."
                 className="flex-1 px-4 py-3 bg-panel-bg border border-border-subtle rounded-lg text-primary text-sm placeholder-muted focus:outline-none focus:ring-2 focus:ring-accent-primary focus:border-transparent"
                 autoFocus
               />
@@ -2,44 +2,96 @@ import { useState, useEffect } from "react";
 import * as Dialog from "@radix-ui/react-dialog";
 import { marked } from "marked";
 import DOMPurify from "dompurify";
-import { useDocuments, useRunAiSummary } from "../hooks/useQueries";
+import {
+  useDocuments,
+  useRunAiSummary,
+  useCancelAiSummary,
+  useSetPrimaryDocument,
+  useSetDocumentPinned,
+  useDeleteSummary,
+  useTranslateSummary,
+} from "../hooks/useQueries";
 import { useToastStore } from "../stores/useToastStore";
 import { useGeneratingStore } from "../stores/useGeneratingStore";
+import { formatSummaryProgress } from "../utils/summaryProgress";
+import { SUMMARY_LANGUAGES } from "../../shared/types";
+import type { Document } from "../../shared/types";
 import { OverwriteAlertDialog } from "./OverwriteAlertDialog";
-import { useQueryClient } from "@tanstack/react-query";
+import { DeleteDocumentAlertDialog } from "./DeleteDocumentAlertDialog";
+import { DocumentDiffView } from "./DocumentDiffView";
+import { TranscriptView } from "./TranscriptView";
+import { ChatPanel } from "./ChatPanel";
+import { RelatedEpisodes } from "./RelatedEpisodes";
+import { PromptTemplateSelect } from "./PromptTemplateSelect";
 
 interface SummaryModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   episodeId: string | null;
+  initialView?: "summary" | "transcript" | "chat";
+  onOpenEpisode?: (episodeId: string) => void;
 }
 
 export function SummaryModal({
   open,
   onOpenChange,
   episodeId,
+  initialView = "summary",
+  onOpenEpisode,
 }: SummaryModalProps) {
-  const queryClient = useQueryClient();
-  const {
-    data: documents,
-    isLoading: documentsLoading,
-    refetch: refetchDocuments,
-  } = useDocuments(episodeId);
+  const { data: documents, isLoading: documentsLoading } =
+    useDocuments(episodeId);
   const runSummary = useRunAiSummary();
-  const [selectedDocIndex, setSelectedDocIndex] = useState(0);
+  const cancelSummary = useCancelAiSummary();
+  const setPrimary = useSetPrimaryDocument();
+  const setPinned = useSetDocumentPinned();
+  const deleteSummary = useDeleteSummary();
+  const translateSummary = useTranslateSummary();
+  const [selectedDocId, setSelectedDocId] = useState<string | null>(null);
+  const [compareDocId, setCompareDocId] = useState<string | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [view, setView] = useState<"summary" | "transcript" | "chat">(
+    "summary",
+  );
   const [showOverwriteDialog, setShowOverwriteDialog] = useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [templateIds, setTemplateIds] = useState<string[]>([]);
   const addToast = useToastStore((state) => state.addToast);
-  const removeToast = useToastStore((state) => state.removeToast);
-  const isGenerating = useGeneratingStore((state) => state.isGenerating);
+  const jobStatus = useGeneratingStore((state) =>
+    episodeId ? state.jobs[episodeId] : undefined,
+  );
+  const progress = useGeneratingStore((state) =>
+    episodeId ? state.progress[episodeId] : undefined,
+  );
+  const streamingText = useGeneratingStore((state) =>
+    episodeId ? state.streamingText[episodeId] : undefined,
+  );
+  const isGenerating = !!jobStatus || runSummary.isPending;
 
   useEffect(() => {
     if (open) {
-      setSelectedDocIndex(0);
+      setSelectedDocId(null);
+      setIsComparing(false);
+      setView(initialView);
+      setTemplateIds([]);
     }
-  }, [open, episodeId]);
+  }, [open, episodeId, initialView]);
 
+  // Versions are sorted newest first; default to the primary version
+  const primaryDocument =
+    documents?.find((doc) => doc.is_primary) ?? documents?.[0] ?? null;
   const currentDocument =
-    documents && documents.length > 0 ? documents[selectedDocIndex] : null;
+    documents?.find((doc) => doc.id === selectedDocId) ?? primaryDocument;
+  const otherVersions = (documents ?? []).filter(
+    (doc) => doc.id !== currentDocument?.id,
+  );
+  const compareDocument =
+    otherVersions.find((doc) => doc.id === compareDocId) ??
+    otherVersions[0] ??
+    null;
+
+  const versionLabel = (doc: Document) =>
+    `v${(documents?.length ?? 0) - (documents?.indexOf(doc) ?? 0)}`;
 
   const renderMarkdown = (markdown: string) => {
     const html = marked(markdown, {
@@ -59,32 +111,15 @@ export function SummaryModal({
     }
   };
 
-  const handleGenerateSummary = async () => {
-    if (!episodeId) return;
-
-    if (documents && documents.length > 0) {
-      setShowOverwriteDialog(true);
-      return;
-    }
-
-    const loadingToastId = addToast({
-      type: "loading",
-      title: "Generating AI summary...",
-      duration: 60000,
-    });
-
+  const queueSummary = async (id: string) => {
     try {
-      await runSummary.mutateAsync(episodeId);
-      removeToast(loadingToastId);
+      await runSummary.mutateAsync({ episodeId: id, templateIds });
       addToast({
-        type: "success",
-        title: "Summary generated",
+        type: "info",
+        title: "Added to summary queue",
         duration: 3000,
       });
-      await queryClient.invalidateQueries({ queryKey: ["documents", episodeId] });
-      await refetchDocuments();
     } catch (error: any) {
-      removeToast(loadingToastId);
       addToast({
         type: "error",
         title: "Generation failed",
@@ -94,37 +129,81 @@ export function SummaryModal({
     }
   };
 
+  const handleGenerateSummary = async () => {
+    if (!episodeId) return;
+
+    if (documents && documents.length > 0) {
+      setShowOverwriteDialog(true);
+      return;
+    }
+
+    await queueSummary(episodeId);
+  };
+
   const handleOverwriteConfirm = async () => {
     if (!episodeId) return;
     setShowOverwriteDialog(false);
+    await queueSummary(episodeId);
+  };
 
-    const loadingToastId = addToast({
-      type: "loading",
-      title: "Generating AI summary...",
-      duration: 60000,
-    });
-
+  const runVersionAction = async (
+    action: () => Promise<unknown>,
+    successTitle: string,
+  ) => {
     try {
-      await runSummary.mutateAsync(episodeId);
-      removeToast(loadingToastId);
-      addToast({
-        type: "success",
-        title: "Summary generated",
-        duration: 3000,
-      });
-      await queryClient.invalidateQueries({ queryKey: ["documents", episodeId] });
-      await refetchDocuments();
+      await action();
+      addToast({ type: "success", title: successTitle, duration: 3000 });
     } catch (error: any) {
-      removeToast(loadingToastId);
       addToast({
         type: "error",
-        title: "Generation failed",
+        title: "Action failed",
         description: error.message,
         duration: 5000,
       });
     }
   };
 
+  const handleSetPrimary = () => {
+    if (!currentDocument) return;
+    runVersionAction(
+      () => setPrimary.mutateAsync(currentDocument.id),
+      `${versionLabel(currentDocument)} restored as primary`,
+    );
+  };
+
+  const handleTogglePinned = () => {
+    if (!currentDocument) return;
+    const pinned = !currentDocument.is_pinned;
+    runVersionAction(
+      () =>
+        setPinned.mutateAsync({ documentId: currentDocument.id, pinned }),
+      pinned ? "Version pinned" : "Version unpinned",
+    );
+  };
+
+  const handleTranslate = async (language: string) => {
+    if (!currentDocument || !language) return;
+    await runVersionAction(async () => {
+      const translationId = await translateSummary.mutateAsync({
+        documentId: currentDocument.id,
+        language,
+      });
+      setSelectedDocId(translationId);
+      setIsComparing(false);
+    }, `Translated into ${language}`);
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!currentDocument) return;
+    setShowDeleteDialog(false);
+    await runVersionAction(
+      () => deleteSummary.mutateAsync(currentDocument.id),
+      "Version deleted",
+    );
+    setSelectedDocId(null);
+    setIsComparing(false);
+  };
+
   const handleOpenChange = (newOpen: boolean) => {
     onOpenChange(newOpen);
   };
@@ -140,20 +219,40 @@ export function SummaryModal({
               <Dialog.Title className="text-[16px] font-medium text-[#f4f4f5] truncate">
                 {"Document"}
               </Dialog.Title>
-              {/* Tabs for multiple documents */}
-              {documents && documents.length > 1 && (
-                <div className="flex gap-1">
-                  {documents.map((doc, index) => (
+              {/* Summary / Transcript switch */}
+              <div className="flex gap-1 p-0.5 rounded-lg bg-[#00000080]">
+                {(["summary", "transcript", "chat"] as const).map((tab) => (
+                  <button
+                    key={tab}
+                    onClick={() => setView(tab)}
+                    className={`px-3 py-1 rounded-md text-xs capitalize transition-colors ${
+                      view === tab
+                        ? "bg-[#27272a] text-[#f4f4f5]"
+                        : "text-[#a1a1aa] hover:text-[#f4f4f5]"
+                    }`}
+                  >
+                    {tab}
+                  </button>
+                ))}
+              </div>
+              {/* Version picker (newest first) */}
+              {view === "summary" && documents && documents.length > 1 && (
+                <div className="flex gap-1 overflow-x-auto">
+                  {documents.map((doc) => (
                     <button
                       key={doc.id}
-                      onClick={() => setSelectedDocIndex(index)}
-                      className={`px-3 py-1 rounded-md text-xs transition-colors ${
-                        selectedDocIndex === index
+                      onClick={() => setSelectedDocId(doc.id)}
+                      title={`${new Date(doc.created_at).toLocaleString("zh-TW")}${doc.language ? ` · ${doc.language}` : ""}`}
+                      className={`px-3 py-1 rounded-md text-xs whitespace-nowrap transition-colors ${
+                        currentDocument?.id === doc.id
                           ? "bg-[#6366f1] text-white"
                           : "text-[#a1a1aa] hover:bg-[#27272a]"
                       }`}
                     >
-                      Summary {index + 1}
+                      {versionLabel(doc)}
+                      {doc.label ? ` · ${doc.label}` : ""}
+                      {doc.is_primary ? " ★" : ""}
+                      {doc.is_pinned ? " 📌" : ""}
                     </button>
                   ))}
                 </div>
@@ -162,6 +261,26 @@ export function SummaryModal({
 
             {/* Actions */}
             <div className="flex items-center gap-2 flex-shrink-0">
+              {view === "summary" && currentDocument && (
+                <select
+                  value=""
+                  onChange={(e) => handleTranslate(e.target.value)}
+                  disabled={translateSummary.isPending}
+                  title="Translate this version into a new version"
+                  className="h-9 px-3 rounded-lg bg-transparent border border-[#27272a] text-xs text-[#a1a1aa] font-medium hover:bg-[#27272a] transition-colors focus:outline-none disabled:opacity-50"
+                >
+                  <option value="">
+                    {translateSummary.isPending
+                      ? "Translating..."
+                      : "Translate"}
+                  </option>
+                  {SUMMARY_LANGUAGES.map((language) => (
+                    <option key={language} value={language}>
+                      {language}
+                    </option>
+                  ))}
+                </select>
+              )}
               <button
                 onClick={handleCopyMarkdown}
                 disabled={!currentDocument}
@@ -204,7 +323,11 @@ export function SummaryModal({
 
           {/* Content */}
           <div className="flex-1 overflow-auto p-8 max-h-[560px]">
-            {documentsLoading ? (
+            {view === "transcript" ? (
+              <TranscriptView episodeId={episodeId} />
+            ) : view === "chat" ? (
+              <ChatPanel episodeId={episodeId} />
+            ) : documentsLoading ? (
               <div className="flex items-center justify-center h-48">
                 <div className="flex items-center gap-3 text-[#a1a1aa]">
                   <svg
@@ -230,13 +353,56 @@ export function SummaryModal({
                   <span className="text-sm">Loading...</span>
                 </div>
               </div>
+            ) : streamingText ? (
+              <div className="flex flex-col gap-4">
+                <div className="flex items-center gap-2 text-xs text-[#a1a1aa]">
+                  <span className="w-2 h-2 rounded-full bg-[#6366f1] animate-pulse" />
+                  Generating... (saved when complete)
+                </div>
+                <div
+                  className="prose prose-invert max-w-none text-[#e4e4e7] prose-headings:text-[#f4f4f5] prose-p:text-[#e4e4e7] prose-strong:text-[#f4f4f5] prose-ul:text-[#e4e4e7] prose-ol:text-[#e4e4e7] prose-li:text-[#e4e4e7] prose-a:text-[#818cf8] prose-code:text-[#c4b5fd] prose-blockquote:text-[#a1a1aa] prose-blockquote:border-[#3f3f46] prose-hr:border-[#3f3f46] prose-td:text-[#e4e4e7] prose-th:text-[#f4f4f5]"
+                  dangerouslySetInnerHTML={{
+                    __html: renderMarkdown(streamingText),
+                  }}
+                />
+              </div>
+            ) : currentDocument && isComparing && compareDocument ? (
+              <div className="flex flex-col gap-4">
+                <div className="flex items-center gap-2 text-xs text-[#a1a1aa]">
+                  <span>Compare {versionLabel(currentDocument)} with</span>
+                  <select
+                    value={compareDocument.id}
+                    onChange={(e) => setCompareDocId(e.target.value)}
+                    className="h-8 px-2 rounded-md bg-[#00000080] border border-[#27272a] text-[#e4e4e7] outline-none"
+                  >
+                    {otherVersions.map((doc) => (
+                      <option key={doc.id} value={doc.id}>
+                        {versionLabel(doc)} ·{" "}
+                        {new Date(doc.created_at).toLocaleString("zh-TW")}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <DocumentDiffView
+                  before={compareDocument.content}
+                  after={currentDocument.content}
+                  beforeLabel={versionLabel(compareDocument)}
+                  afterLabel={versionLabel(currentDocument)}
+                />
+              </div>
             ) : currentDocument ? (
-              <div
-                className="prose prose-invert max-w-none text-[#e4e4e7] prose-headings:text-[#f4f4f5] prose-p:text-[#e4e4e7] prose-strong:text-[#f4f4f5] prose-ul:text-[#e4e4e7] prose-ol:text-[#e4e4e7] prose-li:text-[#e4e4e7] prose-a:text-[#818cf8] prose-code:text-[#c4b5fd] prose-blockquote:text-[#a1a1aa] prose-blockquote:border-[#3f3f46] prose-hr:border-[#3f3f46] prose-td:text-[#e4e4e7] prose-th:text-[#f4f4f5]"
-                dangerouslySetInnerHTML={{
-                  __html: renderMarkdown(currentDocument.content),
-                }}
-              />
+              <>
+                <div
+                  className="prose prose-invert max-w-none text-[#e4e4e7] prose-headings:text-[#f4f4f5] prose-p:text-[#e4e4e7] prose-strong:text-[#f4f4f5] prose-ul:text-[#e4e4e7] prose-ol:text-[#e4e4e7] prose-li:text-[#e4e4e7] prose-a:text-[#818cf8] prose-code:text-[#c4b5fd] prose-blockquote:text-[#a1a1aa] prose-blockquote:border-[#3f3f46] prose-hr:border-[#3f3f46] prose-td:text-[#e4e4e7] prose-th:text-[#f4f4f5]"
+                  dangerouslySetInnerHTML={{
+                    __html: renderMarkdown(currentDocument.content),
+                  }}
+                />
+                <RelatedEpisodes
+                  episodeId={episodeId}
+                  onEpisodeClick={onOpenEpisode}
+                />
+              </>
             ) : (
               <div className="flex flex-col items-center justify-center h-48">
                 <svg
@@ -260,12 +426,17 @@ export function SummaryModal({
                 <p className="text-sm text-[#a1a1aa] mb-6">
                   Click the button below to generate AI summary
                 </p>
+                <PromptTemplateSelect
+                  value={templateIds}
+                  onChange={setTemplateIds}
+                  className="h-9 px-3 mb-4 rounded-lg bg-[#00000080] border border-[#27272a] text-[#a1a1aa] text-xs focus:outline-none"
+                />
                 <button
                   onClick={handleGenerateSummary}
-                  disabled={runSummary.isPending}
+                  disabled={isGenerating}
                   className="h-10 px-6 rounded-lg bg-[#6366f1] hover:bg-[#5558e3] disabled:bg-[#27272a] disabled:text-[#52525b] text-white text-sm font-medium transition-colors flex items-center gap-2"
                 >
-                  {runSummary.isPending ? (
+                  {isGenerating ? (
                     <>
                       <svg
                         className="animate-spin h-4 w-4"
@@ -287,7 +458,9 @@ export function SummaryModal({
                           d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                         />
                       </svg>
-                      Generating...
+                      {jobStatus === "pending"
+                        ? "Queued..."
+                        : formatSummaryProgress(progress)}
                     </>
                   ) : (
                     <>
@@ -306,32 +479,105 @@ export function SummaryModal({
                     </>
                   )}
                 </button>
+                {jobStatus && (
+                  <button
+                    onClick={() => episodeId && cancelSummary.mutate(episodeId)}
+                    disabled={cancelSummary.isPending}
+                    className="mt-3 text-xs text-[#a1a1aa] hover:text-[#f4f4f5] transition-colors disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                )}
               </div>
             )}
           </div>
 
           {/* Footer */}
-          {currentDocument && (
+          {view === "summary" && currentDocument && (
             <div className="flex items-center justify-between px-6 py-4 border-t border-[#27272a]">
               <span className="text-xs text-white">
-                Generated:{" "}
+                {versionLabel(currentDocument)}
+                {currentDocument.is_primary ? " (primary)" : ""}
+                {currentDocument.label ? ` · ${currentDocument.label}` : ""}
+                {currentDocument.language
+                  ? ` · ${currentDocument.language} translation`
+                  : ""}{" "}
+                · Generated:{" "}
                 {currentDocument.created_at
                   ? new Date(currentDocument.created_at).toLocaleString("zh-TW")
                   : "-"}
               </span>
-              <button
-                onClick={handleGenerateSummary}
-                disabled={isGenerating || runSummary.isPending}
-                className={`h-9 px-4 rounded-lg text-white text-sm font-medium transition-colors ${
-                  isGenerating || runSummary.isPending
-                    ? "bg-[#6366f1]/50 cursor-not-allowed"
-                    : "bg-[#6366f1] hover:bg-[#5558e3]"
-                }`}
-              >
-                {isGenerating || runSummary.isPending
-                  ? "Generating..."
-                  : "Regenerate"}
-              </button>
+              <div className="flex items-center gap-2">
+                {!currentDocument.is_primary && (
+                  <button
+                    onClick={handleSetPrimary}
+                    disabled={setPrimary.isPending}
+                    className="h-9 px-3 rounded-lg text-xs text-[#a1a1aa] border border-[#27272a] hover:bg-[#27272a] transition-colors disabled:opacity-50"
+                  >
+                    Restore as primary
+                  </button>
+                )}
+                <button
+                  onClick={handleTogglePinned}
+                  disabled={setPinned.isPending}
+                  className="h-9 px-3 rounded-lg text-xs text-[#a1a1aa] border border-[#27272a] hover:bg-[#27272a] transition-colors disabled:opacity-50"
+                >
+                  {currentDocument.is_pinned ? "Unpin" : "Pin"}
+                </button>
+                {documents && documents.length > 1 && (
+                  <button
+                    onClick={() => setIsComparing(!isComparing)}
+                    className={`h-9 px-3 rounded-lg text-xs border border-[#27272a] transition-colors ${
+                      isComparing
+                        ? "bg-[#27272a] text-[#f4f4f5]"
+                        : "text-[#a1a1aa] hover:bg-[#27272a]"
+                    }`}
+                  >
+                    {isComparing ? "Hide diff" : "Compare"}
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowDeleteDialog(true)}
+                  disabled={!!currentDocument.is_pinned}
+                  title={
+                    currentDocument.is_pinned
+                      ? "Unpin this version to delete it"
+                      : "Delete this version"
+                  }
+                  className="h-9 px-3 rounded-lg text-xs text-status-error border border-[#27272a] hover:bg-[#f43f5e1a] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Delete
+                </button>
+                {jobStatus && (
+                  <button
+                    onClick={() => episodeId && cancelSummary.mutate(episodeId)}
+                    disabled={cancelSummary.isPending}
+                    className="h-9 px-3 rounded-lg text-xs text-[#a1a1aa] border border-[#27272a] hover:bg-[#27272a] transition-colors disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                )}
+                <PromptTemplateSelect
+                  value={templateIds}
+                  onChange={setTemplateIds}
+                  className="h-9 px-3 rounded-lg bg-[#00000080] border border-[#27272a] text-[#a1a1aa] text-xs focus:outline-none"
+                />
+                <button
+                  onClick={handleGenerateSummary}
+                  disabled={isGenerating}
+                  className={`h-9 px-4 rounded-lg text-white text-sm font-medium transition-colors ${
+                    isGenerating
+                      ? "bg-[#6366f1]/50 cursor-not-allowed"
+                      : "bg-[#6366f1] hover:bg-[#5558e3]"
+                  }`}
+                >
+                  {jobStatus === "pending"
+                    ? "Queued..."
+                    : isGenerating
+                      ? formatSummaryProgress(progress)
+                      : "Regenerate"}
+                </button>
+              </div>
             </div>
           )}
         </Dialog.Content>
@@ -342,6 +588,14 @@ export function SummaryModal({
         onOpenChange={setShowOverwriteDialog}
         onConfirm={handleOverwriteConfirm}
       />
+      <DeleteDocumentAlertDialog
+        open={showDeleteDialog}
+        onOpenChange={setShowDeleteDialog}
+        onConfirm={handleDeleteConfirm}
+        documentTitle={
+          currentDocument ? `Version ${versionLabel(currentDocument)}` : undefined
+        }
+      />
     </Dialog.Root>
   );
 }
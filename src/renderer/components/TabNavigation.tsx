@@ -53,11 +53,45 @@ const FolderIcon = ({ className }: { className?: string }) => (
   </svg>
 );
 
+const SearchIcon = ({ className }: { className?: string }) => (
+  <svg
+    className={className}
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    viewBox="0 0 24 24"
+  >
+    <circle cx="11" cy="11" r="8" />
+    <path d="m21 21-4.3-4.3" />
+  </svg>
+);
+
+const BarChartIcon = ({ className }: { className?: string }) => (
+  <svg
+    className={className}
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    viewBox="0 0 24 24"
+  >
+    <path d="M3 3v18h18" />
+    <path d="M18 17V9" />
+    <path d="M13 17V5" />
+    <path d="M8 17v-3" />
+  </svg>
+);
+
 export function TabNavigation({ activeTab, onTabChange }: TabNavigationProps) {
   const tabs = [
     { id: "episodes" as Tab, label: "Episodes", Icon: RadioIcon },
     { id: "local-upload" as Tab, label: "Downloads", Icon: FolderIcon },
     { id: "knowledge" as Tab, label: "Documents", Icon: BookOpenIcon },
+    { id: "search" as Tab, label: "Search", Icon: SearchIcon },
+    { id: "usage" as Tab, label: "Usage", Icon: BarChartIcon },
   ];
 
   return (
@@ -0,0 +1,164 @@
+import { useMemo, useState } from "react";
+import {
+  useTranscript,
+  useDeleteTranscript,
+  useImportPublisherTranscript,
+} from "../hooks/useQueries";
+import { useToastStore } from "../stores/useToastStore";
+import { formatTimestamp } from "../utils/time";
+
+interface TranscriptViewProps {
+  episodeId: string | null;
+  hasPublisherTranscript?: boolean; // The feed lists a transcript file
+}
+
+/**
+ * Stored transcript of an episode: timestamped segments with speakers
+ */
+export function TranscriptView({
+  episodeId,
+  hasPublisherTranscript = false,
+}: TranscriptViewProps) {
+  const { data: transcript, isLoading } = useTranscript(episodeId);
+  const deleteTranscript = useDeleteTranscript();
+  const importTranscript = useImportPublisherTranscript();
+  const addToast = useToastStore((state) => state.addToast);
+  const [filter, setFilter] = useState("");
+
+  const segments = useMemo(() => {
+    const all = transcript?.segments ?? [];
+    const query = filter.trim().toLowerCase();
+    if (!query) return all;
+    return all.filter((seg) => seg.text.toLowerCase().includes(query));
+  }, [transcript, filter]);
+
+  const handleImport = () => {
+    if (!episodeId) return;
+    importTranscript.mutate(episodeId, {
+      onSuccess: () =>
+        addToast({ type: "success", title: "Transcript imported" }),
+      onError: (error: Error) =>
+        addToast({
+          type: "error",
+          title: "Import failed",
+          description: error.message,
+        }),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-48 text-sm text-[#a1a1aa]">
+        Loading transcript...
+      </div>
+    );
+  }
+
+  if (!transcript || transcript.segments.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-48 text-center">
+        <h3 className="text-lg font-medium text-[#f4f4f5] mb-2">
+          No transcript yet
+        </h3>
+        <p className="text-sm text-[#a1a1aa]">
+          {hasPublisherTranscript
+            ? "The publisher provides a transcript, which is also imported automatically before the next summary"
+            : "A transcript is saved the next time a summary is generated"}
+        </p>
+        {hasPublisherTranscript && (
+          <button
+            onClick={handleImport}
+            disabled={importTranscript.isPending}
+            className="mt-4 h-8 px-3 rounded-md text-xs text-[#e4e4e7] border border-[#27272a] hover:bg-[#27272a] transition-colors disabled:opacity-50"
+          >
+            {importTranscript.isPending
+              ? "Importing..."
+              : "Import publisher transcript"}
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const handleCopy = () => {
+    const text = transcript.segments
+      .map(
+        (seg) =>
+          `[${formatTimestamp(seg.start)}] ${seg.speaker ? `${seg.speaker}: ` : ""}${seg.text}`,
+      )
+      .join("\n");
+    navigator.clipboard.writeText(text);
+    addToast({ type: "success", title: "Copied to clipboard" });
+  };
+
+  const handleDelete = () => {
+    if (!episodeId) return;
+    deleteTranscript.mutate(episodeId, {
+      onSuccess: () =>
+        addToast({
+          type: "success",
+          title: "Transcript deleted",
+          description: "The next summary will transcribe the audio again",
+        }),
+      onError: (error: Error) =>
+        addToast({
+          type: "error",
+          title: "Delete failed",
+          description: error.message,
+        }),
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter transcript..."
+          className="flex-1 h-8 px-3 rounded-md bg-[#00000080] border border-[#27272a] text-[#e4e4e7] text-xs outline-none focus:border-accent-primary placeholder-[#52525b]"
+        />
+        <span className="text-xs text-[#52525b] whitespace-nowrap">
+          {transcript.source}
+          {transcript.model ? ` · ${transcript.model}` : ""} ·{" "}
+          {new Date(transcript.created_at).toLocaleDateString("zh-TW")}
+        </span>
+        <button
+          onClick={handleCopy}
+          className="h-8 px-3 rounded-md text-xs text-[#a1a1aa] border border-[#27272a] hover:bg-[#27272a] transition-colors"
+        >
+          Copy
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={deleteTranscript.isPending}
+          className="h-8 px-3 rounded-md text-xs text-status-error border border-[#27272a] hover:bg-[#f43f5e1a] transition-colors disabled:opacity-50"
+        >
+          Delete
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-3">
+        {segments.map((seg, index) => (
+          <div key={index} className="flex gap-3 text-sm leading-relaxed">
+            <span className="w-14 flex-shrink-0 font-mono text-xs text-[#818cf8] pt-0.5">
+              {formatTimestamp(seg.start)}
+            </span>
+            <div className="min-w-0">
+              {seg.speaker && (
+                <span className="mr-2 text-xs font-medium text-[#a1a1aa]">
+                  {seg.speaker}
+                </span>
+              )}
+              <span className="text-[#e4e4e7]">{seg.text}</span>
+            </div>
+          </div>
+        ))}
+        {segments.length === 0 && (
+          <div className="text-sm text-[#52525b]">No matching segments</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+import { useEffect, useState } from "react";
+import {
+  useDbStats,
+  useSetUsageLimits,
+  useUsageLimits,
+} from "../hooks/useQueries";
+import {
+  USAGE_LIMIT_METRIC_LABELS,
+  USAGE_LIMIT_PERIOD_LABELS,
+} from "../utils/usageLimits";
+import type {
+  UsageLimit,
+  UsageLimitMetric,
+  UsageLimitPeriod,
+  UsageTotals,
+} from "../../shared/types";
+
+type Breakdown = "day" | "podcast" | "model";
+
+const BREAKDOWN_OPTIONS: { id: Breakdown; label: string }[] = [
+  { id: "day", label: "Per day" },
+  { id: "podcast", label: "Per podcast" },
+  { id: "model", label: "Per model" },
+];
+
+const LIMIT_PERIODS: UsageLimitPeriod[] = ["daily", "monthly"];
+const LIMIT_METRICS: UsageLimitMetric[] = ["tokens", "audioHours", "cost"];
+
+// Form values: empty string = no limit
+type LimitInputs = Record<UsageLimitPeriod, Record<UsageLimitMetric, string>>;
+
+const PROVIDER_LABELS: Record<string, string> = {
+  gemini: "Gemini",
+  openai: "OpenAI-compatible",
+  fake: "Fake",
+};
+
+function formatCost(totals: UsageTotals): string {
+  const runs = totals.summaries + totals.failed;
+  if (runs > 0 && totals.unpriced === runs) {
+    return "—";
+  }
+  const cost =
+    totals.estimated_cost > 0 && totals.estimated_cost < 0.01
+      ? "< $0.01"
+      : `$${totals.estimated_cost.toFixed(2)}`;
+  // Some summaries used a model without a known price
+  return totals.unpriced > 0 ? `${cost}+` : cost;
+}
+
+function formatTokens(count: number): string {
+  return count.toLocaleString("en-US");
+}
+
+function formatHours(seconds: number): string {
+  const hours = seconds / 3600;
+  return hours >= 10 ? `${Math.round(hours)} h` : `${hours.toFixed(1)} h`;
+}
+
+function formatDay(day: string): string {
+  return new Date(`${day}T00:00:00.000Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function StatCard({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg bg-[#18181b] border border-[#ffffff1a] px-4 py-3 flex flex-col gap-1">
+      <span className="text-[#71717a] text-[12px]">{label}</span>
+      <span className="text-[#f4f4f5] text-[20px] font-medium">{value}</span>
+    </div>
+  );
+}
+
+function toInputs(limit: UsageLimit): Record<UsageLimitMetric, string> {
+  return {
+    tokens: limit.tokens === null ? "" : String(limit.tokens),
+    audioHours: limit.audioHours === null ? "" : String(limit.audioHours),
+    cost: limit.cost === null ? "" : String(limit.cost),
+  };
+}
+
+function toLimit(inputs: Record<UsageLimitMetric, string>): UsageLimit {
+  const parse = (value: string) => (value.trim() ? Number(value) : null);
+  return {
+    tokens: parse(inputs.tokens),
+    audioHours: parse(inputs.audioHours),
+    cost: parse(inputs.cost),
+  };
+}
+
+/**
+ * Daily / monthly limits. Once one is used up, queued summaries wait until
+ * it resets instead of failing.
+ */
+function UsageLimitsForm() {
+  const { data: limits } = useUsageLimits();
+  const saveLimits = useSetUsageLimits();
+  const [inputs, setInputs] = useState<LimitInputs | null>(null);
+  const [warnAtPercent, setWarnAtPercent] = useState("80");
+
+  useEffect(() => {
+    if (!limits) return;
+    setInputs({
+      daily: toInputs(limits.daily),
+      monthly: toInputs(limits.monthly),
+    });
+    setWarnAtPercent(String(limits.warnAtPercent));
+  }, [limits]);
+
+  if (!inputs) return null;
+
+  const setInput = (
+    period: UsageLimitPeriod,
+    metric: UsageLimitMetric,
+    value: string,
+  ) =>
+    setInputs({ ...inputs, [period]: { ...inputs[period], [metric]: value } });
+
+  const handleSave = () =>
+    saveLimits.mutate({
+      daily: toLimit(inputs.daily),
+      monthly: toLimit(inputs.monthly),
+      warnAtPercent: Number(warnAtPercent),
+    });
+
+  const inputClass =
+    "h-8 w-full px-2 rounded-md bg-[#00000080] border border-[#27272a] text-[#e4e4e7] text-[13px] outline-none focus:border-accent-primary placeholder-[#52525b]";
+
+  return (
+    <div className="rounded-lg bg-[#18181b] border border-[#ffffff1a] p-4 flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <span className="text-[#f4f4f5] text-[14px] font-medium">Limits</span>
+        <span className="text-[#52525b] text-[12px]">
+          Queued summaries wait when a limit is reached. Unpriced models do not
+          count toward cost limits.
+        </span>
+      </div>
+      <div className="grid grid-cols-[80px_repeat(3,1fr)] gap-2 items-center text-[12px] text-[#71717a]">
+        <span />
+        {LIMIT_METRICS.map((metric) => (
+          <span key={metric}>{USAGE_LIMIT_METRIC_LABELS[metric]}</span>
+        ))}
+        {LIMIT_PERIODS.map((period) => (
+          <div key={period} className="contents">
+            <span className="text-[#a1a1aa]">
+              {USAGE_LIMIT_PERIOD_LABELS[period]}
+            </span>
+            {LIMIT_METRICS.map((metric) => (
+              <input
+                key={metric}
+                type="number"
+                min={0}
+                step="any"
+                value={inputs[period][metric]}
+                onChange={(e) => setInput(period, metric, e.target.value)}
+                placeholder="No limit"
+                className={inputClass}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-2 text-[12px] text-[#a1a1aa]">
+        <span>Warn at</span>
+        <input
+          type="number"
+          min={1}
+          max={100}
+          value={warnAtPercent}
+          onChange={(e) => setWarnAtPercent(e.target.value)}
+          className={`${inputClass} w-16`}
+        />
+        <span>% of a limit</span>
+        {saveLimits.isError && (
+          <span className="text-status-error">{saveLimits.error.message}</span>
+        )}
+        {saveLimits.isSuccess && <span className="text-[#71717a]">Saved</span>}
+        <button
+          onClick={handleSave}
+          disabled={saveLimits.isPending}
+          className="ml-auto h-8 px-4 rounded-md bg-white-10 text-[#f4f4f5] text-[12px] hover:bg-white-5 transition-colors disabled:opacity-50"
+        >
+          Save limits
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Token usage and estimated cost of generated summaries, with breakdowns
+ * per day, per podcast and per model. Costs are estimates from list
+ * prices; "+" marks totals that include summaries of unpriced models.
+ * Spending limits are edited here too.
+ */
+export function UsageTabContent() {
+  const { data: stats, isLoading, isError, error } = useDbStats();
+  const [breakdown, setBreakdown] = useState<Breakdown>("day");
+
+  if (isLoading) {
+    return (
+      <div className="flex-1 flex items-center justify-center text-[#52525b] text-sm">
+        Loading...
+      </div>
+    );
+  }
+
+  if (isError || !stats) {
+    return (
+      <div className="flex-1 p-8 text-sm text-status-error">
+        {error?.message ?? "Could not load usage"}
+      </div>
+    );
+  }
+
+  const { usage } = stats;
+  const rows: { key: string; label: string; totals: UsageTotals }[] =
+    breakdown === "day"
+      ? usage.byDay.map((row) => ({
+          key: row.day,
+          label: formatDay(row.day),
+          totals: row,
+        }))
+      : breakdown === "podcast"
+        ? usage.byPodcast.map((row) => ({
+            key: row.podcast_id,
+            label: row.podcast_title,
+            totals: row,
+          }))
+        : usage.byModel.map((row) => ({
+            key: `${row.provider}:${row.model}`,
+            label: `${row.model} (${PROVIDER_LABELS[row.provider] ?? row.provider})`,
+            totals: row,
+          }));
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 p-8 gap-4 overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <h2 className="text-[20px] font-medium text-[#f4f4f5]">Usage</h2>
+        <span className="text-[#71717a] text-[12px]">
+          {stats.podcasts} podcasts · {stats.episodes} episodes ·{" "}
+          {stats.documents} summaries · {stats.downloaded} downloaded
+        </span>
+      </div>
+
+      <div className="grid grid-cols-4 gap-3">
+        <StatCard
+          label="Summaries generated"
+          value={
+            usage.totals.failed > 0
+              ? `${usage.totals.summaries} · ${usage.totals.failed} failed`
+              : String(usage.totals.summaries)
+          }
+        />
+        <StatCard
+          label="Input tokens"
+          value={formatTokens(usage.totals.input_tokens)}
+        />
+        <StatCard
+          label="Output tokens"
+          value={formatTokens(usage.totals.output_tokens)}
+        />
+        <StatCard label="Estimated cost" value={formatCost(usage.totals)} />
+      </div>
+
+      <UsageLimitsForm />
+
+      <div className="flex items-center gap-1">
+        {BREAKDOWN_OPTIONS.map((option) => (
+          <button
+            key={option.id}
+            onClick={() => setBreakdown(option.id)}
+            className={`h-8 px-3 rounded-md text-[12px] transition-colors ${
+              breakdown === option.id
+                ? "bg-white-10 text-[#f4f4f5]"
+                : "text-[#71717a] hover:text-[#d4d4d8] hover:bg-white-5"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+        {breakdown === "day" && (
+          <span className="ml-2 text-[#52525b] text-[12px]">
+            Last 30 days (UTC)
+          </span>
+        )}
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="flex items-center justify-center py-16 text-[#52525b] text-sm">
+          No summaries generated yet
+        </div>
+      ) : (
+        <div className="rounded-lg bg-[#18181b] border border-[#ffffff1a] overflow-hidden">
+          <table className="w-full text-[13px]">
+            <thead>
+              <tr className="text-[#71717a] text-[12px] text-right border-b border-[#ffffff1a]">
+                <th className="px-4 py-2 font-normal text-left">
+                  {BREAKDOWN_OPTIONS.find((o) => o.id === breakdown)?.label}
+                </th>
+                <th className="px-4 py-2 font-normal">Summaries</th>
+                <th className="px-4 py-2 font-normal">Input tokens</th>
+                <th className="px-4 py-2 font-normal">Output tokens</th>
+                <th className="px-4 py-2 font-normal">Audio</th>
+                <th className="px-4 py-2 font-normal">Est. cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ key, label, totals }) => (
+                <tr
+                  key={key}
+                  className="text-right text-[#a1a1aa] border-b border-[#ffffff0d] last:border-0"
+                >
+                  <td className="px-4 py-2 text-left text-[#f4f4f5] truncate max-w-[280px]">
+                    {label}
+                  </td>
+                  <td className="px-4 py-2">{totals.summaries}</td>
+                  <td className="px-4 py-2">
+                    {formatTokens(totals.input_tokens)}
+                  </td>
+                  <td className="px-4 py-2">
+                    {formatTokens(totals.output_tokens)}
+                  </td>
+                  <td className="px-4 py-2">
+                    {totals.audio_seconds > 0
+                      ? formatHours(totals.audio_seconds)
+                      : "—"}
+                  </td>
+                  <td className="px-4 py-2 text-[#f4f4f5]">
+                    {formatCost(totals)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
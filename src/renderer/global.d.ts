@@ -1,5 +1,25 @@
 import type { IPCResponse, PodcastSearchResult } from "../shared/types";
-import type { Episode, Podcast, Document } from "../shared/types";
+import type { Episode, Podcast, Document, SummaryJob } from "../shared/types";
+import type {
+  AIProviderId,
+  AIProviderSettings,
+  AISettings,
+  Transcript,
+  EpisodeChatMessage,
+  LibraryAnswer,
+  SearchFilters,
+  SearchResult,
+  RelatedEpisode,
+  DbStats,
+  UsageLimits,
+  PromptTemplate,
+  SummaryFormat,
+  AutoSummarizeRule,
+  FeedRefreshSettings,
+  FeedSyncResult,
+  FeedFetchLogEntry,
+  EpisodeChapter,
+} from "../shared/types";
 
 export {};
 
@@ -8,10 +28,15 @@ declare global {
     api: {
       // Podcast Methods
       getEpisodes: (podcastId: string) => Promise<IPCResponse<Episode[]>>;
+      getEpisodeChapters: (
+        episodeId: string,
+      ) => Promise<IPCResponse<EpisodeChapter[]>>;
+      markEpisodeSeen: (episodeId: string) => Promise<IPCResponse<void>>;
+      markPodcastSeen: (podcastId: string) => Promise<IPCResponse<void>>;
       subscribePodcast: (
         url: string,
         artworkUrl?: string,
-      ) => Promise<IPCResponse<{ podcastId: string; newCount: number }>>;
+      ) => Promise<IPCResponse<FeedSyncResult>>;
       getPodcasts: () => Promise<IPCResponse<Podcast[]>>;
       getPodcast: (podcastId: string) => Promise<IPCResponse<Podcast>>;
       searchPodcasts: (
@@ -21,19 +46,102 @@ declare global {
         podcastId: string,
         prompt: string | null,
       ) => Promise<IPCResponse<void>>;
+      updatePodcastPromptTemplate: (
+        podcastId: string,
+        templateId: string | null,
+      ) => Promise<IPCResponse<void>>;
+      getPromptTemplates: () => Promise<IPCResponse<PromptTemplate[]>>;
+      savePromptTemplate: (template: {
+        id?: string | null;
+        name: string;
+        content: string;
+      }) => Promise<IPCResponse<PromptTemplate>>;
+      deletePromptTemplate: (templateId: string) => Promise<IPCResponse<void>>;
+      updatePodcastAutoSummarize: (
+        podcastId: string,
+        rule: AutoSummarizeRule,
+      ) => Promise<IPCResponse<void>>;
+      updatePodcastRefreshInterval: (
+        podcastId: string,
+        minutes: number | null,
+      ) => Promise<IPCResponse<void>>;
+      getFeedFetchLog: (
+        podcastId: string,
+      ) => Promise<IPCResponse<FeedFetchLogEntry[]>>;
+      updatePodcastSummaryLanguage: (
+        podcastId: string,
+        language: string | null,
+      ) => Promise<IPCResponse<void>>;
+      updatePodcastAiProvider: (
+        podcastId: string,
+        provider: AIProviderId | null,
+        model: string | null,
+      ) => Promise<IPCResponse<void>>;
       deletePodcast: (
         podcastId: string,
         permanent: boolean,
       ) => Promise<IPCResponse<void>>;
 
       // AI Summary Methods
-      runAiSummary: (episodeId: string) => Promise<IPCResponse<string>>;
-      getGeneratingStatus: () => Promise<
-        IPCResponse<{ isGenerating: boolean; episodeId: string | null }>
-      >;
+      runAiSummary: (
+        episodeId: string,
+        templateIds?: string[],
+      ) => Promise<IPCResponse<SummaryJob>>;
+      cancelAiSummary: (episodeId: string) => Promise<IPCResponse<boolean>>;
+      getSummaryJobs: () => Promise<IPCResponse<SummaryJob[]>>;
+      getSummaryConcurrency: () => Promise<IPCResponse<number>>;
+      setSummaryConcurrency: (
+        concurrency: number,
+      ) => Promise<IPCResponse<void>>;
+      getFeedRefreshSettings: () => Promise<IPCResponse<FeedRefreshSettings>>;
+      setFeedRefreshSettings: (
+        settings: FeedRefreshSettings,
+      ) => Promise<IPCResponse<void>>;
+      getSummaryFormat: () => Promise<IPCResponse<SummaryFormat>>;
+      setSummaryFormat: (format: SummaryFormat) => Promise<IPCResponse<void>>;
+      getShowNotesContext: () => Promise<IPCResponse<boolean>>;
+      setShowNotesContext: (enabled: boolean) => Promise<IPCResponse<void>>;
+      getSummaryLanguage: () => Promise<IPCResponse<string>>;
+      setSummaryLanguage: (language: string) => Promise<IPCResponse<void>>;
+      getUsageLimits: () => Promise<IPCResponse<UsageLimits>>;
+      setUsageLimits: (limits: UsageLimits) => Promise<IPCResponse<void>>;
       getDocuments: (episodeId: string) => Promise<IPCResponse<Document[]>>;
       getDocumentsByPodcast: (podcastId: string) => Promise<IPCResponse<any[]>>;
       deleteSummary: (documentId: string) => Promise<IPCResponse<void>>;
+      setPrimaryDocument: (documentId: string) => Promise<IPCResponse<void>>;
+      setDocumentPinned: (
+        documentId: string,
+        pinned: boolean,
+      ) => Promise<IPCResponse<void>>;
+      translateSummary: (
+        documentId: string,
+        language: string,
+      ) => Promise<IPCResponse<string>>;
+      getTranscript: (
+        episodeId: string,
+      ) => Promise<IPCResponse<Transcript | null>>;
+      deleteTranscript: (episodeId: string) => Promise<IPCResponse<void>>;
+      importPublisherTranscript: (
+        episodeId: string,
+      ) => Promise<IPCResponse<boolean>>;
+      chatWithEpisode: (
+        episodeId: string,
+        question: string,
+      ) => Promise<IPCResponse<EpisodeChatMessage>>;
+      cancelEpisodeChat: (episodeId: string) => Promise<IPCResponse<boolean>>;
+      getEpisodeChat: (
+        episodeId: string,
+      ) => Promise<IPCResponse<EpisodeChatMessage[]>>;
+      clearEpisodeChat: (episodeId: string) => Promise<IPCResponse<void>>;
+      askLibrary: (question: string) => Promise<IPCResponse<LibraryAnswer>>;
+      cancelLibraryQuestion: () => Promise<IPCResponse<boolean>>;
+      searchLibrary: (
+        query: string,
+        filters?: SearchFilters,
+      ) => Promise<IPCResponse<SearchResult[]>>;
+      getRelatedEpisodes: (
+        episodeId: string,
+      ) => Promise<IPCResponse<RelatedEpisode[]>>;
 
       // Download Methods
       downloadEpisode: (
@@ -46,14 +154,18 @@ declare global {
       // Utility Methods
       getDownloadPath: () => Promise<IPCResponse<string>>;
       openDownloadFolder: () => Promise<IPCResponse<void>>;
-      getDbStats: () => Promise<
-        IPCResponse<{ podcasts: number; episodes: number; documents: number }>
-      >;
+      getDbStats: () => Promise<IPCResponse<DbStats>>;
 
-      // API Key Methods
-      saveApiKey: (apiKey: string) => Promise<IPCResponse<void>>;
-      getApiKey: () => Promise<IPCResponse<string>>;
-      removeApiKey: () => Promise<IPCResponse<void>>;
+      // AI Provider Methods
+      getAiSettings: () => Promise<IPCResponse<AISettings>>;
+      saveAiSettings: (
+        settings: AIProviderSettings,
+      ) => Promise<IPCResponse<void>>;
+      saveApiKey: (
+        provider: AIProviderId,
+        apiKey: string,
+      ) => Promise<IPCResponse<void>>;
+      removeApiKey: (provider: AIProviderId) => Promise<IPCResponse<void>>;
       openEnvFolder: () => Promise<IPCResponse<void>>;
       syncAllPodcasts: () => Promise<IPCResponse<{ synced: number }>>;
 
@@ -63,16 +175,81 @@ declare global {
           type: string;
           podcastId: string;
           newCount: number;
+          updatedCount: number;
+          removedCount: number;
+        }) => void,
+      ) => () => void;
+      onSummaryQueued: (
+        callback: (data: {
+          type: string;
+          jobId: string;
+          episodeId: string;
+        }) => void,
+      ) => () => void;
+      onSummaryStarted: (
+        callback: (data: {
+          type: string;
+          jobId: string;
+          episodeId: string;
         }) => void,
       ) => () => void;
       onSummaryCompleted: (
-        callback: (data: { type: string; episodeId: string }) => void,
+        callback: (data: {
+          type: string;
+          jobId: string;
+          episodeId: string;
+        }) => void,
+      ) => () => void;
+      onSummaryCancelled: (
+        callback: (data: {
+          type: string;
+          jobId: string;
+          episodeId: string;
+        }) => void,
+      ) => () => void;
+      onSummaryChunk: (
+        callback: (data: {
+          type: string;
+          jobId: string;
+          episodeId: string;
+          text: string;
+        }) => void,
+      ) => () => void;
+      onUsageLimit: (
+        callback: (data: {
+          type: string;
+          level: "warning" | "reached";
+          period: "daily" | "monthly";
+          metric: "tokens" | "audioHours" | "cost";
+          used: number;
+          limit: number;
+          resetAt: string;
+        }) => void,
+      ) => () => void;
+      onSummaryProgress: (
+        callback: (data: {
+          type: string;
+          jobId: string;
+          episodeId: string;
+          stage: "transcribing" | "summarizing" | "merging";
+          chunk: number;
+          totalChunks: number;
+        }) => void,
       ) => () => void;
       onSummaryFailed: (
         callback: (data: {
           type: string;
+          jobId: string;
           episodeId: string;
           error: string;
+          category:
+            | "auth"
+            | "quota"
+            | "safety"
+            | "timeout"
+            | "network"
+            | "unavailable"
+            | "unknown";
         }) => void,
       ) => () => void;
       onDownloadProgress: (
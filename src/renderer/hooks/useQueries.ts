@@ -12,6 +12,14 @@ import {
  */
 
 import { useGeneratingStore } from "../stores/useGeneratingStore";
+import type {
+  AIProviderId,
+  AIProviderSettings,
+  FeedRefreshSettings,
+  SearchFilters,
+  SummaryFormat,
+  UsageLimits,
+} from "../../shared/types";
 
 // ===== Podcasts =====
 
@@ -102,6 +110,56 @@ export function useEpisodes(podcastId: string | null) {
   });
 }
 
+// Fetched from the feed's chapters file on first use, then cached
+export function useEpisodeChapters(episodeId: string | null, enabled = true) {
+  return useQuery({
+    queryKey: ["episode-chapters", episodeId],
+    queryFn: async () => {
+      if (!episodeId) return [];
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.getEpisodeChapters(episodeId);
+      if (!result.success) throw new Error(result.error);
+      return result.data;
+    },
+    enabled:
+      enabled && !!episodeId && typeof window !== "undefined" && !!window.api,
+    staleTime: 30 * 60 * 1000,
+  });
+}
+
+// Clearing "new" flags changes the episode rows and the podcast badges
+export function useMarkEpisodeSeen() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ episodeId }: { episodeId: string }) => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.markEpisodeSeen(episodeId);
+      if (!result.success) throw new Error(result.error);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["episodes"] });
+      queryClient.invalidateQueries({ queryKey: ["podcasts"] });
+    },
+  });
+}
+
+export function useMarkPodcastSeen() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ podcastId }: { podcastId: string }) => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.markPodcastSeen(podcastId);
+      if (!result.success) throw new Error(result.error);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["episodes"] });
+      queryClient.invalidateQueries({ queryKey: ["podcasts"] });
+    },
+  });
+}
+
 export function useDownloadedEpisodes() {
   return useQuery({
     queryKey: ["episodes", "downloaded"],
@@ -171,6 +229,151 @@ export function useDocuments(episodeId: string | null) {
   });
 }
 
+export function useTranscript(episodeId: string | null) {
+  return useQuery({
+    queryKey: ["transcript", episodeId],
+    queryFn: async () => {
+      if (!episodeId) return null;
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.getTranscript(episodeId);
+      if (!result.success) throw new Error(result.error);
+      return result.data;
+    },
+    enabled: !!episodeId && typeof window !== "undefined" && !!window.api,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useDeleteTranscript() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (episodeId: string) => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.deleteTranscript(episodeId);
+      if (!result.success) throw new Error(result.error);
+    },
+    onSuccess: (_, episodeId) => {
+      queryClient.invalidateQueries({ queryKey: ["transcript", episodeId] });
+    },
+  });
+}
+
+export function useImportPublisherTranscript() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (episodeId: string) => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.importPublisherTranscript(episodeId);
+      if (!result.success) throw new Error(result.error);
+      return result.data;
+    },
+    onSuccess: (_, episodeId) => {
+      queryClient.invalidateQueries({ queryKey: ["transcript", episodeId] });
+    },
+  });
+}
+
+// ===== Episode Chat =====
+
+export function useEpisodeChat(episodeId: string | null) {
+  return useQuery({
+    queryKey: ["episode-chat", episodeId],
+    queryFn: async () => {
+      if (!episodeId) return [];
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.getEpisodeChat(episodeId);
+      if (!result.success) throw new Error(result.error);
+      return result.data;
+    },
+    enabled: !!episodeId && typeof window !== "undefined" && !!window.api,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useChatWithEpisode() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      episodeId,
+      question,
+    }: {
+      episodeId: string;
+      question: string;
+    }) => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.chatWithEpisode(episodeId, question);
+      if (!result.success) throw new Error(result.error);
+      return result.data;
+    },
+    // Returned so mutateAsync resolves once the new turn is in the cache
+    onSuccess: (_, { episodeId }) =>
+      queryClient.invalidateQueries({ queryKey: ["episode-chat", episodeId] }),
+  });
+}
+
+export function useClearEpisodeChat() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (episodeId: string) => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.clearEpisodeChat(episodeId);
+      if (!result.success) throw new Error(result.error);
+    },
+    onSuccess: (_, episodeId) => {
+      queryClient.invalidateQueries({ queryKey: ["episode-chat", episodeId] });
+    },
+  });
+}
+
+// ===== Library Q&A =====
+
+export function useAskLibrary() {
+  return useMutation({
+    mutationFn: async (question: string) => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.askLibrary(question);
+      if (!result.success) throw new Error(result.error);
+      return result.data;
+    },
+  });
+}
+
+export function useSearchLibrary(query: string, filters: SearchFilters) {
+  return useQuery({
+    queryKey: ["search-library", query, filters],
+    queryFn: async () => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.searchLibrary(query, filters);
+      if (!result.success) throw new Error(result.error);
+      return result.data;
+    },
+    enabled:
+      !!query.trim() && typeof window !== "undefined" && !!window.api,
+    // Indexes change whenever summaries/transcripts are saved
+    staleTime: 0,
+    placeholderData: (previous) => previous,
+  });
+}
+
+export function useRelatedEpisodes(episodeId: string | null) {
+  return useQuery({
+    queryKey: ["related-episodes", episodeId],
+    queryFn: async () => {
+      if (!episodeId) return [];
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.getRelatedEpisodes(episodeId);
+      if (!result.success) throw new Error(result.error);
+      return result.data;
+    },
+    enabled: !!episodeId && typeof window !== "undefined" && !!window.api,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
 export function useDocumentsByPodcast(podcastId: string | null) {
   return useQuery({
     queryKey: ["documents-by-podcast", podcastId],
@@ -218,24 +421,228 @@ export function useAllDocumentsGrouped(podcasts: any[] | undefined) {
 }
 
 export function useRunAiSummary() {
-  const queryClient = useQueryClient();
-  const setGenerating = useGeneratingStore((state) => state.setGenerating);
+  const setJobStatus = useGeneratingStore((state) => state.setJobStatus);
 
+  return useMutation({
+    mutationFn: async ({
+      episodeId,
+      templateIds = [],
+    }: {
+      episodeId: string;
+      templateIds?: string[]; // Prompt templates (lenses) for this run; [] = podcast's
+    }) => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.runAiSummary(episodeId, templateIds);
+      if (!result.success) throw new Error(result.error);
+      return result.data;
+    },
+    onSuccess: (job) => {
+      // Documents are refreshed when the summary_completed event arrives
+      if (job.status === "pending" || job.status === "running") {
+        setJobStatus(job.episode_id, job.status);
+      }
+    },
+  });
+}
+
+export function useCancelAiSummary() {
   return useMutation({
     mutationFn: async (episodeId: string) => {
       if (!window.api) throw new Error("API not available");
-      setGenerating(episodeId);
-      const result = await window.api.runAiSummary(episodeId);
+      const result = await window.api.cancelAiSummary(episodeId);
       if (!result.success) throw new Error(result.error);
+      // The job leaves the store when summary_cancelled arrives
       return result.data;
     },
-    onSuccess: async (_, episodeId) => {
-      await queryClient.invalidateQueries({ queryKey: ["documents", episodeId] });
-      await queryClient.invalidateQueries({ queryKey: ["documents-by-podcast"] });
-      await queryClient.invalidateQueries({ queryKey: ["episodes"] });
+  });
+}
+
+export function useSummaryConcurrency() {
+  return useQuery({
+    queryKey: ["summary-concurrency"],
+    queryFn: async () => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.getSummaryConcurrency();
+      if (!result.success) throw new Error(result.error);
+      return result.data;
+    },
+    staleTime: 5 * 60 * 1000,
+    enabled: typeof window !== "undefined" && !!window.api,
+  });
+}
+
+export function useSetSummaryConcurrency() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (concurrency: number) => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.setSummaryConcurrency(concurrency);
+      if (!result.success) throw new Error(result.error);
     },
-    onSettled: () => {
-      setGenerating(null);
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["summary-concurrency"] });
+    },
+  });
+}
+
+export function useSummaryFormat() {
+  return useQuery({
+    queryKey: ["summary-format"],
+    queryFn: async () => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.getSummaryFormat();
+      if (!result.success) throw new Error(result.error);
+      return result.data;
+    },
+    staleTime: 5 * 60 * 1000,
+    enabled: typeof window !== "undefined" && !!window.api,
+  });
+}
+
+export function useSetSummaryFormat() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (format: SummaryFormat) => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.setSummaryFormat(format);
+      if (!result.success) throw new Error(result.error);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["summary-format"] });
+    },
+  });
+}
+
+export function useShowNotesContext() {
+  return useQuery({
+    queryKey: ["show-notes-context"],
+    queryFn: async () => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.getShowNotesContext();
+      if (!result.success) throw new Error(result.error);
+      return result.data;
+    },
+    staleTime: 5 * 60 * 1000,
+    enabled: typeof window !== "undefined" && !!window.api,
+  });
+}
+
+export function useSetShowNotesContext() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (enabled: boolean) => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.setShowNotesContext(enabled);
+      if (!result.success) throw new Error(result.error);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["show-notes-context"] });
+    },
+  });
+}
+
+// Only fetched while the log is open
+export function useFeedFetchLog(podcastId: string | null, enabled: boolean) {
+  return useQuery({
+    queryKey: ["feed-fetch-log", podcastId],
+    queryFn: async () => {
+      if (!podcastId) return [];
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.getFeedFetchLog(podcastId);
+      if (!result.success) throw new Error(result.error);
+      return result.data;
+    },
+    enabled:
+      enabled && !!podcastId && typeof window !== "undefined" && !!window.api,
+  });
+}
+
+export function useFeedRefreshSettings() {
+  return useQuery({
+    queryKey: ["feed-refresh-settings"],
+    queryFn: async () => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.getFeedRefreshSettings();
+      if (!result.success) throw new Error(result.error);
+      return result.data;
+    },
+    staleTime: 5 * 60 * 1000,
+    enabled: typeof window !== "undefined" && !!window.api,
+  });
+}
+
+export function useSetFeedRefreshSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (settings: FeedRefreshSettings) => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.setFeedRefreshSettings(settings);
+      if (!result.success) throw new Error(result.error);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["feed-refresh-settings"] });
+    },
+  });
+}
+
+export function useSummaryLanguage() {
+  return useQuery({
+    queryKey: ["summary-language"],
+    queryFn: async () => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.getSummaryLanguage();
+      if (!result.success) throw new Error(result.error);
+      return result.data;
+    },
+    staleTime: 5 * 60 * 1000,
+    enabled: typeof window !== "undefined" && !!window.api,
+  });
+}
+
+export function useSetSummaryLanguage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (language: string) => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.setSummaryLanguage(language);
+      if (!result.success) throw new Error(result.error);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["summary-language"] });
+    },
+  });
+}
+
+export function useUsageLimits() {
+  return useQuery({
+    queryKey: ["usage-limits"],
+    queryFn: async () => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.getUsageLimits();
+      if (!result.success) throw new Error(result.error);
+      return result.data;
+    },
+    staleTime: 5 * 60 * 1000,
+    enabled: typeof window !== "undefined" && !!window.api,
+  });
+}
+
+export function useSetUsageLimits() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (limits: UsageLimits) => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.setUsageLimits(limits);
+      if (!result.success) throw new Error(result.error);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["usage-limits"] });
     },
   });
 }
@@ -251,6 +658,67 @@ export function useDeleteSummary() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["documents"] });
+      queryClient.invalidateQueries({ queryKey: ["documents-by-podcast"] });
+    },
+  });
+}
+
+export function useSetPrimaryDocument() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (documentId: string) => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.setPrimaryDocument(documentId);
+      if (!result.success) throw new Error(result.error);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["documents"] });
+      queryClient.invalidateQueries({ queryKey: ["documents-by-podcast"] });
+    },
+  });
+}
+
+export function useSetDocumentPinned() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      documentId,
+      pinned,
+    }: {
+      documentId: string;
+      pinned: boolean;
+    }) => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.setDocumentPinned(documentId, pinned);
+      if (!result.success) throw new Error(result.error);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["documents"] });
+    },
+  });
+}
+
+export function useTranslateSummary() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      documentId,
+      language,
+    }: {
+      documentId: string;
+      language: string;
+    }) => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.translateSummary(documentId, language);
+      if (!result.success) throw new Error(result.error);
+      return result.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["documents"] });
+      queryClient.invalidateQueries({ queryKey: ["db-stats"] });
     },
   });
 }
@@ -278,6 +746,59 @@ export function useUpdateCustomPrompt() {
   });
 }
 
+// ===== Prompt Templates =====
+
+export function usePromptTemplates() {
+  return useQuery({
+    queryKey: ["prompt-templates"],
+    queryFn: async () => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.getPromptTemplates();
+      if (!result.success) throw new Error(result.error);
+      return result.data;
+    },
+    enabled: typeof window !== "undefined" && !!window.api,
+  });
+}
+
+export function useSavePromptTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (template: {
+      id?: string | null;
+      name: string;
+      content: string;
+    }) => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.savePromptTemplate(template);
+      if (!result.success) throw new Error(result.error);
+      return result.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["prompt-templates"] });
+    },
+  });
+}
+
+export function useDeletePromptTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (templateId: string) => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.deletePromptTemplate(templateId);
+      if (!result.success) throw new Error(result.error);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["prompt-templates"] });
+      // Podcasts using the template fall back to the default
+      queryClient.invalidateQueries({ queryKey: ["podcast"] });
+      queryClient.invalidateQueries({ queryKey: ["podcasts"] });
+    },
+  });
+}
+
 // ===== Database Stats =====
 
 export function useDbStats() {
@@ -294,19 +815,54 @@ export function useDbStats() {
   });
 }
 
-// ===== API Key =====
+// ===== AI Provider =====
+
+export function useAiSettings() {
+  return useQuery({
+    queryKey: ["ai-settings"],
+    queryFn: async () => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.getAiSettings();
+      if (!result.success) throw new Error(result.error);
+      return result.data;
+    },
+    staleTime: 5 * 60 * 1000,
+    enabled: typeof window !== "undefined" && !!window.api,
+  });
+}
+
+export function useSaveAiSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (settings: AIProviderSettings) => {
+      if (!window.api) throw new Error("API not available");
+      const result = await window.api.saveAiSettings(settings);
+      if (!result.success) throw new Error(result.error);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["ai-settings"] });
+    },
+  });
+}
 
 export function useSaveApiKey() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (apiKey: string) => {
+    mutationFn: async ({
+      provider,
+      apiKey,
+    }: {
+      provider: AIProviderId;
+      apiKey: string;
+    }) => {
       if (!window.api) throw new Error("API not available");
-      const result = await window.api.saveApiKey(apiKey);
+      const result = await window.api.saveApiKey(provider, apiKey);
       if (!result.success) throw new Error(result.error);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["api-key"] });
+      queryClient.invalidateQueries({ queryKey: ["ai-settings"] });
     },
   });
 }
@@ -315,45 +871,57 @@ export function useRemoveApiKey() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async () => {
+    mutationFn: async (provider: AIProviderId) => {
       if (!window.api) throw new Error("API not available");
-      const result = await window.api.removeApiKey();
+      const result = await window.api.removeApiKey(provider);
       if (!result.success) throw new Error(result.error);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["api-key"] });
+      queryClient.invalidateQueries({ queryKey: ["ai-settings"] });
     },
   });
 }
 
-export function useSyncAllPodcasts() {
+export function useUpdatePodcastAiProvider() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async () => {
+    mutationFn: async ({
+      podcastId,
+      provider,
+      model,
+    }: {
+      podcastId: string;
+      provider: AIProviderId | null;
+      model: string | null;
+    }) => {
       if (!window.api) throw new Error("API not available");
-      const result = await window.api.syncAllPodcasts();
+      const result = await window.api.updatePodcastAiProvider(
+        podcastId,
+        provider,
+        model,
+      );
       if (!result.success) throw new Error(result.error);
-      return result.data;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["podcasts"] });
-      queryClient.invalidateQueries({ queryKey: ["episodes"] });
     },
   });
 }
 
-export function useGetApiKey() {
-  return useQuery({
-    queryKey: ["api-key"],
-    queryFn: async () => {
+export function useSyncAllPodcasts() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
       if (!window.api) throw new Error("API not available");
-      const result = await window.api.getApiKey();
+      const result = await window.api.syncAllPodcasts();
       if (!result.success) throw new Error(result.error);
       return result.data;
     },
-    staleTime: 5 * 60 * 1000,
-    enabled: typeof window !== "undefined" && !!window.api,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["podcasts"] });
+      queryClient.invalidateQueries({ queryKey: ["episodes"] });
+    },
   });
 }
-
@@ -6,7 +6,8 @@ import { create } from "zustand";
  * Manages UI-only state (not server data - that's handled by TanStack Query)
  */
 
-export type Tab = "episodes" | "local-upload" | "knowledge";
+export type Tab =
+  "episodes" | "local-upload" | "knowledge" | "search" | "usage";
 
 interface AppState {
   // Active selections
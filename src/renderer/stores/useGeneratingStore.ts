@@ -1,18 +1,76 @@
 import { create } from "zustand";
+import type { SummaryJob, SummaryProgress } from "../../shared/types";
+
+/**
+ * Summary queue state, keyed by episode ID
+ *
+ * Mirrors the active (pending / running) jobs of the backend queue.
+ * Kept up to date by the summary_* event listeners in App. Progress and
+ * streamed text only exist for running jobs that reported them
+ * (summary_progress / summary_chunk).
+ */
+type ActiveJobStatus = "pending" | "running";
 
 interface GeneratingState {
-  isGenerating: boolean;
-  generatingEpisodeId: string | null;
-  setGenerating: (episodeId: string | null) => void;
+  jobs: Record<string, ActiveJobStatus>;
+  progress: Record<string, SummaryProgress>;
+  streamingText: Record<string, string>; // Summary Markdown generated so far
+  setJobStatus: (episodeId: string, status: ActiveJobStatus | null) => void;
+  setProgress: (episodeId: string, progress: SummaryProgress) => void;
+  setStreamingText: (episodeId: string, text: string) => void;
+  setJobs: (jobs: SummaryJob[]) => void;
 }
 
 export const useGeneratingStore = create<GeneratingState>((set) => ({
-  isGenerating: false,
-  generatingEpisodeId: null,
+  jobs: {},
+  progress: {},
+  streamingText: {},
 
-  setGenerating: (episodeId) =>
-    set({
-      isGenerating: episodeId !== null,
-      generatingEpisodeId: episodeId,
+  setJobStatus: (episodeId, status) =>
+    set((state) => {
+      const jobs = { ...state.jobs };
+      const progress = { ...state.progress };
+      const streamingText = { ...state.streamingText };
+      if (status) {
+        jobs[episodeId] = status;
+      } else {
+        delete jobs[episodeId];
+      }
+      if (status !== "running") {
+        delete progress[episodeId];
+        delete streamingText[episodeId];
+      }
+      return { jobs, progress, streamingText };
     }),
+
+  setProgress: (episodeId, progress) =>
+    set((state) => ({
+      progress: { ...state.progress, [episodeId]: progress },
+    })),
+
+  setStreamingText: (episodeId, text) =>
+    set((state) => ({
+      streamingText: { ...state.streamingText, [episodeId]: text },
+    })),
+
+  setJobs: (jobs) =>
+    set((state) => ({
+      jobs: Object.fromEntries(
+        jobs
+          .filter((job) => job.status === "pending" || job.status === "running")
+          .map((job) => [job.episode_id, job.status as ActiveJobStatus]),
+      ),
+      progress: Object.fromEntries(
+        jobs
+          .filter((job) => job.status === "running")
+          .filter((job) => state.progress[job.episode_id])
+          .map((job) => [job.episode_id, state.progress[job.episode_id]]),
+      ),
+      streamingText: Object.fromEntries(
+        jobs
+          .filter((job) => job.status === "running")
+          .filter((job) => state.streamingText[job.episode_id])
+          .map((job) => [job.episode_id, state.streamingText[job.episode_id]]),
+      ),
+    })),
 }));
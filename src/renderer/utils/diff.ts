@@ -0,0 +1,71 @@
+/**
+ * Line-based diff for comparing summary versions side by side
+ *
+ * Classic LCS over lines. Adjacent removed/added runs are paired into
+ * "changed" rows so the two columns stay aligned.
+ */
+
+export type DiffRowType = "same" | "added" | "removed" | "changed";
+
+export interface DiffRow {
+  type: DiffRowType;
+  left: string | null; // line from the base version
+  right: string | null; // line from the compared version
+}
+
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const n = a.length;
+  const m = b.length;
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      rows.push({ type: "changed", left: removed[k], right: added[k] });
+    }
+    removed.slice(paired).forEach((line) => {
+      rows.push({ type: "removed", left: line, right: null });
+    });
+    added.slice(paired).forEach((line) => {
+      rows.push({ type: "added", left: null, right: line });
+    });
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[i] === b[j]) {
+      flush();
+      rows.push({ type: "same", left: a[i], right: b[j] });
+      i++;
+      j++;
+    } else if (j < m && (i >= n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push(b[j]);
+      j++;
+    } else {
+      removed.push(a[i]);
+      i++;
+    }
+  }
+  flush();
+
+  return rows;
+}
@@ -0,0 +1,29 @@
+import type { Podcast } from "../../shared/types";
+
+/**
+ * Refresh interval for display, e.g. "15 min", "6 h" or "Never"
+ */
+export function formatRefreshInterval(minutes: number): string {
+  if (minutes === 0) return "Never";
+  return minutes < 60 ? `${minutes} min` : `${minutes / 60} h`;
+}
+
+/**
+ * Whether the last sync attempt of a podcast failed
+ */
+export function isSyncFailing(podcast: Podcast): boolean {
+  if (!podcast.last_sync_error_at) return false;
+  return (
+    !podcast.last_fetched_at ||
+    podcast.last_sync_error_at > podcast.last_fetched_at
+  );
+}
+
+/**
+ * Response size for the fetch log, e.g. "812 B", "34.5 KB" or "2.1 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
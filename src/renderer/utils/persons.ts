@@ -0,0 +1,13 @@
+import type { EpisodePerson } from "../../shared/types";
+
+/**
+ * People of an episode from its persons JSON (<podcast:person> tags)
+ */
+export function parsePersons(json: string | null | undefined): EpisodePerson[] {
+  if (!json) return [];
+  try {
+    return JSON.parse(json) as EpisodePerson[];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,46 @@
+import DOMPurify from "dompurify";
+import type { Episode } from "../../shared/types";
+
+/**
+ * Sanitized HTML of an episode's show notes (full notes > short
+ * description), or null if the feed has none
+ *
+ * Only http(s) links are kept; they open in the default browser (see
+ * the window open handler in the main process). Plain-text notes keep
+ * their line breaks.
+ */
+export function renderShowNotes(episode: Episode): string | null {
+  const notes = (episode.content_html || episode.description || "").trim();
+  if (!notes) return null;
+
+  const html = /<[a-z][^>]*>/i.test(notes)
+    ? notes
+    : notes
+        .replace(/&(?![a-z]+;|#\d+;|#x[\da-f]+;)/gi, "&amp;")
+        .replace(/\n/g, "<br>");
+
+  const fragment = DOMPurify.sanitize(html, { RETURN_DOM_FRAGMENT: true });
+  fragment.querySelectorAll("a").forEach((link) => {
+    if (/^https?:\/\//i.test(link.getAttribute("href") ?? "")) {
+      link.setAttribute("target", "_blank");
+      link.setAttribute("rel", "noopener noreferrer");
+    } else {
+      link.removeAttribute("href");
+    }
+  });
+
+  const container = document.createElement("div");
+  container.appendChild(fragment);
+  return container.innerHTML;
+}
+
+/**
+ * "S2 · E14", "E14" or "S2"; null when the feed numbers neither
+ */
+export function formatEpisodeNumber(episode: Episode): string | null {
+  const parts = [
+    episode.season !== null ? `S${episode.season}` : null,
+    episode.episode_number !== null ? `E${episode.episode_number}` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
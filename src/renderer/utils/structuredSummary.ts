@@ -0,0 +1,54 @@
+import type { StructuredSummary } from "../../shared/types";
+
+// Fields of a structured summary that the Documents tab can filter on
+export type StructuredField =
+  | "guests"
+  | "topics"
+  | "key_insights"
+  | "action_items"
+  | "resources"
+  | "keywords";
+
+export const STRUCTURED_FIELD_LABELS: Record<StructuredField, string> = {
+  guests: "Guests",
+  topics: "Topics",
+  key_insights: "Key insights",
+  action_items: "Action items",
+  resources: "Resources",
+  keywords: "Keywords",
+};
+
+export const STRUCTURED_FIELDS = Object.keys(
+  STRUCTURED_FIELD_LABELS,
+) as StructuredField[];
+
+/**
+ * Structured fields of a document, or null for a Markdown summary
+ */
+export function parseStructured(
+  json: string | null | undefined,
+): StructuredSummary | null {
+  if (!json) return null;
+  try {
+    return JSON.parse(json) as StructuredSummary;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Plain-text values of one field (names for guests and resources)
+ */
+export function structuredValues(
+  summary: StructuredSummary,
+  field: StructuredField,
+): string[] {
+  switch (field) {
+    case "guests":
+      return (summary.guests ?? []).map((guest) => guest.name);
+    case "resources":
+      return (summary.resources ?? []).map((resource) => resource.name);
+    default:
+      return summary[field] ?? [];
+  }
+}
@@ -0,0 +1,19 @@
+import type { SummaryProgress } from "../../shared/types";
+
+/**
+ * Button label for a running summary job, e.g. "Transcribing 2/5..."
+ */
+export function formatSummaryProgress(progress?: SummaryProgress): string {
+  if (!progress) return "Generating...";
+
+  const label =
+    progress.stage === "transcribing"
+      ? "Transcribing"
+      : progress.stage === "summarizing"
+        ? "Summarizing"
+        : "Merging parts";
+
+  return progress.totalChunks > 1 && progress.stage !== "merging"
+    ? `${label} ${progress.chunk}/${progress.totalChunks}...`
+    : `${label}...`;
+}
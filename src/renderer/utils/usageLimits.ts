@@ -0,0 +1,42 @@
+import type {
+  UsageLimitMetric,
+  UsageLimitPeriod,
+  UsageLimitStatus,
+} from "../../shared/types";
+
+export const USAGE_LIMIT_METRIC_LABELS: Record<UsageLimitMetric, string> = {
+  tokens: "Tokens",
+  audioHours: "Audio hours",
+  cost: "Estimated cost (USD)",
+};
+
+export const USAGE_LIMIT_PERIOD_LABELS: Record<UsageLimitPeriod, string> = {
+  daily: "Daily",
+  monthly: "Monthly",
+};
+
+/**
+ * Amount of one usage metric, e.g. "$1.20", "3.5 h" or "120,000 tokens"
+ */
+export function formatUsageAmount(
+  metric: UsageLimitMetric,
+  value: number,
+): string {
+  switch (metric) {
+    case "cost":
+      return `$${value.toFixed(2)}`;
+    case "audioHours":
+      return `${value.toFixed(1)} h`;
+    case "tokens":
+      return `${Math.round(value).toLocaleString("en-US")} tokens`;
+  }
+}
+
+/**
+ * Toast description for a usage limit, e.g. "Daily limit: $4.10 of $5.00"
+ */
+export function formatUsageLimit(status: UsageLimitStatus): string {
+  const used = formatUsageAmount(status.metric, status.used);
+  const limit = formatUsageAmount(status.metric, status.limit);
+  return `${USAGE_LIMIT_PERIOD_LABELS[status.period]} limit: ${used} of ${limit}`;
+}
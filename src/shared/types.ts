@@ -12,8 +12,49 @@ export interface Podcast {
   custom_prompt: string | null;
   last_fetched_at: string | null; // UTC ISO format
   is_subscribed: number; // 1 = subscribed, 0 = soft-deleted
+  ai_provider: AIProviderId | null; // null = use global setting
+  ai_model: string | null; // null = provider default / global model
+  prompt_template_id: string | null; // null = built-in default template
+  summary_language: string | null; // null = global summary language
+  auto_summarize: number; // 1 = new episodes that pass the filters are summarized
+  auto_summarize_min_minutes: number | null; // null = any length
+  auto_summarize_title_pattern: string | null; // Case-insensitive; null = any title
+  auto_summarize_title_regex: number; // 1 = title pattern is a regex, 0 = plain text
+  refresh_interval_minutes: number | null; // Background refresh; null = global interval, 0 = never
+  last_sync_error: string | null; // Message of the last failed sync
+  last_sync_error_at: string | null; // UTC ISO format; last success is last_fetched_at
+  feed_etag: string | null; // Sent as If-None-Match on the next sync
+  feed_last_modified: string | null; // Sent as If-Modified-Since on the next sync
+  new_count?: number; // Episodes not yet viewed (podcast list only)
 }
 
+/**
+ * What a feed sync changed, by episode ID. Removed episodes are no
+ * longer in the feed but stay in the library.
+ */
+export interface FeedSyncResult {
+  podcastId: string;
+  newCount: number; // = added.length
+  notModified: boolean; // Server answered 304; nothing was parsed
+  added: string[];
+  updated: string[]; // Title, duration or audio URL changed
+  removed: string[];
+}
+
+/**
+ * Which new episodes of a podcast are summarized automatically after a
+ * feed sync (both filters must pass when set)
+ */
+export interface AutoSummarizeRule {
+  enabled: boolean;
+  minDurationMinutes: number | null;
+  titlePattern: string | null; // Text the title contains (case-insensitive)
+  titleRegex: boolean; // Match titlePattern as a regex instead
+}
+
+// Longest accepted auto-summarize title pattern
+export const MAX_TITLE_PATTERN_LENGTH = 200;
+
 export interface Episode {
   id: string;
   podcast_id: string;
@@ -23,6 +64,41 @@ export interface Episode {
   audio_url: string;
   is_downloaded: boolean;
   local_file_path: string | null;
+  is_new: number; // 1 = found by a sync and not yet viewed
+  // Podcasting 2.0 tags from the feed
+  transcript_url: string | null; // Publisher transcript (<podcast:transcript>)
+  transcript_type: string | null; // Its MIME type
+  chapters_url: string | null; // JSON chapters file (<podcast:chapters>)
+  chapters: string | null; // JSON EpisodeChapter[], cached from chapters_url
+  persons: string | null; // JSON EpisodePerson[] (<podcast:person>)
+  // Show notes and metadata from the feed
+  description: string | null; // Short show notes, may contain HTML
+  content_html: string | null; // Full show notes (<content:encoded>)
+  season: number | null;
+  episode_number: number | null;
+  episode_type: string | null; // full, trailer or bonus
+  is_explicit: number | null; // 1 / 0; null = not stated by the feed
+  artwork_url: string | null; // Episode artwork; null = podcast artwork
+  enclosure_length: number | null; // bytes, as stated by the feed
+  enclosure_type: string | null; // MIME type
+}
+
+// <podcast:person>: a host, guest or other contributor of an episode
+export interface EpisodePerson {
+  name: string;
+  role: string; // e.g. host, guest (Podcast Taxonomy role)
+  group: string; // e.g. cast, writing
+  img: string | null;
+  href: string | null;
+}
+
+// One chapter of a JSON chapters file
+export interface EpisodeChapter {
+  startTime: number; // seconds
+  endTime: number | null; // seconds
+  title: string;
+  url: string | null;
+  img: string | null;
 }
 
 export interface Document {
@@ -31,6 +107,141 @@ export interface Document {
   content: string; // Markdown format
   created_at: string; // UTC ISO format
   used_prompt: string | null;
+  is_primary: number; // 1 = version shown by default for the episode
+  is_pinned: number; // 1 = kept as primary on regenerate, protected from deletion
+  language: string | null; // Set on translated versions; null = generated summary
+  structured: string | null; // StructuredSummary JSON (structured mode); content is its Markdown rendering
+  label: string | null; // Prompt template (lens) that produced it; null = podcast's prompt
+}
+
+// Markdown = free-form summary; structured = JSON fields rendered as Markdown
+export type SummaryFormat = "markdown" | "structured";
+
+/**
+ * Summary returned by the model as JSON in structured mode
+ */
+export interface StructuredSummary {
+  overview: string;
+  guests: { name: string; role: string | null }[];
+  topics: string[];
+  key_insights: string[];
+  action_items: string[];
+  resources: { name: string; url: string | null }[];
+  keywords: string[];
+  timestamps: { time: string; description: string }[]; // time as [HH:]MM:SS
+}
+
+/**
+ * Named, reusable summary prompt with {{variables}} (see PROMPT_VARIABLES)
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  content: string;
+  is_builtin: number; // 1 = shipped default, read-only
+  created_at: string; // UTC ISO format
+  updated_at: string; // UTC ISO format
+}
+
+// Substituted into prompts at generation time, written as {{name}}
+export const PROMPT_VARIABLES = [
+  "podcast_title",
+  "episode_title",
+  "pub_date", // YYYY-MM-DD
+  "duration", // e.g. 1:02:03
+  "language", // Summary output language
+  "show_notes", // Episode show notes as plain text (may be empty)
+] as const;
+
+export type PromptVariable = (typeof PROMPT_VARIABLES)[number];
+
+/**
+ * Background feed refresh, run by the scheduler in the main process
+ */
+export interface FeedRefreshSettings {
+  intervalMinutes: number; // 0 = off
+  pauseOnBattery: boolean; // Skip scheduled refreshes while on battery power
+}
+
+// Interval choices offered for scheduled feed refreshes (minutes)
+export const FEED_REFRESH_INTERVALS = [15, 30, 60, 180, 360, 720, 1440];
+
+// Summary output language when none is configured
+export const DEFAULT_SUMMARY_LANGUAGE = "Traditional Chinese";
+
+// Suggestions for the language settings; any language name is accepted
+export const SUMMARY_LANGUAGES = [
+  "Traditional Chinese",
+  "Simplified Chinese",
+  "English",
+  "Japanese",
+  "Korean",
+  "Spanish",
+  "French",
+  "German",
+];
+
+export type SummaryJobStatus =
+  | "pending"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface SummaryJob {
+  id: string;
+  episode_id: string;
+  status: SummaryJobStatus;
+  error: string | null;
+  created_at: string; // UTC ISO format
+  started_at: string | null; // UTC ISO format
+  finished_at: string | null; // UTC ISO format
+  prompt_template_ids: string | null; // JSON array picked for this run; null / [] = podcast's
+  is_auto: number; // 1 = queued by the podcast's auto-summarize rule
+}
+
+/**
+ * Tokens, audio and estimated cost of one generated summary
+ */
+export interface SummaryUsage {
+  id: string;
+  document_id: string | null; // null once the version is deleted
+  episode_id: string;
+  provider: AIProviderId;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  audio_seconds: number | null; // null when summarized from a stored transcript
+  estimated_cost: number | null; // USD; null if the model's price is unknown
+  is_failed: number; // 1 = spent by a run that failed or was cancelled
+  created_at: string; // UTC ISO format
+}
+
+export type UsageLimitPeriod = "daily" | "monthly";
+
+export type UsageLimitMetric = "tokens" | "audioHours" | "cost";
+
+/**
+ * Caps on one period's summary usage (null = no limit, 0 = hold every
+ * summary)
+ */
+export type UsageLimit = Record<UsageLimitMetric, number | null>;
+
+export interface UsageLimits {
+  daily: UsageLimit; // Resets at local midnight
+  monthly: UsageLimit; // Resets on the 1st of the month, local time
+  warnAtPercent: number; // Warn once usage reaches this share of a limit
+}
+
+/**
+ * Usage of the current period measured against one of its limits
+ */
+export interface UsageLimitStatus {
+  period: UsageLimitPeriod;
+  metric: UsageLimitMetric;
+  used: number;
+  limit: number;
+  resetAt: string; // UTC ISO format
 }
 
 // ===== IPC Response Types =====
@@ -39,6 +250,118 @@ export type IPCResponse<T> =
   | { success: true; data: T }
   | { success: false; error: string };
 
+// ===== AI Provider Types =====
+
+export type AIProviderId = "gemini" | "openai" | "fake";
+
+/**
+ * Global AI provider configuration (API keys live in the .env file)
+ */
+export interface AIProviderSettings {
+  provider: AIProviderId;
+  model: string;
+  baseUrl: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+  transcriptionModel: string; // OpenAI-compatible /audio/transcriptions model
+  embeddingModel: string; // Used for semantic search / related episodes
+}
+
+export interface AISettings extends AIProviderSettings {
+  apiKeys: Record<AIProviderId, string>;
+  isConfigured: boolean; // selected provider has everything it needs
+}
+
+export interface TranscriptSegment {
+  start: number; // seconds
+  end: number; // seconds
+  speaker: string | null;
+  text: string;
+}
+
+/**
+ * Stored transcript of an episode (one per episode, replaced on re-transcribe)
+ */
+export interface Transcript {
+  episode_id: string;
+  source: string; // Provider ID that produced it (gemini | openai | fake), or publisher
+  model: string | null;
+  created_at: string; // UTC ISO format
+  segments: TranscriptSegment[];
+}
+
+/**
+ * An episode/document an answer from the whole library was based on
+ */
+export interface LibrarySource {
+  ref: number; // Cited in the answer as [ref]
+  document_id: string;
+  episode_id: string;
+  podcast_id: string;
+  podcast_title: string;
+  episode_title: string;
+  episode_pub_date: string;
+}
+
+export interface LibraryAnswer {
+  question: string;
+  answer: string; // Markdown with [n] citations
+  sources: LibrarySource[];
+}
+
+export type SearchResultType = "summary" | "transcript" | "episode";
+
+export type SearchMode = "keyword" | "semantic";
+
+export interface SearchFilters {
+  mode?: SearchMode; // Defaults to keyword
+  podcastId?: string | null;
+  from?: string | null; // YYYY-MM-DD, inclusive (episode pub_date)
+  to?: string | null; // YYYY-MM-DD, inclusive
+  types?: SearchResultType[]; // Defaults to all types
+}
+
+// Wrap matched text inside SearchResult.snippet
+export const SEARCH_HIGHLIGHT_START = "\u0002";
+export const SEARCH_HIGHLIGHT_END = "\u0003";
+
+/**
+ * One hit of a full-text library search
+ */
+export interface SearchResult {
+  type: SearchResultType;
+  document_id: string | null; // Set for summaries
+  episode_id: string;
+  episode_title: string;
+  episode_pub_date: string;
+  podcast_id: string;
+  podcast_title: string;
+  start_time: number | null; // Seconds, set for transcript hits
+  snippet: string; // Plain text, matches wrapped in SEARCH_HIGHLIGHT_* markers
+  rank: number; // Lower is better
+}
+
+/**
+ * An episode whose summary is semantically close to another one
+ */
+export interface RelatedEpisode {
+  episode_id: string;
+  episode_title: string;
+  episode_pub_date: string;
+  podcast_id: string;
+  podcast_title: string;
+  score: number; // Cosine similarity, higher is closer
+}
+
+/**
+ * One persisted turn of an episode chat
+ */
+export interface EpisodeChatMessage {
+  id: string;
+  episode_id: string;
+  role: "user" | "assistant";
+  content: string;
+  created_at: string; // UTC ISO format
+}
+
 // ===== Service Types =====
 
 export interface RSSFeed {
@@ -53,9 +376,49 @@ export interface RSSFeed {
     pub_date: string; // UTC ISO format
     duration: number;
     audio_url: string;
+    transcript_url?: string | null;
+    transcript_type?: string | null;
+    chapters_url?: string | null;
+    persons?: EpisodePerson[];
+    description?: string | null;
+    content_html?: string | null;
+    season?: number | null;
+    episode_number?: number | null;
+    episode_type?: string | null;
+    is_explicit?: boolean | null;
+    artwork_url?: string | null;
+    enclosure_length?: number | null;
+    enclosure_type?: string | null;
   }>;
 }
 
+/**
+ * Reply of the RSS worker for one feed request. feed is null when the
+ * server answered 304 Not Modified or the request failed (error is set).
+ */
+export interface RSSFetchResult {
+  feed: RSSFeed | null;
+  error: string | null;
+  status: number | null; // HTTP status; null = no response
+  bytes: number;
+  durationMs: number;
+  etag: string | null;
+  lastModified: string | null;
+}
+
+// One HTTP request for a feed (latest FEED_FETCH_LOG_SIZE per podcast)
+export interface FeedFetchLogEntry {
+  id: string;
+  podcast_id: string;
+  fetched_at: string; // UTC ISO format
+  status: number | null; // HTTP status; null = no response
+  bytes: number; // Response body size; 0 for 304 Not Modified
+  duration_ms: number;
+  error: string | null;
+}
+
+export const FEED_FETCH_LOG_SIZE = 50;
+
 export interface PodcastSearchResult {
   id: string; // iTunes collection ID
   title: string; // Podcast name
@@ -70,23 +433,85 @@ export interface AudioProvisionResult {
   isEphemeral: boolean;
 }
 
+/**
+ * A time range of an episode's audio written to its own temp file
+ */
+export interface AudioChunk {
+  path: string;
+  start: number; // seconds (estimated from the byte offset)
+  end: number; // seconds
+}
+
+export type SummaryStage = "transcribing" | "summarizing" | "merging";
+
+export interface SummaryProgress {
+  stage: SummaryStage;
+  chunk: number; // 1-based; for "merging" equals totalChunks
+  totalChunks: number;
+}
+
 // ===== IPC Event Types =====
 
 export type IPCEventType =
+  | "summary_queued"
+  | "summary_started"
   | "summary_completed"
   | "summary_failed"
+  | "summary_progress"
+  | "summary_cancelled"
+  | "summary_chunk"
+  | "usage_limit"
   | "download_progress"
   | "feed_synced";
 
+export interface SummaryQueuedEvent {
+  type: "summary_queued";
+  jobId: string;
+  episodeId: string;
+}
+
+export interface SummaryStartedEvent {
+  type: "summary_started";
+  jobId: string;
+  episodeId: string;
+}
+
 export interface SummaryCompletedEvent {
   type: "summary_completed";
+  jobId: string;
   episodeId: string;
 }
 
 export interface SummaryFailedEvent {
   type: "summary_failed";
+  jobId: string;
   episodeId: string;
   error: string;
+  category: AIErrorCategory;
+}
+
+export interface SummaryCancelledEvent {
+  type: "summary_cancelled";
+  jobId: string;
+  episodeId: string;
+}
+
+export interface SummaryChunkEvent {
+  type: "summary_chunk";
+  jobId: string;
+  episodeId: string;
+  text: string; // Markdown generated so far (replaces the previous chunk)
+}
+
+export interface SummaryProgressEvent extends SummaryProgress {
+  type: "summary_progress";
+  jobId: string;
+  episodeId: string;
+}
+
+export interface UsageLimitEvent extends UsageLimitStatus {
+  type: "usage_limit";
+  level: "warning" | "reached"; // "reached" holds pending jobs until resetAt
 }
 
 export interface DownloadProgressEvent {
@@ -99,21 +524,47 @@ export interface FeedSyncedEvent {
   type: "feed_synced";
   podcastId: string;
   newCount: number;
+  updatedCount: number;
+  removedCount: number;
 }
 
 export type IPCEvent =
+  | SummaryQueuedEvent
+  | SummaryStartedEvent
   | SummaryCompletedEvent
   | SummaryFailedEvent
+  | SummaryProgressEvent
+  | SummaryCancelledEvent
+  | SummaryChunkEvent
+  | UsageLimitEvent
   | DownloadProgressEvent
   | FeedSyncedEvent;
 
 // ===== Utility Types =====
 
+export interface UsageTotals {
+  summaries: number;
+  failed: number; // Runs that spent tokens but failed or were cancelled
+  input_tokens: number;
+  output_tokens: number;
+  audio_seconds: number;
+  estimated_cost: number; // USD, priced summaries only
+  unpriced: number; // Summaries (and failed runs) whose cost could not be estimated
+}
+
+export interface UsageStats {
+  totals: UsageTotals;
+  byDay: (UsageTotals & { day: string })[]; // YYYY-MM-DD (UTC), last 30 days
+  byPodcast: (UsageTotals & { podcast_id: string; podcast_title: string })[];
+  byModel: (UsageTotals & { provider: AIProviderId; model: string })[];
+}
+
 export interface DbStats {
   podcasts: number;
   episodes: number;
   documents: number;
   downloaded: number;
+  usage: UsageStats;
 }
 
 // ===== Error Types =====
@@ -132,11 +583,63 @@ export class DatabaseError extends Error {
   }
 }
 
+export type AIErrorCategory =
+  | "auth" // API key missing, invalid or without access
+  | "quota" // Rate limit or quota exhausted (HTTP 429)
+  | "safety" // Response blocked by the model's safety filters
+  | "timeout"
+  | "network"
+  | "unavailable" // Server-side error (HTTP 5xx)
+  | "unknown";
+
+/**
+ * What the user can do about each AI error category
+ */
+export const AI_ERROR_MESSAGES: Record<AIErrorCategory, string> = {
+  auth: "API key invalid or missing. Check it in the AI settings.",
+  quota: "Rate limit or quota reached. Try again later.",
+  safety: "The AI model blocked this content for safety reasons.",
+  timeout: "The AI service took too long to respond. Try again later.",
+  network: "Could not reach the AI service. Check your connection.",
+  unavailable: "The AI service is temporarily unavailable. Try again later.",
+  unknown: "Error generating summary",
+};
+
 export class GeminiAPIError extends Error {
-  constructor(message: string) {
+  constructor(
+    message: string,
+    public readonly category: AIErrorCategory = "unknown",
+    public readonly status: number | null = null, // HTTP status, if any
+    public readonly retryAfterMs: number | null = null, // Server-suggested delay
+  ) {
     super(message);
     this.name = "GeminiAPIError";
   }
+
+  /**
+   * Transient failures that may succeed when retried after a pause
+   */
+  get retryable(): boolean {
+    return (
+      this.category === "quota" ||
+      this.category === "timeout" ||
+      this.category === "network" ||
+      this.category === "unavailable"
+    );
+  }
+}
+
+/**
+ * A daily / monthly usage limit is used up; the job was not started
+ */
+export class UsageLimitError extends Error {
+  constructor(
+    message: string,
+    public readonly status: UsageLimitStatus,
+  ) {
+    super(message);
+    this.name = "UsageLimitError";
+  }
 }
 
 export class FileSystemError extends Error {